@@ -5,19 +5,60 @@ import type React from 'react';
 import { useState, useRef, useEffect, useMemo } from 'react';
 import { useForm, useFieldArray, FormProvider } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { shopifyCustomersSchema, type ShopifyCustomersFormData, type ShopifyCustomerFormData } from '@/schemas/customer';
+import { createShopifyCustomersSchema, type ShopifyCustomersFormData, type ShopifyCustomerFormData } from '@/schemas/customer';
 import { shopifyProductsSchema, type ShopifyProductsFormData, type ShopifyProductFormData } from '@/schemas/product';
 
-import { generateShopifyCustomerCsv, parseMagentoCustomerCsv, type ParseCustomerResult } from '@/lib/customer-csv-converter';
-import { generateShopifyProductCsv, parseMagentoProductCsv, type ParseProductResult } from '@/lib/product-csv-converter';
+import {
+  generateShopifyCustomerCsv,
+  type ParseCustomerResult,
+} from '@/lib/customer-csv-converter';
+import {
+  DEFAULT_CUSTOMER_TAG_PREFIXES,
+  DEFAULT_PHONE_FORMATTING_RULES,
+  type CustomerTagPrefixes,
+  type PhoneFormattingRules,
+} from '@/lib/customer-settings';
+import {
+  DEFAULT_PRODUCT_TYPE_STRATEGIES,
+  generateBundleComponentsCsv,
+  generateShopifyProductCsv,
+  MAX_SHOPIFY_OPTIONS,
+  type BundleComponentsEntry,
+  type BundleProductStrategy,
+  type GroupedProductStrategy,
+  type ParseProductResult,
+  type ProductTypeStrategies,
+  type SkippedProduct,
+} from '@/lib/product-csv-converter';
+import { getImportProgressPercent, type ImportConversionSettings } from '@/lib/csv-import';
+import { downloadTextFile } from '@/lib/download';
+import { CSV_OUTPUT_PROFILE_LABELS, CSV_OUTPUT_PROFILES, DEFAULT_CSV_OUTPUT_PROFILE, type CsvOutputProfile, type CsvOutputProfileId } from '@/lib/csv-output';
+import type { ProductTranslation } from '@/lib/product-translations';
+import type { ProductCategory } from '@/lib/category-collections';
+import { DEFAULT_SOURCE_WEIGHT_UNIT, WEIGHT_UNIT_LABELS, WEIGHT_UNITS, type WeightUnit } from '@/lib/weight';
+import { DEFAULT_PRODUCT_HANDLE_SOURCE, generateUrlRedirectsCsv, type ProductHandleSource, type UrlRedirect } from '@/lib/url-redirects';
+import { describeEncoding, ENCODING_LABELS, type SourceEncoding } from '@/lib/encoding';
+import { restorePostalCodeLeadingZeros } from '@/lib/postal-codes';
+import type { ColumnMappingPreview } from '@/lib/column-mapping';
+import { findMatchingProfile, type MappingProfileSettings } from '@/lib/mapping-profiles';
+import type { MappingProfile } from '@/schemas/mapping-profile';
 
 import { Button } from '@/components/ui/button';
 import { CustomerEntryForm } from '@/components/customer-entry-form';
 import { ProductEntryForm } from '@/components/product-entry-form';
 import { PaginationControls } from '@/components/pagination-controls';
+import { ColumnMappingDialog } from '@/components/column-mapping-dialog';
+import { MappingProfileActions } from '@/components/mapping-profile-actions';
+import { InventorySourcesPanel } from '@/components/inventory-sources-panel';
+import { ProductTranslationsPanel } from '@/components/product-translations-panel';
+import { PriceListsPanel } from '@/components/price-lists-panel';
+import { CategoryCollectionsPanel } from '@/components/category-collections-panel';
 import { useToast } from '@/hooks/use-toast';
-import { Upload, Download, PlusCircle, RefreshCw, SearchCheck, Users, ShoppingBag, AlignLeft, Image as ImageIcon, MailPlus, MailMinus, AlertTriangle } from 'lucide-react';
+import { useCsvImport } from '@/hooks/use-csv-import';
+import { useMappingProfiles } from '@/hooks/use-mapping-profiles';
+import { Upload, Download, PlusCircle, RefreshCw, SearchCheck, Users, ShoppingBag, AlignLeft, Image as ImageIcon, MailPlus, MailMinus, AlertTriangle, XCircle, MapPin } from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
   Select,
   SelectContent,
@@ -27,7 +68,9 @@ import {
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Progress } from "@/components/ui/progress";
 
 
 const PAGE_OPTIONS = [5, 10, 20, 50, 100];
@@ -36,9 +79,21 @@ type DisplayMode = 'all' | 'errors' | 'test';
 export default function CsvConverterPage() {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState<'customer' | 'product'>('customer');
+  const [sourceEncoding, setSourceEncoding] = useState<'auto' | SourceEncoding>('auto');
+  const [columnMappingPreview, setColumnMappingPreview] = useState<ColumnMappingPreview | null>(null);
+  const [matchedProfile, setMatchedProfile] = useState<MappingProfile | undefined>(undefined);
+  const columnMappingResolverRef = useRef<((settings: ImportConversionSettings | null) => void) | null>(null);
+  const mappingProfiles = useMappingProfiles();
+  const [customerTagPrefixes, setCustomerTagPrefixes] = useState<CustomerTagPrefixes>(DEFAULT_CUSTOMER_TAG_PREFIXES);
+  const [phoneFormatting, setPhoneFormatting] = useState<PhoneFormattingRules>(DEFAULT_PHONE_FORMATTING_RULES);
+  const [csvOutputProfileId, setCsvOutputProfileId] = useState<CsvOutputProfileId>('shopify');
+  const [customCsvOutputProfile, setCustomCsvOutputProfile] = useState<CsvOutputProfile>(DEFAULT_CSV_OUTPUT_PROFILE);
+  const csvOutputProfile = csvOutputProfileId === 'custom' ? customCsvOutputProfile : CSV_OUTPUT_PROFILES[csvOutputProfileId];
 
   // Customer specific state
   const customerFileInputRef = useRef<HTMLInputElement>(null);
+  const customerAddressesInputRef = useRef<HTMLInputElement>(null);
+  const [customerAddressesFile, setCustomerAddressesFile] = useState<File | null>(null);
   const [customerCurrentPage, setCustomerCurrentPage] = useState(1);
   const [customerItemsPerPage, setCustomerItemsPerPage] = useState<number>(PAGE_OPTIONS[0]);
   const [customerShowAll, setCustomerShowAll] = useState<boolean>(false);
@@ -46,6 +101,7 @@ export default function CsvConverterPage() {
   const [customerDisplayMode, setCustomerDisplayMode] = useState<DisplayMode>('all');
   const [customerCurrentErrorIndices, setCustomerCurrentErrorIndices] = useState<number[]>([]);
   const [customerCurrentTestFilterIndices, setCustomerCurrentTestFilterIndices] = useState<number[]>([]);
+  const customerImport = useCsvImport();
 
 
   // Product specific state
@@ -57,16 +113,28 @@ export default function CsvConverterPage() {
   const [productDisplayMode, setProductDisplayMode] = useState<DisplayMode>('all');
   const [productCurrentErrorIndices, setProductCurrentErrorIndices] = useState<number[]>([]);
   const [productCurrentTestFilterIndices, setProductCurrentTestFilterIndices] = useState<number[]>([]);
+  const productImport = useCsvImport();
   const [magentoBaseImageUrl, setMagentoBaseImageUrl] = useState<string>('');
   const magentoBaseImageUrlRef = useRef<string>(magentoBaseImageUrl);
+  const [productTypeStrategies, setProductTypeStrategies] = useState<ProductTypeStrategies>(DEFAULT_PRODUCT_TYPE_STRATEGIES);
+  const [skippedProducts, setSkippedProducts] = useState<SkippedProduct[]>([]);
+  const [bundleComponents, setBundleComponents] = useState<BundleComponentsEntry[]>([]);
+  const [defaultStoreView, setDefaultStoreView] = useState('');
+  const [productTranslations, setProductTranslations] = useState<ProductTranslation[]>([]);
+  const [productCategories, setProductCategories] = useState<ProductCategory[]>([]);
+  const [handleSource, setHandleSource] = useState<ProductHandleSource>(DEFAULT_PRODUCT_HANDLE_SOURCE);
+  const [urlRedirects, setUrlRedirects] = useState<UrlRedirect[]>([]);
+  const [customerGroups, setCustomerGroups] = useState<string[]>([]);
+  const [sourceWeightUnit, setSourceWeightUnit] = useState<WeightUnit>(DEFAULT_SOURCE_WEIGHT_UNIT);
 
   useEffect(() => {
     magentoBaseImageUrlRef.current = magentoBaseImageUrl;
   }, [magentoBaseImageUrl]);
 
 
+  const customerResolver = useMemo(() => zodResolver(createShopifyCustomersSchema(phoneFormatting)), [phoneFormatting]);
   const customerFormMethods = useForm<ShopifyCustomersFormData>({
-    resolver: zodResolver(shopifyCustomersSchema),
+    resolver: customerResolver,
     defaultValues: { customers: [] },
     mode: 'onChange',
   });
@@ -93,6 +161,11 @@ export default function CsvConverterPage() {
     name: 'customers',
   });
 
+  // Phone numbers are validated with the current formatting rules; re-check when they change
+  useEffect(() => {
+    if (getCustomerValues('customers').length > 0) triggerCustomerForm();
+  }, [phoneFormatting, getCustomerValues, triggerCustomerForm]);
+
    const {
     control: productControl,
     handleSubmit: handleProductSubmit,
@@ -233,13 +306,41 @@ export default function CsvConverterPage() {
   ]);
 
 
+  // --- Column Mapping ---
+  // A saved profile whose header signature matches the uploaded file is applied automatically
+  const requestColumnMapping = (preview: ColumnMappingPreview) =>
+    new Promise<ImportConversionSettings | null>(resolve => {
+      columnMappingResolverRef.current = resolve;
+      setMatchedProfile(findMatchingProfile(mappingProfiles.profiles, preview.entity, preview.columns.map(column => column.header)));
+      setColumnMappingPreview(preview);
+    });
+
+  const settleColumnMapping = (settings: ImportConversionSettings | null) => {
+    columnMappingResolverRef.current?.(settings);
+    columnMappingResolverRef.current = null;
+    setColumnMappingPreview(null);
+  };
+
+  // The confirmed settings stay in effect for the export and the next import
+  const confirmColumnMapping = (settings: MappingProfileSettings) => {
+    if (columnMappingPreview?.entity === 'product') {
+      setMagentoBaseImageUrl(settings.magentoBaseImageUrl);
+      settleColumnMapping({ columnMapping: settings.columnMapping, magentoBaseImageUrl: settings.magentoBaseImageUrl, attributeMapping: settings.attributeMapping });
+    } else {
+      setCustomerTagPrefixes(settings.tagPrefixes);
+      setPhoneFormatting(settings.phoneFormatting);
+      settleColumnMapping({ columnMapping: settings.columnMapping, tagPrefixes: settings.tagPrefixes, phoneFormatting: settings.phoneFormatting });
+    }
+  };
+
+
   // --- Customer Actions ---
   const addNewCustomer = () => {
     setCustomerDisplayMode('all');
     appendCustomer({
       id: crypto.randomUUID(), firstName: '', lastName: '', email: '', company: '', address1: '',
       address2: '', city: '', province: '', provinceCode: '', country: '', countryCode: '',
-      zip: '', phone: '', acceptsMarketing: false, acceptsSmsMarketing: false, tags: '', note: '', taxExempt: false,
+      zip: '', phone: '', addressPhone: '', addresses: [], acceptsMarketing: false, acceptsSmsMarketing: false, tags: '', note: '', taxExempt: false,
     });
     const newTotalAllItems = customerFields.length + 1;
     const itemsPerPageForAll = customerShowAll ? (newTotalAllItems > 0 ? newTotalAllItems : 1) : customerItemsPerPage;
@@ -254,14 +355,7 @@ export default function CsvConverterPage() {
       return;
     }
     try {
-      const csvContent = generateShopifyCustomerCsv(data.customers);
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const link = document.createElement('a');
-      link.setAttribute('href', URL.createObjectURL(blob));
-      link.setAttribute('download', 'shopify_customers_export.csv');
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      downloadTextFile(generateShopifyCustomerCsv(data.customers, { phoneFormatting, outputProfile: csvOutputProfile }), 'shopify_customers_export.csv');
       toast({ title: 'Shopify Customer CSV Generated', description: 'Download started.' });
     } catch (error) {
       console.error("Error generating customer CSV:", error);
@@ -277,69 +371,77 @@ export default function CsvConverterPage() {
       setCustomerCurrentPage(1);
       setCustomerCurrentTestFilterIndices([]);
 
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        try {
-          const csvString = e.target?.result as string;
-          const result: ParseCustomerResult = parseMagentoCustomerCsv(csvString);
-
-          let parsedCustomers: Partial<ShopifyCustomerFormData>[] = [];
-          if (result.type === 'customers_found') parsedCustomers = result.data;
-
-          const newCustomersToSet = parsedCustomers.map(c => ({
-            id: c.id || crypto.randomUUID(),
-            firstName: c.firstName || '', lastName: c.lastName || '',
-            email: c.email || '', company: c.company || '', address1: c.address1 || '',
-            address2: c.address2 || '', city: c.city || '', province: c.province || '',
-            provinceCode: c.provinceCode || '', country: c.country || '', countryCode: c.countryCode || '',
-            zip: c.zip || '', phone: c.phone || '', acceptsMarketing: c.acceptsMarketing ?? false,
-            acceptsSmsMarketing: c.acceptsSmsMarketing ?? false,
-            tags: c.tags || '', note: c.note || '', taxExempt: c.taxExempt ?? false,
-          } as ShopifyCustomerFormData));
-
-          resetCustomerForm({ customers: newCustomersToSet });
-          await new Promise(resolve => setTimeout(resolve, 0)); 
-          const isValid = await triggerCustomerForm();
-
-          let tempErrorIndices: number[] = [];
-          if (!isValid && customerFormMethods.formState.errors.customers) {
-            const customerErrors = customerFormMethods.formState.errors.customers as any[]; 
-            newCustomersToSet.forEach((_, i) => {
-              if (customerErrors[i] && Object.keys(customerErrors[i]!).length > 0) {
-                tempErrorIndices.push(i);
-              }
-            });
-          }
-          
-          if (tempErrorIndices.length > 0) {
-            setCustomerDisplayMode('errors');
-            setCustomerCurrentPage(1);
-            toast({ title: "Validation Errors Found", description: `Displaying ${tempErrorIndices.length} customer(s) with errors. Please review.`, variant: "destructive" });
-          } else {
-            setCustomerDisplayMode('all');
-            setCustomerCurrentPage(1);
-            if (result.type === 'customers_found' && newCustomersToSet.length > 0 && isValid) {
-              toast({ title: 'Customer CSV Imported', description: `${newCustomersToSet.length} customer(s) loaded and valid.` });
-            } else if (result.type === 'customers_found' && newCustomersToSet.length > 0 && !isValid) {
-              toast({ title: 'Imported with Validation Issues', description: 'Check form for errors. Errors have been highlighted.', variant: 'destructive' });
-            } else if (result.type === 'no_customers_extracted') {
-              toast({ title: 'Import Note', description: result.message });
-            } else if (result.type === 'parse_error') {
-              toast({ title: 'Import Failed', description: result.message, variant: 'destructive' });
-            } else if (newCustomersToSet.length === 0 && result.type === 'customers_found') {
-                 toast({ title: 'Import Note', description: 'CSV parsed, but no customer data extracted.' });
+      try {
+        const outcome = await customerImport.importCustomers(file, {
+          encoding: sourceEncoding === 'auto' ? undefined : sourceEncoding,
+          resolveColumnMapping: requestColumnMapping,
+          addressesFile: customerAddressesFile ?? undefined,
+        });
+        if (!outcome) {
+          toast({ title: 'Import Cancelled', description: 'The customer CSV import was cancelled. Existing entries were kept.' });
+          return;
+        }
+        const result: ParseCustomerResult = outcome.result;
+        let encodingSummary = `Encoding: ${describeEncoding(outcome.encoding)}.`;
+        if (result.type === 'customers_found' && customerAddressesFile) {
+          encodingSummary = `Addresses merged: ${result.addressesMerged} (${result.addressesUnmatched} not matched to a customer).\n${encodingSummary}`;
+        }
+
+        let parsedCustomers: Partial<ShopifyCustomerFormData>[] = [];
+        if (result.type === 'customers_found') parsedCustomers = result.data;
+
+        const newCustomersToSet = parsedCustomers.map(c => ({
+          id: c.id || crypto.randomUUID(),
+          firstName: c.firstName || '', lastName: c.lastName || '',
+          email: c.email || '', company: c.company || '', address1: c.address1 || '',
+          address2: c.address2 || '', city: c.city || '', province: c.province || '',
+          provinceCode: c.provinceCode || '', country: c.country || '', countryCode: c.countryCode || '',
+          zip: c.zip || '', phone: c.phone || '', addressPhone: c.addressPhone || '', addresses: c.addresses || [], acceptsMarketing: c.acceptsMarketing ?? false,
+          acceptsSmsMarketing: c.acceptsSmsMarketing ?? false,
+          tags: c.tags || '', note: c.note || '', taxExempt: c.taxExempt ?? false,
+        } as ShopifyCustomerFormData));
+
+        resetCustomerForm({ customers: newCustomersToSet });
+        await new Promise(resolve => setTimeout(resolve, 0)); 
+        const isValid = await triggerCustomerForm();
+
+        let tempErrorIndices: number[] = [];
+        if (!isValid && customerFormMethods.formState.errors.customers) {
+          const customerErrors = customerFormMethods.formState.errors.customers as any[]; 
+          newCustomersToSet.forEach((_, i) => {
+            if (customerErrors[i] && Object.keys(customerErrors[i]!).length > 0) {
+              tempErrorIndices.push(i);
             }
-          }
-        } catch (errorCatch) {
-          console.error("Error processing customer CSV:", errorCatch);
+          });
+        }
+        
+        if (tempErrorIndices.length > 0) {
+          setCustomerDisplayMode('errors');
+          setCustomerCurrentPage(1);
+          toast({ title: "Validation Errors Found", description: `Displaying ${tempErrorIndices.length} customer(s) with errors. Please review.`, variant: "destructive" });
+        } else {
           setCustomerDisplayMode('all');
-          toast({ title: 'Import Failed', description: 'Could not process customer CSV.', variant: 'destructive' });
-        } finally {
-          setCustomerIsLoading(false);
-          if (customerFileInputRef.current) customerFileInputRef.current.value = '';
+          setCustomerCurrentPage(1);
+          if (result.type === 'customers_found' && newCustomersToSet.length > 0 && isValid) {
+            toast({ title: 'Customer CSV Imported', description: `${newCustomersToSet.length} customer(s) loaded and valid.\n${encodingSummary}` });
+          } else if (result.type === 'customers_found' && newCustomersToSet.length > 0 && !isValid) {
+            toast({ title: 'Imported with Validation Issues', description: `Check form for errors. Errors have been highlighted.\n${encodingSummary}`, variant: 'destructive' });
+          } else if (result.type === 'no_customers_extracted') {
+            toast({ title: 'Import Note', description: result.message });
+          } else if (result.type === 'parse_error') {
+            toast({ title: 'Import Failed', description: result.message, variant: 'destructive' });
+          } else if (newCustomersToSet.length === 0 && result.type === 'customers_found') {
+               toast({ title: 'Import Note', description: 'CSV parsed, but no customer data extracted.' });
+          }
         }
-      };
-      reader.readAsText(file);
+      } catch (errorCatch) {
+        console.error("Error processing customer CSV:", errorCatch);
+        setCustomerDisplayMode('all');
+        toast({ title: 'Import Failed', description: 'Could not process customer CSV.', variant: 'destructive' });
+      } finally {
+        setCustomerIsLoading(false);
+        if (customerFileInputRef.current) customerFileInputRef.current.value = '';
+      }
     }
   };
 
@@ -373,6 +475,31 @@ export default function CsvConverterPage() {
     }
   };
 
+  // Spreadsheets store US and German postal codes as numbers, which drops their leading zeros
+  const handleRestoreCustomerZipLeadingZeros = () => {
+    let restoredCount = 0;
+    getCustomerValues().customers.forEach((customer, index) => {
+      const zip = restorePostalCodeLeadingZeros(customer.zip, customer.countryCode);
+      if (zip) {
+        setCustomerValue(`customers.${index}.zip`, zip, { shouldDirty: true });
+        restoredCount++;
+      }
+      customer.addresses.forEach((address, addressIndex) => {
+        const addressZip = restorePostalCodeLeadingZeros(address.zip, address.countryCode);
+        if (addressZip) {
+          setCustomerValue(`customers.${index}.addresses.${addressIndex}.zip`, addressZip, { shouldDirty: true });
+          restoredCount++;
+        }
+      });
+    });
+    if (restoredCount > 0) {
+      triggerCustomerForm();
+      toast({ title: "Leading Zeros Restored", description: `Restored the leading zeros of ${restoredCount} postal code(s).` });
+    } else {
+      toast({ title: "No Postal Codes Missing Leading Zeros" });
+    }
+  };
+
 
   // --- Product Actions ---
     const addNewProduct = () => {
@@ -380,9 +507,10 @@ export default function CsvConverterPage() {
     appendProduct({
       id: crypto.randomUUID(), handle: '', title: '', bodyHtml: '', vendor: '', productType: '',
       tags: '', published: true, option1Name: 'Title', option1Value: 'Default Title', option2Name: '', option2Value: '',
-      option3Name: '', option3Value: '', variantSku: '', variantPrice: 0, variantInventoryQty: 0,
+      option3Name: '', option3Value: '', variantSku: '', variantBarcode: '', variantPrice: 0, tierPrices: [], variantInventoryQty: 0,
+      variantInventoryTracked: true, variantInventoryPolicy: 'deny',
       variantWeight: 0, variantWeightUnit: 'g', variantRequiresShipping: true, variantTaxable: true,
-      imageSrc: '', imagePosition:1, imageAltText: '', seoTitle: '', seoDescription: '', magentoProductType: 'simple', isVariantRow: false,
+      imageSrc: '', imagePosition:1, imageAltText: '', additionalImages: [], metafields: [], seoTitle: '', seoDescription: '', magentoProductType: 'simple', isVariantRow: false, bodyHtmlChanges: [], conversionWarnings: [],
     });
     const newTotalAllItems = productFields.length + 1;
     const itemsPerPageForAll = productShowAll ? (newTotalAllItems > 0 ? newTotalAllItems : 1) : productItemsPerPage;
@@ -397,14 +525,7 @@ export default function CsvConverterPage() {
       return;
     }
     try {
-      const csvContent = generateShopifyProductCsv(data.products);
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const link = document.createElement('a');
-      link.setAttribute('href', URL.createObjectURL(blob));
-      link.setAttribute('download', 'shopify_products_export.csv');
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      downloadTextFile(generateShopifyProductCsv(data.products, { outputProfile: csvOutputProfile }), 'shopify_products_export.csv');
       toast({ title: 'Shopify Product CSV Generated', description: 'Download started.' });
     } catch (error) {
       console.error("Error generating product CSV:", error);
@@ -420,99 +541,140 @@ export default function CsvConverterPage() {
       setProductCurrentPage(1);
       setProductCurrentTestFilterIndices([]);
 
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        try {
-          const csvString = e.target?.result as string;
-          const currentBaseUrl = magentoBaseImageUrlRef.current; 
-          const result: ParseProductResult = parseMagentoProductCsv(csvString, currentBaseUrl); 
-          console.log("Full product parsing result:", result); 
-
-          let parsedProducts: Partial<ShopifyProductFormData>[] = [];
-          if (result.type === 'products_found') parsedProducts = result.data;
-          
-          const newProductsToSet = parsedProducts.map(p => ({
-            id: p.id || crypto.randomUUID(),
-            handle: p.handle || '',
-            title: p.title || '',
-            bodyHtml: p.bodyHtml || '',
-            vendor: p.vendor || '',
-            productType: p.productType || '',
-            tags: p.tags || '',
-            published: p.published ?? true,
-            option1Name: p.option1Name || 'Title',
-            option1Value: p.option1Value || 'Default Title',
-            option2Name: p.option2Name || '',
-            option2Value: p.option2Value || '',
-            option3Name: p.option3Name || '',
-            option3Value: p.option3Value || '',
-            variantSku: p.variantSku || '',
-            variantPrice: p.variantPrice === undefined ? 0 : p.variantPrice,
-            variantCompareAtPrice: p.variantCompareAtPrice,
-            variantInventoryQty: p.variantInventoryQty === undefined ? 0 : p.variantInventoryQty,
-            variantRequiresShipping: p.variantRequiresShipping ?? true,
-            variantTaxable: p.variantTaxable ?? true,
-            variantWeight: p.variantWeight === undefined ? 0 : p.variantWeight,
-            variantWeightUnit: p.variantWeightUnit || 'g',
-            imageSrc: p.imageSrc || '',
-            imagePosition: p.imagePosition === undefined ? 1 : p.imagePosition,
-            imageAltText: p.imageAltText || '',
-            seoTitle: p.seoTitle || '',
-            seoDescription: p.seoDescription || '',
-            magentoProductType: p.magentoProductType || 'simple',
-            isVariantRow: p.isVariantRow || false,
-          } as ShopifyProductFormData));
-
-          resetProductForm({ products: newProductsToSet });
-          await new Promise(resolve => setTimeout(resolve, 0)); 
-          const isValid = await triggerProductForm();
-
-          let tempErrorIndices: number[] = [];
-           if (!isValid && productFormMethods.formState.errors.products) {
-            const productErrors = productFormMethods.formState.errors.products as any[]; 
-            newProductsToSet.forEach((_, i) => {
-              if (productErrors[i] && Object.keys(productErrors[i]!).length > 0) tempErrorIndices.push(i);
-            });
-          }
-          
-          if (tempErrorIndices.length > 0) {
-            setProductDisplayMode('errors');
-            setProductCurrentPage(1);
-            toast({ title: "Validation Errors Found", description: `Displaying ${tempErrorIndices.length} product(s) with errors.`, variant: "destructive" });
-          } else {
-            setProductDisplayMode('all');
-            setProductCurrentPage(1);
-             if (result.type === 'products_found' && newProductsToSet.length > 0 && isValid) {
-                let summary = `Magento: ${result.processedNonEmptyLines} lines processed. Shopify: ${result.shopifyEntryCount} entries generated.`;
-                if (result.linesSkippedColumnCountMismatch > 0) {
-                    summary += `\nSkipped due to column mismatch: ${result.linesSkippedColumnCountMismatch} lines.`;
-                }
-                if (result.configurableProductsCollected > 0) {
-                    summary += `\nConfigurable products found: ${result.configurableProductsCollected} (processed ${result.variantsProcessedForConfigurables} variants, ${result.variantSkusNotFoundInSimples} variants not found).`;
-                }
-                summary += `\nStandalone Simples processed: ${result.standaloneSimplesProcessed}.`;
-                summary += `\nSkipped (no SKU): ${result.linesSkippedNoSku}. Skipped (other type): ${result.otherProductTypesSkipped}.`;
-                toast({ title: 'Product CSV Imported', description: summary, duration: 15000 });
-            } else if (result.type === 'products_found' && newProductsToSet.length > 0 && !isValid) {
-              toast({ title: 'Imported with Validation Issues', description: `Magento CSV processed (${result.processedNonEmptyLines} lines). Check form for errors.`, variant: 'destructive' });
-            } else if (result.type === 'no_products_extracted') {
-              toast({ title: 'Import Note', description: `${result.message} (Magento: ${result.processedNonEmptyLines} lines processed).`, duration: 9000 });
-            } else if (result.type === 'parse_error') {
-              toast({ title: 'Import Failed', description: `${result.message} (Processed ${result.processedNonEmptyLines} lines before error).`, variant: 'destructive' });
-            } else if (newProductsToSet.length === 0 && result.type === 'products_found'){
-                 toast({ title: 'Import Note', description: `CSV parsed (${result.processedNonEmptyLines} lines), but no product data extracted.`, variant: 'default'});
-            }
-          }
-        } catch (errorCatch) {
-          console.error("Error processing product CSV:", errorCatch);
+      try {
+        const currentBaseUrl = magentoBaseImageUrlRef.current; 
+        const outcome = await productImport.importProducts(file, currentBaseUrl, {
+          encoding: sourceEncoding === 'auto' ? undefined : sourceEncoding,
+          resolveColumnMapping: requestColumnMapping,
+          strategies: productTypeStrategies,
+          defaultStoreView,
+          handleSource,
+          weightUnit: sourceWeightUnit,
+        });
+        if (!outcome) {
+          toast({ title: 'Import Cancelled', description: 'The product CSV import was cancelled. Existing entries were kept.' });
+          return;
+        }
+        const result: ParseProductResult = outcome.result;
+        setSkippedProducts(result.type === 'parse_error' ? [] : result.skippedOtherTypeSkus);
+        setBundleComponents(result.type === 'products_found' ? result.bundleComponents : []);
+        setProductTranslations(result.type === 'products_found' ? result.translations : []);
+        setProductCategories(result.type === 'products_found' ? result.categories : []);
+        setUrlRedirects(result.type === 'products_found' ? result.redirects : []);
+        setCustomerGroups(result.type === 'products_found' ? result.customerGroups : []);
+        console.log("Full product parsing result:", result); 
+
+        let parsedProducts: Partial<ShopifyProductFormData>[] = [];
+        if (result.type === 'products_found') parsedProducts = result.data;
+        
+        const newProductsToSet = parsedProducts.map(p => ({
+          id: p.id || crypto.randomUUID(),
+          handle: p.handle || '',
+          title: p.title || '',
+          bodyHtml: p.bodyHtml || '',
+          bodyHtmlChanges: p.bodyHtmlChanges || [],
+          vendor: p.vendor || '',
+          productType: p.productType || '',
+          tags: p.tags || '',
+          published: p.published ?? true,
+          option1Name: p.option1Name || 'Title',
+          option1Value: p.option1Value || 'Default Title',
+          option2Name: p.option2Name || '',
+          option2Value: p.option2Value || '',
+          option3Name: p.option3Name || '',
+          option3Value: p.option3Value || '',
+          variantSku: p.variantSku || '',
+          variantBarcode: p.variantBarcode || '',
+          variantPrice: p.variantPrice === undefined ? 0 : p.variantPrice,
+          variantCompareAtPrice: p.variantCompareAtPrice,
+          variantCost: p.variantCost,
+          tierPrices: p.tierPrices || [],
+          variantInventoryQty: p.variantInventoryQty === undefined ? 0 : p.variantInventoryQty,
+          variantInventoryTracked: p.variantInventoryTracked ?? true,
+          variantInventoryPolicy: p.variantInventoryPolicy || 'deny',
+          variantRequiresShipping: p.variantRequiresShipping ?? true,
+          variantTaxable: p.variantTaxable ?? true,
+          variantWeight: p.variantWeight === undefined ? 0 : p.variantWeight,
+          variantWeightUnit: p.variantWeightUnit || 'g',
+          imageSrc: p.imageSrc || '',
+          imagePosition: p.imagePosition === undefined ? 1 : p.imagePosition,
+          imageAltText: p.imageAltText || '',
+          additionalImages: p.additionalImages || [],
+          metafields: p.metafields || [],
+          seoTitle: p.seoTitle || '',
+          seoDescription: p.seoDescription || '',
+          magentoProductType: p.magentoProductType || 'simple',
+          isVariantRow: p.isVariantRow || false,
+          magentoIsInStock: p.magentoIsInStock,
+          conversionWarnings: p.conversionWarnings || [],
+        } as ShopifyProductFormData));
+
+        resetProductForm({ products: newProductsToSet });
+        await new Promise(resolve => setTimeout(resolve, 0)); 
+        const isValid = await triggerProductForm();
+
+        let tempErrorIndices: number[] = [];
+         if (!isValid && productFormMethods.formState.errors.products) {
+          const productErrors = productFormMethods.formState.errors.products as any[]; 
+          newProductsToSet.forEach((_, i) => {
+            if (productErrors[i] && Object.keys(productErrors[i]!).length > 0) tempErrorIndices.push(i);
+          });
+        }
+        
+        if (tempErrorIndices.length > 0) {
+          setProductDisplayMode('errors');
+          setProductCurrentPage(1);
+          toast({ title: "Validation Errors Found", description: `Displaying ${tempErrorIndices.length} product(s) with errors.`, variant: "destructive" });
+        } else {
           setProductDisplayMode('all');
-          toast({ title: 'Import Failed', description: 'Could not process product CSV.', variant: 'destructive' });
-        } finally {
-          setProductIsLoading(false);
-          if (productFileInputRef.current) productFileInputRef.current.value = '';
+          setProductCurrentPage(1);
+           if (result.type === 'products_found' && newProductsToSet.length > 0 && isValid) {
+              let summary = `Magento: ${result.processedNonEmptyLines} lines processed. Shopify: ${result.shopifyEntryCount} entries generated.`;
+              if (result.linesSkippedColumnCountMismatch > 0) {
+                  summary += `\nSkipped due to column mismatch: ${result.linesSkippedColumnCountMismatch} lines.`;
+              }
+              if (result.configurableProductsCollected > 0) {
+                  summary += `\nConfigurable products found: ${result.configurableProductsCollected} (processed ${result.variantsProcessedForConfigurables} variants, ${result.variantSkusNotFoundInSimples} variants not found).`;
+              }
+              if (result.groupedProductsConverted > 0 || result.bundleProductsConverted > 0) {
+                  summary += `\nGrouped products converted: ${result.groupedProductsConverted}. Bundles converted: ${result.bundleProductsConverted}.`;
+              }
+              summary += `\nStandalone Simples processed: ${result.standaloneSimplesProcessed}.`;
+              const productsWithCleanedHtml = newProductsToSet.filter(p => p.bodyHtmlChanges.length > 0).length;
+              if (productsWithCleanedHtml > 0) {
+                  summary += `\nDescriptions cleaned up: ${productsWithCleanedHtml} (changes listed under Body (HTML)).`;
+              }
+              const productsWithWarnings = newProductsToSet.filter(p => p.conversionWarnings.length > 0).length;
+              if (productsWithWarnings > 0) {
+                  summary += `\nProducts with conversion warnings: ${productsWithWarnings} (listed on their cards).`;
+              }
+              if (result.storeViews.length > 0) {
+                  summary += `\nStore views: ${result.storeViews.join(', ')} (main CSV uses ${defaultStoreView.trim() || 'the default values'}, ${result.translations.length} translations).`;
+              }
+              if (result.configurablesWithTooManyOptions.length > 0) {
+                  summary += `\nConfigurables with more than ${MAX_SHOPIFY_OPTIONS} options (children imported as separate products): ${result.configurablesWithTooManyOptions.map(c => `${c.sku} (${c.attributes.join(', ')})`).join('; ')}.`;
+              }
+              summary += `\nSkipped (no SKU): ${result.linesSkippedNoSku}. Skipped (other type): ${result.otherProductTypesSkipped}.`;
+              summary += `\nEncoding: ${describeEncoding(outcome.encoding)}.`;
+              toast({ title: 'Product CSV Imported', description: summary, duration: 15000 });
+          } else if (result.type === 'products_found' && newProductsToSet.length > 0 && !isValid) {
+            toast({ title: 'Imported with Validation Issues', description: `Magento CSV processed (${result.processedNonEmptyLines} lines). Check form for errors.\nEncoding: ${describeEncoding(outcome.encoding)}.`, variant: 'destructive' });
+          } else if (result.type === 'no_products_extracted') {
+            toast({ title: 'Import Note', description: `${result.message} (Magento: ${result.processedNonEmptyLines} lines processed).`, duration: 9000 });
+          } else if (result.type === 'parse_error') {
+            toast({ title: 'Import Failed', description: `${result.message} (Processed ${result.processedNonEmptyLines} lines before error).`, variant: 'destructive' });
+          } else if (newProductsToSet.length === 0 && result.type === 'products_found'){
+               toast({ title: 'Import Note', description: `CSV parsed (${result.processedNonEmptyLines} lines), but no product data extracted.`, variant: 'default'});
+          }
         }
-      };
-      reader.readAsText(file);
+      } catch (errorCatch) {
+        console.error("Error processing product CSV:", errorCatch);
+        setProductDisplayMode('all');
+        toast({ title: 'Import Failed', description: 'Could not process product CSV.', variant: 'destructive' });
+      } finally {
+        setProductIsLoading(false);
+        if (productFileInputRef.current) productFileInputRef.current.value = '';
+      }
     }
   };
 
@@ -529,7 +691,7 @@ export default function CsvConverterPage() {
     allProducts.forEach((product, index) => {
       const searchableFields = [
         product.handle, product.title, product.bodyHtml, product.vendor, product.productType,
-        product.variantSku, product.option1Value, product.option2Value, product.option3Value,
+        product.variantSku, product.variantBarcode, product.option1Value, product.option2Value, product.option3Value,
         product.seoTitle, product.seoDescription
       ];
       if (searchableFields.some(field => typeof field === 'string' && field && testRegex.test(field))) {
@@ -568,6 +730,7 @@ export default function CsvConverterPage() {
   const currentErrorIndices = isCustomerMode ? customerCurrentErrorIndices : productCurrentErrorIndices;
   const currentTestFilterIndices = isCustomerMode ? customerCurrentTestFilterIndices : productCurrentTestFilterIndices;
   const handleFindTestEntries = isCustomerMode ? handleFindCustomerTestEntries : handleFindProductTestEntries;
+  const csvImport = isCustomerMode ? customerImport : productImport;
   
   const entityName = isCustomerMode ? "Customer" : "Product";
   const entityNamePlural = isCustomerMode ? "Customers" : "Products";
@@ -631,6 +794,115 @@ export default function CsvConverterPage() {
                     <p className="text-xs text-muted-foreground flex items-center">
                        <AlertTriangle className="h-3 w-3 mr-1 text-amber-500" /> Fill this field before importing a product CSV.
                     </p>
+                    <div className="flex flex-wrap items-center gap-4 pt-2">
+                      <div className="flex items-center space-x-2">
+                        <Label htmlFor="grouped-strategy-select" className="text-sm font-medium">Grouped products:</Label>
+                        <Select
+                          value={productTypeStrategies.groupedProducts}
+                          onValueChange={(value) => setProductTypeStrategies(current => ({ ...current, groupedProducts: value as GroupedProductStrategy }))}
+                          disabled={isLoading}
+                        >
+                          <SelectTrigger id="grouped-strategy-select" className="w-[260px] h-10">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="variants">One product, children as variants</SelectItem>
+                            <SelectItem value="skip">Skip</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Label htmlFor="bundle-strategy-select" className="text-sm font-medium">Bundle products:</Label>
+                        <Select
+                          value={productTypeStrategies.bundleProducts}
+                          onValueChange={(value) => setProductTypeStrategies(current => ({ ...current, bundleProducts: value as BundleProductStrategy }))}
+                          disabled={isLoading}
+                        >
+                          <SelectTrigger id="bundle-strategy-select" className="w-[300px] h-10">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="flatten">Single SKU with composed price</SelectItem>
+                            <SelectItem value="components_metafield">Single SKU + bundle components CSV</SelectItem>
+                            <SelectItem value="skip">Skip</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Label htmlFor="default-store-view" className="text-sm font-medium">Main store view:</Label>
+                        <Input
+                          id="default-store-view"
+                          placeholder="Default values"
+                          value={defaultStoreView}
+                          onChange={(e) => setDefaultStoreView(e.target.value)}
+                          className="w-[160px] h-10"
+                          title="store_view_code whose values go into the main CSV; other store views are exported as translations"
+                          disabled={isLoading}
+                        />
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Label htmlFor="handle-source-select" className="text-sm font-medium">Handles:</Label>
+                        <Select
+                          value={handleSource}
+                          onValueChange={(value) => setHandleSource(value as ProductHandleSource)}
+                          disabled={isLoading}
+                        >
+                          <SelectTrigger id="handle-source-select" className="w-[220px] h-10">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="url_key">From URL key (SEO URLs)</SelectItem>
+                            <SelectItem value="sku">Keep the SKU</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Label htmlFor="weight-unit-select" className="text-sm font-medium">Magento weight unit:</Label>
+                        <Select
+                          value={sourceWeightUnit}
+                          onValueChange={(value) => setSourceWeightUnit(value as WeightUnit)}
+                          disabled={isLoading}
+                        >
+                          <SelectTrigger id="weight-unit-select" className="w-[180px] h-10" title="Unit of the weight column; weights are converted to grams and this unit is shown in Shopify">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {WEIGHT_UNITS.map(unit => (
+                              <SelectItem key={unit} value={unit}>{WEIGHT_UNIT_LABELS[unit]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  </div>
+                )}
+                {isCustomerMode && (
+                  <div className="flex flex-col space-y-1 w-full">
+                    <div className="flex items-center space-x-2">
+                      <Label className="text-sm font-medium flex items-center"><MapPin className="mr-2 h-4 w-4 text-muted-foreground"/>Customer Addresses CSV:</Label>
+                      <Button variant="outline" size="sm" onClick={() => customerAddressesInputRef.current?.click()} disabled={isLoading}>
+                        Choose file
+                      </Button>
+                      <span className="text-sm text-muted-foreground">{customerAddressesFile?.name || 'None'}</span>
+                      {customerAddressesFile && (
+                        <Button variant="ghost" size="icon" onClick={() => setCustomerAddressesFile(null)} disabled={isLoading} aria-label="Remove addresses file">
+                          <XCircle className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <input
+                        type="file"
+                        ref={customerAddressesInputRef}
+                        onChange={(e) => {
+                          setCustomerAddressesFile(e.target.files?.[0] ?? null);
+                          e.target.value = '';
+                        }}
+                        accept=".csv"
+                        className="hidden"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Optional: Magento&apos;s &quot;Customer Addresses&quot; export. Choose it before importing the customers; addresses are merged by email and website.
+                    </p>
                   </div>
                 )}
                 <Button 
@@ -641,6 +913,79 @@ export default function CsvConverterPage() {
                 >
                     <Upload className="mr-2 h-5 w-5" /> Import {entityName} CSV
                 </Button>
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="source-encoding-select" className="text-sm font-medium">File encoding:</Label>
+                  <Select
+                    value={sourceEncoding}
+                    onValueChange={(value) => setSourceEncoding(value as 'auto' | SourceEncoding)}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger id="source-encoding-select" className="w-[200px] h-10">
+                      <SelectValue placeholder="Encoding" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Auto-detect</SelectItem>
+                      {(Object.keys(ENCODING_LABELS) as SourceEncoding[]).map(encoding => (
+                        <SelectItem key={encoding} value={encoding}>{ENCODING_LABELS[encoding]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="csv-output-profile-select" className="text-sm font-medium">CSV output:</Label>
+                  <Select
+                    value={csvOutputProfileId}
+                    onValueChange={(value) => setCsvOutputProfileId(value as CsvOutputProfileId)}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger id="csv-output-profile-select" className="w-[180px] h-10" title="Shopify native for Shopify's importer; European Excel (semicolons, decimal commas, BOM) for editing in a spreadsheet first">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CSV_OUTPUT_PROFILE_LABELS) as CsvOutputProfileId[]).map(profileId => (
+                        <SelectItem key={profileId} value={profileId}>{CSV_OUTPUT_PROFILE_LABELS[profileId]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {csvOutputProfileId === 'custom' && (
+                  <div className="flex items-center space-x-2">
+                    <Select
+                      value={customCsvOutputProfile.delimiter}
+                      onValueChange={(value) => setCustomCsvOutputProfile(current => ({ ...current, delimiter: value as CsvOutputProfile['delimiter'] }))}
+                      disabled={isLoading}
+                    >
+                      <SelectTrigger className="w-[150px] h-10" aria-label="Delimiter">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value=",">Comma (,)</SelectItem>
+                        <SelectItem value=";">Semicolon (;)</SelectItem>
+                        <SelectItem value={'\t'}>Tab</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={customCsvOutputProfile.decimalSeparator}
+                      onValueChange={(value) => setCustomCsvOutputProfile(current => ({ ...current, decimalSeparator: value as CsvOutputProfile['decimalSeparator'] }))}
+                      disabled={isLoading}
+                    >
+                      <SelectTrigger className="w-[170px] h-10" aria-label="Decimal separator">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value=".">Decimal point (.)</SelectItem>
+                        <SelectItem value=",">Decimal comma (,)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Checkbox
+                      id="csv-output-bom"
+                      checked={customCsvOutputProfile.includeBom}
+                      onCheckedChange={(checked) => setCustomCsvOutputProfile(current => ({ ...current, includeBom: checked === true }))}
+                      disabled={isLoading}
+                    />
+                    <Label htmlFor="csv-output-bom" className="text-sm">UTF-8 BOM</Label>
+                  </div>
+                )}
                 <input
                     type="file"
                     ref={fileInputRef}
@@ -649,6 +994,11 @@ export default function CsvConverterPage() {
                     className="hidden"
                     disabled={isLoading || (!isCustomerMode && magentoBaseImageUrl.trim() === '')}
                 />
+                <MappingProfileActions
+                    profiles={mappingProfiles.profiles}
+                    onImport={mappingProfiles.importProfiles}
+                    disabled={isLoading}
+                />
                 <Button onClick={addNewEntry} variant="default" disabled={isLoading}>
                     <PlusCircle className="mr-2 h-5 w-5" /> Add New {entityName} Manually
                 </Button>
@@ -660,6 +1010,26 @@ export default function CsvConverterPage() {
                 >
                     <Download className="mr-2 h-5 w-5" /> Generate & Download Shopify {entityName} CSV
                 </Button>
+                {!isCustomerMode && bundleComponents.length > 0 && (
+                  <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => downloadTextFile(generateBundleComponentsCsv(bundleComponents), 'shopify_bundle_components.csv')}
+                      disabled={isLoading}
+                  >
+                      <Download className="mr-2 h-5 w-5" /> Download Bundle Components CSV ({bundleComponents.length})
+                  </Button>
+                )}
+                {!isCustomerMode && urlRedirects.length > 0 && (
+                  <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => downloadTextFile(generateUrlRedirectsCsv(urlRedirects), 'shopify_url_redirects.csv')}
+                      disabled={isLoading}
+                  >
+                      <Download className="mr-2 h-5 w-5" /> Download URL Redirects CSV ({urlRedirects.length})
+                  </Button>
+                )}
                
                  {(fields.length > 0 ) && !isLoading && (
                   <>
@@ -684,6 +1054,16 @@ export default function CsvConverterPage() {
                      <Button onClick={handleFindTestEntries} variant="outline" disabled={isLoading || fields.length === 0}>
                         <SearchCheck className="mr-2 h-5 w-5" /> Find 'Test' Entries
                     </Button>
+                    {isCustomerMode && (
+                      <Button
+                          onClick={handleRestoreCustomerZipLeadingZeros}
+                          variant="outline"
+                          disabled={isLoading}
+                          title="Puts back the leading zeros spreadsheets drop from US and German postal codes, e.g. 2134 -> 02134"
+                      >
+                          <MapPin className="mr-2 h-5 w-5" /> Restore ZIP Leading Zeros
+                      </Button>
+                    )}
                     {displayMode === 'errors' && currentErrorIndices.length > 0 && (
                         <Button onClick={() => { setDisplayMode('all'); setCurrentPage(1);}} variant="link">Show all {entityNamePlural.toLowerCase()} ({fields.length})</Button>
                     )}
@@ -706,13 +1086,57 @@ export default function CsvConverterPage() {
                 )}
             </div>
         </div>
+
+        {!isCustomerMode && !isLoading && skippedProducts.length > 0 && (
+          <Alert className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{skippedProducts.length} product(s) were not imported</AlertTitle>
+            <AlertDescription>
+              These product types are not supported or were set to "Skip":
+              <ul className="mt-2 max-h-40 overflow-y-auto text-sm font-mono">
+                {skippedProducts.map(product => <li key={product.sku}>{product.sku} ({product.type})</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!isCustomerMode && productTranslations.length > 0 && (
+          <ProductTranslationsPanel translations={productTranslations} disabled={isLoading} />
+        )}
+
+        {!isCustomerMode && (
+          <InventorySourcesPanel getProducts={() => getProductValues().products} disabled={isLoading} />
+        )}
+
+        {!isCustomerMode && (
+          <PriceListsPanel customerGroups={customerGroups} getProducts={() => getProductValues().products} disabled={isLoading} />
+        )}
+
+        {!isCustomerMode && (
+          <CategoryCollectionsPanel categories={productCategories} disabled={isLoading} />
+        )}
         
         <Separator className="my-8" />
 
         {isLoading && (
           <div className="text-center py-10">
             <RefreshCw className="h-10 w-10 text-primary animate-spin mx-auto mb-4" />
-            <p className="text-xl text-muted-foreground">Processing CSV, please wait...</p>
+            <p className="text-xl text-muted-foreground">
+              {csvImport.progress?.phase === 'converting' && `Converting ${csvImport.progress.rowsRead} rows...`}
+              {csvImport.progress?.phase === 'mapping' && 'Waiting for the column mapping...'}
+              {(!csvImport.progress || csvImport.progress.phase === 'reading') && 'Processing CSV, please wait...'}
+            </p>
+            {csvImport.isRunning && (
+              <div className="max-w-md mx-auto mt-4 space-y-2">
+                <Progress value={getImportProgressPercent(csvImport.progress)} />
+                <p className="text-sm text-muted-foreground">
+                  {getImportProgressPercent(csvImport.progress)}% read ({csvImport.progress?.rowsRead ?? 0} rows)
+                </p>
+                <Button onClick={() => { settleColumnMapping(null); csvImport.cancelImport(); }} variant="outline">
+                  <XCircle className="mr-2 h-5 w-5" /> Cancel Import
+                </Button>
+              </div>
+            )}
           </div>
         )}
 
@@ -783,6 +1207,20 @@ export default function CsvConverterPage() {
             )}
           </form>
         )}
+
+        <ColumnMappingDialog
+          preview={columnMappingPreview}
+          profiles={mappingProfiles.profiles}
+          matchedProfile={matchedProfile}
+          defaultSettings={{ magentoBaseImageUrl, tagPrefixes: customerTagPrefixes, phoneFormatting, attributeMapping: {} }}
+          onSaveProfile={(profile) => {
+            mappingProfiles.saveProfile(profile);
+            toast({ title: 'Mapping Profile Saved', description: `"${profile.name}" will be applied to files with the same columns.` });
+          }}
+          onDeleteProfile={mappingProfiles.deleteProfile}
+          onConfirm={confirmColumnMapping}
+          onCancel={() => settleColumnMapping(null)}
+        />
       </div>
     </FormProvider>
   );
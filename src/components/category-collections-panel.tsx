@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Download, FolderTree } from 'lucide-react';
+import { downloadTextFile } from '@/lib/download';
+import {
+  generateCustomCollectionsCsv,
+  generateSmartCollectionsCsv,
+  type CollectionKind,
+  type CollectionSelection,
+  type ProductCategory,
+} from '@/lib/category-collections';
+
+interface CategoryCollectionsPanelProps {
+  categories: ProductCategory[];
+  disabled?: boolean;
+}
+
+const NO_COLLECTION = 'none';
+
+// Category tree of the last product import; the chosen categories are exported as Shopify collections
+export function CategoryCollectionsPanel({ categories, disabled }: CategoryCollectionsPanelProps) {
+  const { toast } = useToast();
+  const [selection, setSelection] = useState<CollectionSelection>({});
+  const [includeSubcategories, setIncludeSubcategories] = useState(true);
+
+  useEffect(() => {
+    setSelection({});
+  }, [categories]);
+
+  if (categories.length === 0) return null;
+
+  const smartCount = Object.values(selection).filter(kind => kind === 'smart').length;
+  const customCount = Object.values(selection).filter(kind => kind === 'custom').length;
+
+  const handleKindChange = (handle: string, value: string) => {
+    setSelection(current => {
+      const next = { ...current };
+      if (value === NO_COLLECTION) delete next[handle];
+      else next[handle] = value as CollectionKind;
+      return next;
+    });
+  };
+
+  const handleDownload = () => {
+    const options = { includeSubcategories };
+    if (smartCount > 0) downloadTextFile(generateSmartCollectionsCsv(categories, selection, options), 'shopify_smart_collections.csv');
+    if (customCount > 0) downloadTextFile(generateCustomCollectionsCsv(categories, selection, options), 'shopify_custom_collections.csv');
+    toast({ title: 'Collections CSV Generated', description: `${smartCount} smart and ${customCount} custom collection(s). Download started.` });
+  };
+
+  return (
+    <div className="mb-6 p-6 bg-card rounded-lg shadow-md space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <h2 className="text-xl font-semibold text-primary flex items-center"><FolderTree className="mr-2 h-5 w-5" />Collections from Categories</h2>
+        <div className="flex items-center space-x-2">
+          <Checkbox id="collections-include-subcategories" checked={includeSubcategories} onCheckedChange={(checked) => setIncludeSubcategories(checked === true)} />
+          <Label htmlFor="collections-include-subcategories" className="text-sm">Include products of subcategories</Label>
+        </div>
+        <Button onClick={handleDownload} variant="outline" disabled={disabled || smartCount + customCount === 0}>
+          <Download className="mr-2 h-5 w-5" /> Download Collections CSV
+        </Button>
+      </div>
+      <div className="max-h-96 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Category</TableHead>
+              <TableHead>Product tag</TableHead>
+              <TableHead>Products</TableHead>
+              <TableHead className="w-[220px]">Collection</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {categories.map(category => (
+              <TableRow key={category.handle}>
+                <TableCell style={{ paddingLeft: `${category.path.length}rem` }}>{category.title}</TableCell>
+                <TableCell className="font-mono text-xs">{category.tag}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">{category.productHandles.length}</TableCell>
+                <TableCell>
+                  <Select value={selection[category.handle] || NO_COLLECTION} onValueChange={(value) => handleKindChange(category.handle, value)} disabled={disabled}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLLECTION}>No collection</SelectItem>
+                      <SelectItem value="smart">Smart (tag rule)</SelectItem>
+                      <SelectItem value="custom">Custom (product list)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, BookmarkCheck, Columns3, Save, Trash2 } from 'lucide-react';
+import {
+  decodeMappingTarget,
+  encodeMappingTarget,
+  getMissingRequiredFields,
+  MAPPING_FIELDS,
+  supportsNoteTarget,
+  type ColumnMapping,
+  type ColumnMappingPreview,
+} from '@/lib/column-mapping';
+import { applyProfileMapping, createMappingProfile, getHeaderSignature, type MappingProfileSettings } from '@/lib/mapping-profiles';
+import {
+  getAttributeTarget,
+  getDefaultAttributeTarget,
+  METAFIELD_TYPE_LABELS,
+  METAFIELD_TYPES,
+  type AdditionalAttributeTarget,
+  type MetafieldType,
+} from '@/lib/additional-attributes';
+import { PHONE_NUMBERING_PLANS } from '@/lib/phone-numbers';
+import { getCountryName } from '@/lib/countries';
+import type { CustomerTagPrefixes } from '@/lib/customer-settings';
+import type { MappingProfile } from '@/schemas/mapping-profile';
+
+type ProfileExtras = Omit<MappingProfileSettings, 'columnMapping'>;
+
+interface ColumnMappingDialogProps {
+  preview: ColumnMappingPreview | null; // the dialog is open while a preview is set
+  profiles: MappingProfile[];
+  matchedProfile?: MappingProfile; // profile whose header signature matches the file, applied on open
+  defaultSettings: ProfileExtras; // used when no profile is applied
+  onSaveProfile: (profile: MappingProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  onConfirm: (settings: MappingProfileSettings) => void;
+  onCancel: () => void;
+}
+
+const TAG_PREFIX_LABELS: Record<keyof CustomerTagPrefixes, string> = {
+  website: 'Website',
+  store: 'Store',
+  groupId: 'Customer group',
+  createdAt: 'Created at',
+  vatNumber: 'VAT number',
+};
+
+const NO_PROFILE = 'none';
+
+export function ColumnMappingDialog({
+  preview,
+  profiles,
+  matchedProfile,
+  defaultSettings,
+  onSaveProfile,
+  onDeleteProfile,
+  onConfirm,
+  onCancel,
+}: ColumnMappingDialogProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [extras, setExtras] = useState<ProfileExtras>(defaultSettings);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>(NO_PROFILE);
+  const [profileName, setProfileName] = useState('');
+
+  const applyProfile = (profile: MappingProfile | undefined) => {
+    if (!preview) return;
+    setMapping(profile ? applyProfileMapping(preview, profile) : { ...preview.proposedMapping });
+    setExtras(profile
+      ? { magentoBaseImageUrl: profile.magentoBaseImageUrl, tagPrefixes: profile.tagPrefixes, phoneFormatting: profile.phoneFormatting, attributeMapping: profile.attributeMapping }
+      : defaultSettings);
+    setSelectedProfileId(profile?.id || NO_PROFILE);
+    setProfileName(profile?.name || '');
+  };
+
+  useEffect(() => {
+    applyProfile(matchedProfile);
+    // Only re-run when a new file is being mapped
+  }, [preview]);
+
+  if (!preview) return null;
+
+  const fields = MAPPING_FIELDS[preview.entity];
+  const headers = preview.columns.map(column => column.header);
+  const signature = getHeaderSignature(headers);
+  const entityProfiles = profiles.filter(profile => profile.entity === preview.entity);
+  const missingRequired = getMissingRequiredFields(mapping, fields);
+  const mappedFieldCount = Object.values(mapping).filter(target => target.kind === 'field').length;
+
+  const handleTargetChange = (header: string, value: string) => {
+    setMapping(current => ({ ...current, [header]: decodeMappingTarget(value) }));
+  };
+
+  const handleTagPrefixChange = (key: keyof CustomerTagPrefixes, value: string) => {
+    setExtras(current => ({ ...current, tagPrefixes: { ...current.tagPrefixes, [key]: value } }));
+  };
+
+  const setAttributeTarget = (code: string, target: AdditionalAttributeTarget) => {
+    setExtras(current => ({ ...current, attributeMapping: { ...current.attributeMapping, [code]: target } }));
+  };
+
+  const handleAttributeKindChange = (code: string, kind: AdditionalAttributeTarget['kind']) => {
+    setAttributeTarget(code, kind === 'metafield' ? getDefaultAttributeTarget(code) : { kind });
+  };
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    const existing = entityProfiles.find(profile => profile.name.toLowerCase() === name.toLowerCase());
+    const profile = createMappingProfile(name, preview.entity, headers, { columnMapping: mapping, ...extras });
+    onSaveProfile(existing ? { ...profile, id: existing.id } : profile);
+    setSelectedProfileId(existing?.id || profile.id);
+  };
+
+  const handleDeleteProfile = () => {
+    if (selectedProfileId === NO_PROFILE) return;
+    onDeleteProfile(selectedProfileId);
+    setSelectedProfileId(NO_PROFILE);
+    setProfileName('');
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onCancel(); }}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center"><Columns3 className="mr-2 h-5 w-5 text-primary" />Map CSV Columns</DialogTitle>
+          <DialogDescription>
+            {preview.columns.length} column(s) found, {mappedFieldCount} mapped to a field. Columns set to "Ignore" are not imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex flex-col space-y-1">
+            <Label htmlFor="mapping-profile-select" className="text-sm font-medium">Profile</Label>
+            <Select
+              value={selectedProfileId}
+              onValueChange={(value) => applyProfile(entityProfiles.find(profile => profile.id === value))}
+            >
+              <SelectTrigger id="mapping-profile-select" className="w-[260px] h-9">
+                <SelectValue placeholder="No profile" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PROFILE}>No profile (suggested mapping)</SelectItem>
+                {entityProfiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}{profile.headerSignature === signature ? ' (matches this file)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="ghost" size="icon" onClick={handleDeleteProfile} disabled={selectedProfileId === NO_PROFILE} title="Delete profile">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <div className="flex flex-col space-y-1">
+            <Label htmlFor="mapping-profile-name" className="text-sm font-medium">Save as profile</Label>
+            <Input
+              id="mapping-profile-name"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="e.g. Magento 2 webshop export"
+              className="w-[260px] h-9"
+            />
+          </div>
+          <Button variant="outline" onClick={handleSaveProfile} disabled={!profileName.trim()}>
+            <Save className="mr-2 h-4 w-4" /> Save Profile
+          </Button>
+        </div>
+        {matchedProfile && selectedProfileId === matchedProfile.id && (
+          <p className="text-sm text-muted-foreground flex items-center">
+            <BookmarkCheck className="h-4 w-4 mr-1 text-primary" /> Profile "{matchedProfile.name}" was applied because its columns match this file.
+          </p>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Source column</TableHead>
+              <TableHead>Sample values</TableHead>
+              <TableHead className="w-[280px]">Import as</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {preview.columns.map(column => (
+              <TableRow key={column.header}>
+                <TableCell className="font-mono text-sm">{column.header || <span className="text-muted-foreground">(empty header)</span>}</TableCell>
+                <TableCell className="text-sm text-muted-foreground max-w-[280px]">
+                  {column.samples.length > 0
+                    ? column.samples.map((sample, i) => <div key={i} className="truncate" title={sample}>{sample}</div>)
+                    : <span className="italic">no values</span>}
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={encodeMappingTarget(mapping[column.header] || { kind: 'ignore' })}
+                    onValueChange={(value) => handleTargetChange(column.header, value)}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue placeholder="Ignore" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ignore">Ignore</SelectItem>
+                      <SelectItem value="tags">Add to Tags</SelectItem>
+                      {supportsNoteTarget(preview.entity) && <SelectItem value="note">Add to Note</SelectItem>}
+                      {fields.map(field => (
+                        <SelectItem key={field.key} value={`field:${field.key}`}>{field.label}{field.required ? ' *' : ''}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {preview.entity === 'customer' ? (
+          <div className="space-y-3">
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Tag prefixes</h3>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                {(Object.keys(TAG_PREFIX_LABELS) as (keyof CustomerTagPrefixes)[]).map(key => (
+                  <div key={key} className="flex flex-col space-y-1">
+                    <Label htmlFor={`tag-prefix-${key}`} className="text-xs text-muted-foreground">{TAG_PREFIX_LABELS[key]}</Label>
+                    <Input
+                      id={`tag-prefix-${key}`}
+                      value={extras.tagPrefixes[key]}
+                      onChange={(e) => handleTagPrefixChange(key, e.target.value)}
+                      className="h-8 font-mono text-xs"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="phone-normalize"
+                  checked={extras.phoneFormatting.normalize}
+                  onCheckedChange={(checked) => setExtras(current => ({ ...current, phoneFormatting: { ...current.phoneFormatting, normalize: checked === true } }))}
+                />
+                <Label htmlFor="phone-normalize" className="text-sm">Convert phone numbers to international format</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="phone-default-country" className="text-sm">Default country:</Label>
+                <Select
+                  value={extras.phoneFormatting.defaultCountry}
+                  onValueChange={(value) => setExtras(current => ({ ...current, phoneFormatting: { ...current.phoneFormatting, defaultCountry: value } }))}
+                  disabled={!extras.phoneFormatting.normalize}
+                >
+                  <SelectTrigger id="phone-default-country" className="h-8 w-[120px]" title="Numbering plan for national numbers of customers without a country code">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(PHONE_NUMBERING_PLANS).sort().map(country => (
+                      <SelectItem key={country} value={country}>{getCountryName(country)} ({country}, +{PHONE_NUMBERING_PLANS[country].callingCode})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-col space-y-1">
+              <Label htmlFor="mapping-base-image-url" className="text-sm font-semibold">Magento Base Image URL</Label>
+              <Input
+                id="mapping-base-image-url"
+                type="url"
+                value={extras.magentoBaseImageUrl}
+                onChange={(e) => setExtras(current => ({ ...current, magentoBaseImageUrl: e.target.value }))}
+                placeholder="e.g. https://your-magento-store.com/media/catalog/product/"
+                className="h-9"
+              />
+            </div>
+            {(preview.additionalAttributes?.length ?? 0) > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold mb-2">Additional attributes</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Attribute</TableHead>
+                      <TableHead>Sample values</TableHead>
+                      <TableHead className="w-[180px]">Import as</TableHead>
+                      <TableHead>Metafield</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.additionalAttributes!.map(attribute => {
+                      const target = getAttributeTarget(extras.attributeMapping, attribute.header);
+                      return (
+                        <TableRow key={attribute.header}>
+                          <TableCell className="font-mono text-sm">{attribute.header}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground max-w-[200px]">
+                            {attribute.samples.map((sample, i) => <div key={i} className="truncate" title={sample}>{sample}</div>)}
+                          </TableCell>
+                          <TableCell>
+                            <Select value={target.kind} onValueChange={(value) => handleAttributeKindChange(attribute.header, value as AdditionalAttributeTarget['kind'])}>
+                              <SelectTrigger className="h-9">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="metafield">Metafield</SelectItem>
+                                <SelectItem value="tags">Add to Tags</SelectItem>
+                                <SelectItem value="option">Variant option</SelectItem>
+                                <SelectItem value="ignore">Ignore</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            {target.kind === 'metafield' && (
+                              <div className="flex items-center gap-1">
+                                <Input
+                                  aria-label={`Namespace for ${attribute.header}`}
+                                  value={target.namespace}
+                                  onChange={(e) => setAttributeTarget(attribute.header, { ...target, namespace: e.target.value.replace(/[^a-zA-Z0-9_-]/g, '') })}
+                                  className="h-8 w-24 font-mono text-xs"
+                                />
+                                <span>.</span>
+                                <Input
+                                  aria-label={`Key for ${attribute.header}`}
+                                  value={target.key}
+                                  onChange={(e) => setAttributeTarget(attribute.header, { ...target, key: e.target.value.replace(/[^a-zA-Z0-9_-]/g, '') })}
+                                  className="h-8 w-32 font-mono text-xs"
+                                />
+                                <Select value={target.type} onValueChange={(value) => setAttributeTarget(attribute.header, { ...target, type: value as MetafieldType })}>
+                                  <SelectTrigger className="h-8 w-[150px] text-xs">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {METAFIELD_TYPES.map(type => <SelectItem key={type} value={type}>{METAFIELD_TYPE_LABELS[type]}</SelectItem>)}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {missingRequired.length > 0 && (
+          <p className="text-sm text-destructive flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-1" /> Map a column to {missingRequired.map(field => `"${field.label}"`).join(', ')} to continue.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel Import</Button>
+          <Button onClick={() => onConfirm({ columnMapping: mapping, ...extras })} disabled={missingRequired.length > 0}>Convert</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
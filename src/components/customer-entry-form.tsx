@@ -1,6 +1,6 @@
 
 import type * as React from 'react';
-import type { Control, FieldErrors } from 'react-hook-form';
+import { useWatch, type Control, type FieldErrors } from 'react-hook-form';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -16,6 +16,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Trash2, User, Mail, Building, MapPin, Phone, Tag, FileText, Percent, MessageSquare } from 'lucide-react';
 import type { ShopifyCustomersFormData } from '@/schemas/customer';
 import { cn } from '@/lib/utils';
+import { normalizePhoneNumber, PHONE_NUMBER_TYPE_LABELS } from '@/lib/phone-numbers';
+import { formatPostalCode, restorePostalCodeLeadingZeros } from '@/lib/postal-codes';
 
 interface CustomerEntryFormProps {
   control: Control<ShopifyCustomersFormData>;
@@ -26,6 +28,7 @@ interface CustomerEntryFormProps {
 
 export function CustomerEntryForm({ control, index, remove, errors }: CustomerEntryFormProps) {
   const customerErrors = errors.customers?.[index];
+  const countryCode = useWatch({ control, name: `customers.${index}.countryCode` });
 
   return (
     <Card className="mb-6 shadow-lg">
@@ -130,6 +133,12 @@ export function CustomerEntryForm({ control, index, remove, errors }: CustomerEn
                   />
                 </FormControl>
                 {customerErrors?.phone && <FormMessage>{customerErrors.phone.message}</FormMessage>}
+                {!customerErrors?.phone && field.value && (() => {
+                  const phone = normalizePhoneNumber(field.value, countryCode);
+                  return phone.type === 'valid' && (
+                    <p className="text-xs text-muted-foreground">{PHONE_NUMBER_TYPE_LABELS[phone.numberType]}: {phone.e164}</p>
+                  );
+                })()}
               </FormItem>
             )}
           />
@@ -232,10 +241,22 @@ export function CustomerEntryForm({ control, index, remove, errors }: CustomerEn
                   <Input
                     placeholder="e.g. 10001"
                     {...field}
+                    onBlur={() => {
+                      field.onBlur();
+                      if (formatPostalCode(field.value, countryCode) !== field.value) field.onChange(formatPostalCode(field.value, countryCode));
+                    }}
                     className={cn(customerErrors?.zip && "border-destructive focus-visible:ring-destructive")}
                   />
                 </FormControl>
                 {customerErrors?.zip && <FormMessage>{customerErrors.zip.message}</FormMessage>}
+                {(() => {
+                  const withLeadingZeros = restorePostalCodeLeadingZeros(field.value, countryCode);
+                  return withLeadingZeros && (
+                    <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => field.onChange(withLeadingZeros)}>
+                      Restore leading zeros: {withLeadingZeros}
+                    </Button>
+                  );
+                })()}
               </FormItem>
             )}
           />
@@ -273,6 +294,24 @@ export function CustomerEntryForm({ control, index, remove, errors }: CustomerEn
               </FormItem>
             )}
           />
+
+          <FormField
+            control={control}
+            name={`customers.${index}.addressPhone`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center"><Phone className="mr-2 h-4 w-4 text-muted-foreground" />Address Phone</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="Same as phone number"
+                    {...field}
+                    className={cn(customerErrors?.addressPhone && "border-destructive focus-visible:ring-destructive")}
+                  />
+                </FormControl>
+                {customerErrors?.addressPhone && <FormMessage>{customerErrors.addressPhone.message}</FormMessage>}
+              </FormItem>
+            )}
+          />
         </div>
 
         <FormField
@@ -311,6 +350,39 @@ export function CustomerEntryForm({ control, index, remove, errors }: CustomerEn
           )}
         />
 
+        <FormField
+          control={control}
+          name={`customers.${index}.addresses`}
+          render={({ field }) => (
+            field.value.length > 0 ? (
+              <FormItem className="mt-4">
+                <FormLabel className="flex items-center"><MapPin className="mr-2 h-4 w-4 text-muted-foreground" />Additional Addresses (exported as extra rows)</FormLabel>
+                <ul className="space-y-1">
+                  {field.value.map((address, addressIndex) => (
+                    <li key={addressIndex} className="flex items-center justify-between rounded-md border px-3 py-1 text-sm">
+                      <span>
+                        {[[address.firstName, address.lastName].filter(Boolean).join(' '), address.company, address.address1, address.address2, [address.zip, address.city].filter(Boolean).join(' '), address.countryCode || address.country, address.phone].filter(Boolean).join(', ')}
+                        {(['countryCode', 'provinceCode', 'zip', 'phone'] as const).map(key => customerErrors?.addresses?.[addressIndex]?.[key] && (
+                          <span key={key} className="block text-destructive">{customerErrors.addresses[addressIndex]?.[key]?.message}</span>
+                        ))}
+                      </span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => field.onChange(field.value.filter((_, i) => i !== addressIndex))}
+                        aria-label="Remove address"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </FormItem>
+            ) : <></>
+          )}
+        />
+
         <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
           <FormField
             control={control}
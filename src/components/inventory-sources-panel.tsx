@@ -0,0 +1,105 @@
+import type React from 'react';
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Upload, Warehouse } from 'lucide-react';
+import { tokenizeFileInChunks } from '@/lib/csv-import';
+import { downloadTextFile } from '@/lib/download';
+import {
+  buildInventoryLevels,
+  convertMagentoStockSourceRecords,
+  createDefaultSourceLocationMapping,
+  generateShopifyInventoryCsv,
+  type SourceLocationMapping,
+  type StockSourceItem,
+} from '@/lib/inventory-sources';
+import type { ShopifyProductFormData } from '@/schemas/product';
+
+interface InventorySourcesPanelProps {
+  getProducts: () => ShopifyProductFormData[];
+  disabled?: boolean;
+}
+
+// Magento MSI stock sources: import, map each source to a Shopify location, export the inventory CSV
+export function InventorySourcesPanel({ getProducts, disabled }: InventorySourcesPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const [items, setItems] = useState<StockSourceItem[]>([]);
+  const [mapping, setMapping] = useState<SourceLocationMapping>({});
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = convertMagentoStockSourceRecords(await tokenizeFileInChunks(file));
+    if (result.type !== 'sources_found') {
+      toast({ title: 'Stock Sources Import Failed', description: result.message, variant: 'destructive' });
+      return;
+    }
+    setItems(result.items);
+    setMapping(current => ({ ...createDefaultSourceLocationMapping(result.sourceCodes), ...current }));
+    const skipped = result.linesSkipped > 0 ? ` ${result.linesSkipped} line(s) without SKU, source or quantity were skipped.` : '';
+    toast({ title: 'Stock Sources Imported', description: `${result.items.length} source item(s) from ${result.sourceCodes.length} source(s).${skipped}` });
+  };
+
+  const handleDownload = () => {
+    const levels = buildInventoryLevels(getProducts(), items, mapping);
+    if (levels.length === 0) {
+      toast({ title: 'No Inventory to Export', description: 'None of the source items match a product SKU at a mapped location.', variant: 'destructive' });
+      return;
+    }
+    downloadTextFile(generateShopifyInventoryCsv(levels), 'shopify_inventory_export.csv');
+    toast({ title: 'Shopify Inventory CSV Generated', description: `${levels.length} inventory level(s). Download started.` });
+  };
+
+  const sourceCodes = Object.keys(mapping).filter(code => items.some(item => item.sourceCode === code)).sort();
+
+  return (
+    <div className="mb-6 p-6 bg-card rounded-lg shadow-md space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <h2 className="text-xl font-semibold text-primary flex items-center"><Warehouse className="mr-2 h-5 w-5" />Inventory per Location</h2>
+        <Button onClick={() => fileInputRef.current?.click()} variant="outline" disabled={disabled} title="Magento 2.3+ Stock Sources export (source_code, sku, status, quantity)">
+          <Upload className="mr-2 h-5 w-5" /> Import Stock Sources CSV
+        </Button>
+        <Button onClick={handleDownload} variant="outline" disabled={disabled || items.length === 0}>
+          <Download className="mr-2 h-5 w-5" /> Download Inventory CSV
+        </Button>
+        <input type="file" ref={fileInputRef} onChange={handleImport} accept=".csv" className="hidden" />
+      </div>
+      {sourceCodes.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Magento source</TableHead>
+              <TableHead>Source items</TableHead>
+              <TableHead className="w-[320px]">Shopify location (leave empty to skip)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sourceCodes.map(code => (
+              <TableRow key={code}>
+                <TableCell className="font-mono text-sm">{code}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">{items.filter(item => item.sourceCode === code).length}</TableCell>
+                <TableCell>
+                  <Label htmlFor={`source-location-${code}`} className="sr-only">Shopify location for {code}</Label>
+                  <Input
+                    id={`source-location-${code}`}
+                    value={mapping[code] ?? ''}
+                    onChange={(e) => setMapping(current => ({ ...current, [code]: e.target.value }))}
+                    placeholder="e.g. Warehouse Amsterdam"
+                    className="h-9"
+                    disabled={disabled}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
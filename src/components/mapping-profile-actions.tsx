@@ -0,0 +1,50 @@
+import type React from 'react';
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { FileDown, FileUp } from 'lucide-react';
+import { parseMappingProfiles, serializeMappingProfiles } from '@/lib/mapping-profiles';
+import { downloadTextFile } from '@/lib/download';
+import type { MappingProfile } from '@/schemas/mapping-profile';
+
+interface MappingProfileActionsProps {
+  profiles: MappingProfile[];
+  onImport: (profiles: MappingProfile[]) => void;
+  disabled?: boolean;
+}
+
+// Export and import of saved mapping profiles as JSON files
+export function MappingProfileActions({ profiles, onImport, disabled }: MappingProfileActionsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleExport = () => {
+    downloadTextFile(serializeMappingProfiles(profiles), 'mapping_profiles.json', 'application/json;charset=utf-8;');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = parseMappingProfiles(await file.text());
+    if (result.type === 'parse_error') {
+      toast({ title: 'Profile Import Failed', description: result.message, variant: 'destructive' });
+      return;
+    }
+    onImport(result.profiles);
+    toast({ title: 'Profiles Imported', description: `${result.profiles.length} mapping profile(s) imported. Profiles with the same name were replaced.` });
+  };
+
+  return (
+    <>
+      <Button onClick={handleExport} variant="outline" disabled={disabled || profiles.length === 0} title="Download saved mapping profiles as JSON">
+        <FileDown className="mr-2 h-5 w-5" /> Export Profiles ({profiles.length})
+      </Button>
+      <Button onClick={() => fileInputRef.current?.click()} variant="outline" disabled={disabled} title="Load mapping profiles from a JSON file">
+        <FileUp className="mr-2 h-5 w-5" /> Import Profiles
+      </Button>
+      <input type="file" ref={fileInputRef} onChange={handleImport} accept=".json,application/json" className="hidden" />
+    </>
+  );
+}
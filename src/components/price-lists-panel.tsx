@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Building2, Download } from 'lucide-react';
+import { downloadTextFile } from '@/lib/download';
+import { createDefaultCatalogMapping, generatePriceListCsv, type CatalogMapping } from '@/lib/tier-prices';
+import type { ShopifyProductFormData } from '@/schemas/product';
+
+interface PriceListsPanelProps {
+  customerGroups: string[];
+  getProducts: () => ShopifyProductFormData[];
+  disabled?: boolean;
+}
+
+// Customer groups with tier prices in the last product import, each mapped to a Shopify B2B catalog
+export function PriceListsPanel({ customerGroups, getProducts, disabled }: PriceListsPanelProps) {
+  const { toast } = useToast();
+  const [mapping, setMapping] = useState<CatalogMapping>({});
+  const [currency, setCurrency] = useState('EUR');
+
+  useEffect(() => {
+    setMapping(current => ({ ...createDefaultCatalogMapping(customerGroups), ...current }));
+  }, [customerGroups]);
+
+  if (customerGroups.length === 0) return null;
+
+  const handleDownload = () => {
+    const activeMapping = Object.fromEntries(customerGroups.map(group => [group, mapping[group] ?? '']));
+    const csv = generatePriceListCsv(getProducts(), activeMapping, currency);
+    const rowCount = csv.split('\n').length - 1;
+    if (rowCount === 0) {
+      toast({ title: 'No Prices to Export', description: 'Map at least one customer group with tier prices to a catalog.', variant: 'destructive' });
+      return;
+    }
+    downloadTextFile(csv, 'shopify_b2b_price_lists.csv');
+    toast({ title: 'Price List CSV Generated', description: `${rowCount} price(s). Download started.` });
+  };
+
+  return (
+    <div className="mb-6 p-6 bg-card rounded-lg shadow-md space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <h2 className="text-xl font-semibold text-primary flex items-center"><Building2 className="mr-2 h-5 w-5" />B2B Price Lists</h2>
+        <div className="flex items-center space-x-2">
+          <Label htmlFor="price-list-currency" className="text-sm font-medium">Currency:</Label>
+          <Input
+            id="price-list-currency"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            className="w-[90px] h-10"
+            maxLength={3}
+            disabled={disabled}
+          />
+        </div>
+        <Button onClick={handleDownload} variant="outline" disabled={disabled || currency.trim() === ''}>
+          <Download className="mr-2 h-5 w-5" /> Download Price List CSV
+        </Button>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Magento customer group</TableHead>
+            <TableHead className="w-[320px]">Shopify catalog (leave empty to skip)</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {customerGroups.map(group => (
+            <TableRow key={group}>
+              <TableCell className="text-sm">{group}</TableCell>
+              <TableCell>
+                <Label htmlFor={`catalog-${group}`} className="sr-only">Shopify catalog for {group}</Label>
+                <Input
+                  id={`catalog-${group}`}
+                  value={mapping[group] ?? ''}
+                  onChange={(e) => setMapping(current => ({ ...current, [group]: e.target.value }))}
+                  placeholder="e.g. Wholesale NL"
+                  className="h-9"
+                  disabled={disabled}
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 
 import type * as React from 'react';
-import type { Control, FieldErrors } from 'react-hook-form';
+import { useWatch, type Control, type FieldErrors } from 'react-hook-form';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -12,10 +12,20 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Textarea } from '@/components/ui/textarea';
-import { Trash2, Box, TagIcon, CircleDollarSign, Pilcrow, Settings2, ImageIcon, Info, Search, Barcode, WeightIcon, AlignLeft } from 'lucide-react';
+import { Trash2, Box, TagIcon, CircleDollarSign, Coins, Pilcrow, Settings2, ImageIcon, Info, Search, Barcode, ScanBarcode, WeightIcon, AlignLeft, AlertTriangle, PackageX, ListTree, Layers } from 'lucide-react';
 import type { ShopifyProductsFormData, ShopifyProductFormData } from '@/schemas/product';
 import { cn } from '@/lib/utils';
+import { getStockStatusWarning } from '@/lib/inventory-policy';
+import { fromGrams, WEIGHT_UNIT_LABELS, WEIGHT_UNITS } from '@/lib/weight';
 
 interface ProductEntryFormProps {
   control: Control<ShopifyProductsFormData>;
@@ -27,8 +37,10 @@ interface ProductEntryFormProps {
 
 export function ProductEntryForm({ control, index, remove, errors, productData }: ProductEntryFormProps) {
   const productErrors = errors.products?.[index];
+  const currentProduct = useWatch({ control, name: `products.${index}` });
+  const stockWarning = currentProduct ? getStockStatusWarning(currentProduct) : undefined;
   const formTitle = productData.isVariantRow
-    ? `Product Variant #${index + 1} (Option: ${productData.option1Value || 'N/A'}) for Handle: ${productData.handle}`
+    ? `Product Variant #${index + 1} (Option: ${[productData.option1Value, productData.option2Value, productData.option3Value].filter(Boolean).join(' / ') || 'N/A'}) for Handle: ${productData.handle}`
     : `Product #${index + 1}${productData.title ? ` - ${productData.title}`: ''}`;
 
   return (
@@ -103,6 +115,11 @@ export function ProductEntryForm({ control, index, remove, errors, productData }
                 />
               </FormControl>
               {productErrors?.bodyHtml && <FormMessage>{productErrors.bodyHtml.message}</FormMessage>}
+              {productData.bodyHtmlChanges?.length > 0 && (
+                <ul className="text-xs text-muted-foreground list-disc pl-5">
+                  {productData.bodyHtmlChanges.map(change => <li key={change}>{change}</li>)}
+                </ul>
+              )}
             </FormItem>
           )}
         />
@@ -188,6 +205,58 @@ export function ProductEntryForm({ control, index, remove, errors, productData }
                 </FormItem>
                 )}
             />
+            {(productData.option2Name || productData.option2Value) && (
+              <>
+              <FormField
+                  control={control}
+                  name={`products.${index}.option2Name`}
+                  render={({ field }) => (
+                  <FormItem>
+                      <FormLabel className="flex items-center"><Settings2 className="mr-2 h-4 w-4 text-muted-foreground" />Option2 Name</FormLabel>
+                      <FormControl><Input placeholder="e.g. Color" {...field} className={cn(productErrors?.option2Name && "border-destructive focus-visible:ring-destructive")} /></FormControl>
+                      {productErrors?.option2Name && <FormMessage>{productErrors.option2Name.message}</FormMessage>}
+                  </FormItem>
+                  )}
+              />
+              <FormField
+                  control={control}
+                  name={`products.${index}.option2Value`}
+                  render={({ field }) => (
+                  <FormItem>
+                      <FormLabel className="flex items-center"><Settings2 className="mr-2 h-4 w-4 text-muted-foreground" />Option2 Value</FormLabel>
+                      <FormControl><Input placeholder="e.g. Red" {...field} className={cn(productErrors?.option2Value && "border-destructive focus-visible:ring-destructive")} /></FormControl>
+                      {productErrors?.option2Value && <FormMessage>{productErrors.option2Value.message}</FormMessage>}
+                  </FormItem>
+                  )}
+              />
+              </>
+            )}
+            {(productData.option3Name || productData.option3Value) && (
+              <>
+              <FormField
+                  control={control}
+                  name={`products.${index}.option3Name`}
+                  render={({ field }) => (
+                  <FormItem>
+                      <FormLabel className="flex items-center"><Settings2 className="mr-2 h-4 w-4 text-muted-foreground" />Option3 Name</FormLabel>
+                      <FormControl><Input placeholder="e.g. Material" {...field} className={cn(productErrors?.option3Name && "border-destructive focus-visible:ring-destructive")} /></FormControl>
+                      {productErrors?.option3Name && <FormMessage>{productErrors.option3Name.message}</FormMessage>}
+                  </FormItem>
+                  )}
+              />
+              <FormField
+                  control={control}
+                  name={`products.${index}.option3Value`}
+                  render={({ field }) => (
+                  <FormItem>
+                      <FormLabel className="flex items-center"><Settings2 className="mr-2 h-4 w-4 text-muted-foreground" />Option3 Value</FormLabel>
+                      <FormControl><Input placeholder="e.g. Cotton" {...field} className={cn(productErrors?.option3Value && "border-destructive focus-visible:ring-destructive")} /></FormControl>
+                      {productErrors?.option3Value && <FormMessage>{productErrors.option3Value.message}</FormMessage>}
+                  </FormItem>
+                  )}
+              />
+              </>
+            )}
           <FormField
             control={control}
             name={`products.${index}.variantSku`}
@@ -205,6 +274,24 @@ export function ProductEntryForm({ control, index, remove, errors, productData }
               </FormItem>
             )}
           />
+          <FormField
+            control={control}
+            name={`products.${index}.variantBarcode`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center"><ScanBarcode className="mr-2 h-4 w-4 text-muted-foreground" />Barcode (EAN/UPC/GTIN)</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="e.g. 8712345678906"
+                    inputMode="numeric"
+                    {...field}
+                    className={cn(productErrors?.variantBarcode && "border-destructive focus-visible:ring-destructive")}
+                  />
+                </FormControl>
+                {productErrors?.variantBarcode && <FormMessage>{productErrors.variantBarcode.message}</FormMessage>}
+              </FormItem>
+            )}
+          />
           <FormField
             control={control}
             name={`products.${index}.variantPrice`}
@@ -226,6 +313,48 @@ export function ProductEntryForm({ control, index, remove, errors, productData }
               </FormItem>
             )}
           />
+          <FormField
+            control={control}
+            name={`products.${index}.variantCompareAtPrice`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center"><CircleDollarSign className="mr-2 h-4 w-4 text-muted-foreground" />Compare At Price</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="e.g. 24.99 (original price)"
+                    {...field}
+                     value={field.value === undefined ? '' : String(field.value)}
+                     onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                    className={cn(productErrors?.variantCompareAtPrice && "border-destructive focus-visible:ring-destructive")}
+                  />
+                </FormControl>
+                {productErrors?.variantCompareAtPrice && <FormMessage>{productErrors.variantCompareAtPrice.message}</FormMessage>}
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`products.${index}.variantCost`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center"><Coins className="mr-2 h-4 w-4 text-muted-foreground" />Cost per Item</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="e.g. 7.50"
+                    {...field}
+                     value={field.value === undefined ? '' : String(field.value)}
+                     onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                    className={cn(productErrors?.variantCost && "border-destructive focus-visible:ring-destructive")}
+                  />
+                </FormControl>
+                {productErrors?.variantCost && <FormMessage>{productErrors.variantCost.message}</FormMessage>}
+              </FormItem>
+            )}
+          />
           <FormField
             control={control}
             name={`products.${index}.variantInventoryQty`}
@@ -246,6 +375,27 @@ export function ProductEntryForm({ control, index, remove, errors, productData }
                 {productErrors?.variantInventoryQty && <FormMessage>{productErrors.variantInventoryQty.message}</FormMessage>}
               </FormItem>
             )}
+          />
+          <FormField
+            control={control}
+            name={`products.${index}.variantInventoryPolicy`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center"><PackageX className="mr-2 h-4 w-4 text-muted-foreground" />When Out of Stock</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className={cn(productErrors?.variantInventoryPolicy && "border-destructive focus-visible:ring-destructive")}>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="deny">Stop selling (deny)</SelectItem>
+                    <SelectItem value="continue">Continue selling (backorders)</SelectItem>
+                  </SelectContent>
+                </Select>
+                {productErrors?.variantInventoryPolicy && <FormMessage>{productErrors.variantInventoryPolicy.message}</FormMessage>}
+              </FormItem>
+            )}
           />
            <FormField
             control={control}
@@ -256,7 +406,7 @@ export function ProductEntryForm({ control, index, remove, errors, productData }
                 <FormControl>
                   <Input
                     type="number"
-                    step="0.01"
+                    step="1"
                     placeholder="e.g. 100"
                      {...field}
                      value={field.value === undefined ? '' : String(field.value)}
@@ -264,12 +414,58 @@ export function ProductEntryForm({ control, index, remove, errors, productData }
                     className={cn(productErrors?.variantWeight && "border-destructive focus-visible:ring-destructive")}
                   />
                 </FormControl>
+                {currentProduct && currentProduct.variantWeightUnit !== 'g' && (
+                  <p className="text-xs text-muted-foreground">Shown as {fromGrams(currentProduct.variantWeight ?? 0, currentProduct.variantWeightUnit)} {currentProduct.variantWeightUnit}</p>
+                )}
                 {productErrors?.variantWeight && <FormMessage>{productErrors.variantWeight.message}</FormMessage>}
               </FormItem>
             )}
           />
+          <FormField
+            control={control}
+            name={`products.${index}.variantWeightUnit`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center"><WeightIcon className="mr-2 h-4 w-4 text-muted-foreground" />Weight Unit (shown in Shopify)</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {WEIGHT_UNITS.map(unit => (
+                      <SelectItem key={unit} value={unit}>{WEIGHT_UNIT_LABELS[unit]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
         </div>
-        {/* Add Option2 and Option3 fields similarly if needed */}
+        {(productData.tierPrices?.length ?? 0) > 0 && (
+          <div className="mt-4">
+            <p className="text-sm font-medium flex items-center mb-1"><Layers className="mr-2 h-4 w-4 text-muted-foreground" />Tier Prices (exported to the B2B price list)</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer group</TableHead>
+                  <TableHead>From quantity</TableHead>
+                  <TableHead>Price</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {productData.tierPrices.map(tier => (
+                  <TableRow key={`${tier.customerGroup}-${tier.minQty}`}>
+                    <TableCell className="text-sm">{tier.customerGroup}</TableCell>
+                    <TableCell className="text-sm">{tier.minQty}</TableCell>
+                    <TableCell className="text-sm">{tier.price.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
 
 
         <h3 className="text-lg font-medium mt-6 mb-2 text-primary">Media & SEO</h3>
@@ -297,6 +493,36 @@ export function ProductEntryForm({ control, index, remove, errors, productData }
                 )}
             />
         </div>
+        {(productData.additionalImages?.length ?? 0) > 0 && (
+          <FormField
+            control={control}
+            name={`products.${index}.additionalImages`}
+            render={({ field }) => (
+              <FormItem className="mt-2">
+                <FormLabel className="flex items-center"><ImageIcon className="mr-2 h-4 w-4 text-muted-foreground" />Additional Images ({field.value?.length ?? 0})</FormLabel>
+                <ul className="space-y-1">
+                  {(field.value || []).map((image, imageIndex) => (
+                    <li key={image.src} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate" title={image.src}>
+                        {image.src}{image.altText ? <span className="text-muted-foreground"> ({image.altText})</span> : null}
+                      </span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0"
+                        onClick={() => field.onChange((field.value || []).filter((_, i) => i !== imageIndex))}
+                        aria-label="Remove image"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </FormItem>
+            )}
+          />
+        )}
          <div className="grid grid-cols-1 gap-4 md:grid-cols-2 mt-2">
             <FormField
                 control={control}
@@ -322,6 +548,27 @@ export function ProductEntryForm({ control, index, remove, errors, productData }
             />
         </div>
 
+        {(productData.metafields?.length ?? 0) > 0 && (
+          <>
+            <h3 className="text-lg font-medium mt-6 mb-2 text-primary flex items-center"><ListTree className="mr-2 h-4 w-4" />Metafields</h3>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {productData.metafields.map((metafield, metafieldIndex) => (
+                <FormField
+                  key={`${metafield.namespace}.${metafield.key}`}
+                  control={control}
+                  name={`products.${index}.metafields.${metafieldIndex}.value`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="font-mono text-xs">{metafield.namespace}.{metafield.key} [{metafield.type}]</FormLabel>
+                      <FormControl><Input {...field} /></FormControl>
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+          </>
+        )}
+
         <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
           <FormField
             control={control}
@@ -371,7 +618,33 @@ export function ProductEntryForm({ control, index, remove, errors, productData }
               </FormItem>
             )}
           />
+          <FormField
+            control={control}
+            name={`products.${index}.variantInventoryTracked`}
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center space-x-2 space-y-0 rounded-md border p-3 shadow-sm">
+                 <FormControl>
+                  <Checkbox
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    className={cn(productErrors?.variantInventoryTracked && "border-destructive focus-visible:ring-destructive")}
+                  />
+                </FormControl>
+                <FormLabel className="font-normal flex items-center">Track Inventory</FormLabel>
+              </FormItem>
+            )}
+          />
         </div>
+        {stockWarning && (
+          <p className="mt-3 text-sm text-amber-600 flex items-center">
+            <AlertTriangle className="mr-2 h-4 w-4" /> {stockWarning}
+          </p>
+        )}
+        {productData.conversionWarnings?.map(warning => (
+          <p key={warning} className="mt-2 text-sm text-amber-600 flex items-center">
+            <AlertTriangle className="mr-2 h-4 w-4 shrink-0" /> {warning}
+          </p>
+        ))}
       </CardContent>
     </Card>
   );
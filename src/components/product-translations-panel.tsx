@@ -0,0 +1,76 @@
+import type React from 'react';
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Languages, Upload } from 'lucide-react';
+import { tokenizeFileInChunks } from '@/lib/csv-import';
+import { downloadTextFile } from '@/lib/download';
+import {
+  generateProductTranslationsCsv,
+  getHandlesWithoutProductId,
+  parseShopifyProductIds,
+  type ProductIdsByHandle,
+  type ProductTranslation,
+} from '@/lib/product-translations';
+
+interface ProductTranslationsPanelProps {
+  translations: ProductTranslation[];
+  disabled?: boolean;
+}
+
+// Store view translations: once the products are imported into Shopify, fill in their IDs from a Shopify
+// export and download the Translate & Adapt CSV
+export function ProductTranslationsPanel({ translations, disabled }: ProductTranslationsPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const [productIds, setProductIds] = useState<ProductIdsByHandle | null>(null);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = parseShopifyProductIds(await tokenizeFileInChunks(file));
+    if (result.type !== 'ids_found') {
+      toast({ title: 'Product IDs Import Failed', description: result.message, variant: 'destructive' });
+      return;
+    }
+    setProductIds(result.productIds);
+    const missing = getHandlesWithoutProductId(translations, result.productIds);
+    const missingSummary = missing.length > 0 ? ` No ID for ${missing.length} translated product(s): ${missing.slice(0, 5).join(', ')}${missing.length > 5 ? ', ...' : ''}.` : '';
+    toast({ title: 'Product IDs Imported', description: `${result.productIds.size} product ID(s) read.${missingSummary}` });
+  };
+
+  const handleDownload = () => {
+    if (!productIds) return;
+    const missing = getHandlesWithoutProductId(translations, productIds);
+    downloadTextFile(generateProductTranslationsCsv(translations, productIds), 'shopify_product_translations.csv');
+    const skipped = missing.length > 0 ? ` Translations of ${missing.length} product(s) without an ID were left out.` : '';
+    toast({ title: 'Translations CSV Generated', description: `Import it in Translate & Adapt.${skipped}` });
+  };
+
+  const translatedCount = productIds ? translations.filter(translation => productIds.has(translation.handle)).length : 0;
+
+  return (
+    <div className="mb-6 p-6 bg-card rounded-lg shadow-md space-y-2">
+      <div className="flex flex-wrap items-center gap-4">
+        <h2 className="text-xl font-semibold text-primary flex items-center"><Languages className="mr-2 h-5 w-5" />Translations ({translations.length})</h2>
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          variant="outline"
+          disabled={disabled}
+          title="Translate & Adapt export, or a product export with ID and Handle columns, taken after importing the products CSV"
+        >
+          <Upload className="mr-2 h-5 w-5" /> Import Shopify Product IDs
+        </Button>
+        <Button onClick={handleDownload} variant="outline" disabled={disabled || !productIds}>
+          <Download className="mr-2 h-5 w-5" /> Download Translate & Adapt CSV{productIds ? ` (${translatedCount} of ${translations.length})` : ''}
+        </Button>
+        <input type="file" ref={fileInputRef} onChange={handleImport} accept=".csv" className="hidden" />
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Translate & Adapt identifies products by their Shopify ID. Import the products CSV first, then load the IDs from Shopify&apos;s Translate & Adapt export.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client"
+
+import * as React from "react"
+
+import type { CsvImportCommand, CsvImportProgress, CsvImportRequest, CsvImportWorkerMessage, ImportConversionSettings } from "@/lib/csv-import"
+import type { ColumnMappingPreview } from "@/lib/column-mapping"
+import type { ParseCustomerResult } from "@/lib/customer-csv-converter"
+import type { ParseProductResult, ProductTypeStrategies } from "@/lib/product-csv-converter"
+import type { DetectedEncoding, SourceEncoding } from "@/lib/encoding"
+import type { ProductHandleSource } from "@/lib/url-redirects"
+import type { WeightUnit } from "@/lib/weight"
+
+export interface CsvImportOutcome<TResult> {
+  result: TResult
+  encoding: DetectedEncoding
+}
+
+export interface CsvImportOptions {
+  encoding?: SourceEncoding
+  // Called once the headers are known; resolve with null to cancel the import
+  resolveColumnMapping: (preview: ColumnMappingPreview) => Promise<ImportConversionSettings | null>
+}
+
+export interface CustomerImportOptions extends CsvImportOptions {
+  addressesFile?: File // Magento "Customer Addresses" export
+}
+
+export interface ProductImportOptions extends CsvImportOptions {
+  strategies?: ProductTypeStrategies
+  defaultStoreView?: string
+  handleSource?: ProductHandleSource
+  weightUnit?: WeightUnit
+}
+
+type ResultMessage = Extract<CsvImportWorkerMessage, { type: "customer_result" | "product_result" }>
+
+// Runs Magento CSV imports in a Web Worker. Resolves with null when the import was cancelled.
+export function useCsvImport() {
+  const workerRef = React.useRef<Worker | null>(null)
+  const settleRef = React.useRef<((message: ResultMessage | null) => void) | null>(null)
+  const [progress, setProgress] = React.useState<CsvImportProgress | null>(null)
+  const [isRunning, setIsRunning] = React.useState(false)
+
+  const stopWorker = React.useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    settleRef.current = null
+    setIsRunning(false)
+  }, [])
+
+  const cancelImport = React.useCallback(() => {
+    const settle = settleRef.current
+    stopWorker()
+    settle?.(null)
+  }, [stopWorker])
+
+  React.useEffect(() => stopWorker, [stopWorker])
+
+  const run = React.useCallback(
+    (request: CsvImportRequest, resolveColumnMapping: CsvImportOptions["resolveColumnMapping"]) =>
+      new Promise<ResultMessage | null>((resolve, reject) => {
+        settleRef.current?.(null)
+        stopWorker()
+        const worker = new Worker(new URL("../workers/csv-import.worker.ts", import.meta.url))
+        const send = (command: CsvImportCommand) => worker.postMessage(command)
+        workerRef.current = worker
+        settleRef.current = resolve
+        const totalBytes = request.file.size + (request.kind === "customer" ? request.addressesFile?.size ?? 0 : 0)
+        setProgress({ phase: "reading", bytesRead: 0, totalBytes, rowsRead: 0 })
+        setIsRunning(true)
+
+        worker.onmessage = async (event: MessageEvent<CsvImportWorkerMessage>) => {
+          const message = event.data
+          if (message.type === "progress") {
+            setProgress(message.progress)
+            return
+          }
+          if (message.type === "mapping_required") {
+            setProgress(current => (current ? { ...current, phase: "mapping" } : current))
+            const settings = await resolveColumnMapping(message.preview)
+            if (workerRef.current !== worker) return // cancelled or replaced meanwhile
+            if (settings) send({ type: "convert", settings })
+            else cancelImport()
+            return
+          }
+          stopWorker()
+          if (message.type === "failed") reject(new Error(message.message))
+          else resolve(message)
+        }
+        worker.onerror = (event) => {
+          stopWorker()
+          reject(new Error(event.message || "The CSV import worker crashed."))
+        }
+        send({ type: "start", request })
+      }),
+    [stopWorker, cancelImport]
+  )
+
+  const importCustomers = React.useCallback(
+    async (file: File, options: CustomerImportOptions): Promise<CsvImportOutcome<ParseCustomerResult> | null> => {
+      const message = await run({ kind: "customer", file, encoding: options.encoding, addressesFile: options.addressesFile }, options.resolveColumnMapping)
+      return message?.type === "customer_result" ? { result: message.result, encoding: message.encoding } : null
+    },
+    [run]
+  )
+
+  const importProducts = React.useCallback(
+    async (file: File, magentoBaseImageUrl: string | undefined, options: ProductImportOptions): Promise<CsvImportOutcome<ParseProductResult> | null> => {
+      const message = await run(
+        { kind: "product", file, encoding: options.encoding, magentoBaseImageUrl, strategies: options.strategies, defaultStoreView: options.defaultStoreView, handleSource: options.handleSource, weightUnit: options.weightUnit },
+        options.resolveColumnMapping
+      )
+      return message?.type === "product_result" ? { result: message.result, encoding: message.encoding } : null
+    },
+    [run]
+  )
+
+  return { progress, isRunning, importCustomers, importProducts, cancelImport }
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import * as React from "react"
+
+import { loadMappingProfiles, saveMappingProfiles, upsertMappingProfile } from "@/lib/mapping-profiles"
+import type { MappingProfile } from "@/schemas/mapping-profile"
+
+// Mapping profiles persisted in localStorage
+export function useMappingProfiles() {
+  const [profiles, setProfiles] = React.useState<MappingProfile[]>([])
+  // Latest profiles, so updates can be computed and persisted outside the (pure) state updater
+  const profilesRef = React.useRef<MappingProfile[]>([])
+
+  React.useEffect(() => {
+    profilesRef.current = loadMappingProfiles(window.localStorage)
+    setProfiles(profilesRef.current)
+  }, [])
+
+  const update = React.useCallback((change: (current: MappingProfile[]) => MappingProfile[]) => {
+    const next = change(profilesRef.current)
+    profilesRef.current = next
+    setProfiles(next)
+    try {
+      saveMappingProfiles(window.localStorage, next)
+    } catch (error) {
+      console.error("Could not store mapping profiles:", error)
+    }
+  }, [])
+
+  const saveProfile = React.useCallback(
+    (profile: MappingProfile) => update(current => upsertMappingProfile(current, profile)),
+    [update]
+  )
+
+  const deleteProfile = React.useCallback(
+    (id: string) => update(current => current.filter(profile => profile.id !== id)),
+    [update]
+  )
+
+  const importProfiles = React.useCallback(
+    (imported: MappingProfile[]) => update(current => imported.reduce(upsertMappingProfile, current)),
+    [update]
+  )
+
+  return { profiles, saveProfile, deleteProfile, importProfiles }
+}
@@ -0,0 +1,93 @@
+import type { CsvRecord } from '@/lib/csv';
+
+// Magento's `additional_attributes` column (`material=Cotton,brand=Acme`) and where each attribute goes in Shopify
+
+export const METAFIELD_TYPES = ['single_line_text_field', 'number_integer', 'boolean', 'list.single_line_text_field', 'json'] as const;
+
+export type MetafieldType = typeof METAFIELD_TYPES[number];
+
+export const METAFIELD_TYPE_LABELS: Record<MetafieldType, string> = {
+  single_line_text_field: 'Single line text',
+  number_integer: 'Integer',
+  boolean: 'True or false',
+  'list.single_line_text_field': 'List of text',
+  json: 'JSON',
+};
+
+export interface MetafieldDefinition {
+  namespace: string;
+  key: string;
+  type: MetafieldType;
+}
+
+export type AdditionalAttributeTarget =
+  | ({ kind: 'metafield' } & MetafieldDefinition)
+  | { kind: 'tags' } // written as `code:value`, like columns sent to tags
+  | { kind: 'option' } // next free Option1-3 of the variant
+  | { kind: 'ignore' };
+
+// Keyed by attribute code
+export type AdditionalAttributeMapping = Record<string, AdditionalAttributeTarget>;
+
+// Metafield keys allow letters, digits, dashes and underscores
+export const toMetafieldKey = (code: string): string =>
+  code.trim().toLowerCase().replace(/[^a-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '') || 'attribute';
+
+// Attributes nobody mapped become single line text metafields in the custom namespace
+export const getDefaultAttributeTarget = (code: string): AdditionalAttributeTarget =>
+  ({ kind: 'metafield', namespace: 'custom', key: toMetafieldKey(code), type: 'single_line_text_field' });
+
+export const getAttributeTarget = (mapping: AdditionalAttributeMapping | undefined, code: string): AdditionalAttributeTarget =>
+  mapping?.[code] || getDefaultAttributeTarget(code);
+
+// Pairs are comma separated; a comma not followed by `code=` belongs to the previous value
+export const parseAdditionalAttributes = (value: string | undefined): Map<string, string> => {
+  const attributes = new Map<string, string>();
+  if (!value) return attributes;
+  value.split(/,(?=\s*[a-zA-Z0-9_]+\s*=)/).forEach(pair => {
+    const separator = pair.indexOf('=');
+    if (separator === -1) return;
+    const code = pair.slice(0, separator).trim();
+    const attributeValue = pair.slice(separator + 1).trim();
+    if (code && attributeValue) attributes.set(code, attributeValue);
+  });
+  return attributes;
+};
+
+// Every attribute code in the column, with a few example values, for the mapping screen
+export const collectAdditionalAttributeCodes = (
+  records: CsvRecord[],
+  columnIndex: number,
+  sampleCount = 3
+): { header: string; samples: string[] }[] => {
+  const samplesByCode = new Map<string, string[]>();
+  records.forEach(record => {
+    parseAdditionalAttributes(record.fields[columnIndex]).forEach((value, code) => {
+      const samples = samplesByCode.get(code) || [];
+      if (samples.length < sampleCount && !samples.includes(value)) samples.push(value);
+      samplesByCode.set(code, samples);
+    });
+  });
+  return Array.from(samplesByCode, ([header, samples]) => ({ header, samples })).sort((a, b) => a.header.localeCompare(b.header));
+};
+
+// Magento separates multiselect values with `|`
+export const formatMetafieldValue = (value: string, type: MetafieldType): string => {
+  switch (type) {
+    case 'number_integer': {
+      const number = parseInt(value.replace(',', '.'), 10);
+      return Number.isNaN(number) ? '' : String(number);
+    }
+    case 'boolean':
+      return ['1', 'yes', 'true', 'ja'].includes(value.trim().toLowerCase()) ? 'true' : 'false';
+    case 'list.single_line_text_field':
+      return value.split('|').map(part => part.trim()).filter(Boolean).join('; ');
+    case 'json':
+      return value;
+    default:
+      return value.split('|').map(part => part.trim()).filter(Boolean).join(', ');
+  }
+};
+
+export const getMetafieldColumnHeader = ({ namespace, key, type }: MetafieldDefinition): string =>
+  `Metafield: ${namespace}.${key} [${type}]`;
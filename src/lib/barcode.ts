@@ -0,0 +1,29 @@
+// GS1 barcodes Shopify accepts as Variant Barcode: EAN-8, UPC-A (12), EAN-13 and GTIN-14
+
+export const GTIN_LENGTHS = [8, 12, 13, 14];
+
+export type BarcodeValidation =
+  | { type: 'valid' }
+  | { type: 'invalid_format' }
+  | { type: 'invalid_check_digit'; expected: number };
+
+// Spaces and dashes are common in spreadsheets; anything else is kept so validation can reject it
+export const normalizeBarcode = (value: string | undefined): string =>
+  (value || '').trim().replace(/[\s-]/g, '');
+
+// Mod-10 check digit over all digits except the last, weighting 3 and 1 from the right
+export const calculateGtinCheckDigit = (digitsWithoutCheck: string): number => {
+  let sum = 0;
+  for (let i = 0; i < digitsWithoutCheck.length; i++) {
+    const digit = Number(digitsWithoutCheck[digitsWithoutCheck.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+export const validateBarcode = (value: string): BarcodeValidation => {
+  const barcode = normalizeBarcode(value);
+  if (!/^\d+$/.test(barcode) || !GTIN_LENGTHS.includes(barcode.length)) return { type: 'invalid_format' };
+  const expected = calculateGtinCheckDigit(barcode.slice(0, -1));
+  return Number(barcode[barcode.length - 1]) === expected ? { type: 'valid' } : { type: 'invalid_check_digit', expected };
+};
@@ -0,0 +1,167 @@
+// Cleans Magento descriptions for Shopify's Body (HTML): resolves {{media}} and {{store}} directives, drops widgets
+// and Page Builder wrappers and keeps only allow-listed tags and attributes. Works on strings, so it runs in the
+// import worker as well as in tests.
+
+export interface BodyHtmlCleanupOptions {
+  magentoBaseImageUrl?: string; // e.g. https://shop.example/media/catalog/product; the store and media URLs are derived from it
+}
+
+export interface BodyHtmlCleanupResult {
+  html: string;
+  changes: string[]; // what was rewritten or removed, for the product's report
+}
+
+// Attributes kept per tag; tags not listed are unwrapped (their content stays)
+export const ALLOWED_HTML_TAGS: Record<string, string[]> = {
+  p: [], br: [], hr: [], div: [], span: [],
+  h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  strong: [], b: [], em: [], i: [], u: [], s: [], sub: [], sup: [], small: [],
+  blockquote: [], pre: [], code: [],
+  ul: [], ol: [], li: [], dl: [], dt: [], dd: [],
+  a: ['href', 'title', 'target', 'rel'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  figure: [], figcaption: [],
+  table: [], caption: [], thead: [], tbody: [], tfoot: [], tr: [],
+  th: ['colspan', 'rowspan'], td: ['colspan', 'rowspan'],
+  iframe: ['src', 'width', 'height', 'title', 'allow', 'allowfullscreen'],
+};
+
+// Removed together with their content
+const DROPPED_HTML_TAGS = ['script', 'style', 'noscript', 'template', 'object', 'embed', 'form', 'button', 'select', 'textarea', 'svg'];
+
+const VOID_HTML_TAGS = ['br', 'hr', 'img', 'input', 'meta', 'link', 'source', 'wbr', 'col'];
+
+const URL_ATTRIBUTES = ['href', 'src'];
+
+export const getMagentoBaseUrls = (magentoBaseImageUrl: string | undefined): { storeUrl: string; mediaUrl: string } | undefined => {
+  if (!magentoBaseImageUrl?.trim()) return undefined;
+  try {
+    const url = new URL(magentoBaseImageUrl.trim());
+    const mediaIndex = url.pathname.search(/\/(pub\/)?media(\/|$)/);
+    const storePath = mediaIndex === -1 ? '' : url.pathname.slice(0, mediaIndex);
+    const mediaPath = mediaIndex === -1 ? '/media' : url.pathname.slice(0, url.pathname.indexOf('media', mediaIndex) + 'media'.length);
+    return { storeUrl: `${url.origin}${storePath}`, mediaUrl: `${url.origin}${mediaPath}` };
+  } catch {
+    return undefined;
+  }
+};
+
+const joinUrl = (base: string, path: string): string => `${base}/${path.replace(/^\/+/, '')}`;
+
+const getDirectiveParam = (params: string, names: string[]): string | undefined => {
+  const match = params.replace(/&quot;/g, '"').match(new RegExp(`\\b(?:${names.join('|')})\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"']+))`));
+  return match ? match[1] ?? match[2] ?? match[3] : undefined;
+};
+
+const countLabel = (count: number, singular: string): string => `${count} ${singular}${count === 1 ? '' : 's'}`;
+
+const NAMED_URL_ENTITIES: Record<string, string> = { colon: ':', tab: '\t', newline: '\n', amp: '&', sol: '/' };
+
+const decodeHtmlEntities = (value: string): string =>
+  value.replace(/&(?:#x([0-9a-f]+)|#(\d+)|([a-z]+));?/gi, (entity, hex?: string, decimal?: string, name?: string) => {
+    if (name) return NAMED_URL_ENTITIES[name.toLowerCase()] ?? entity;
+    const codePoint = hex ? parseInt(hex, 16) : Number(decimal);
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+  });
+
+// Browsers decode entities and skip whitespace and control characters inside a URL scheme ("java&#9;script:"),
+// so the scheme is checked on the value as the browser reads it. Only web and mailto links or relative URLs pass.
+const isSafeUrl = (value: string): boolean => {
+  const url = decodeHtmlEntities(value).replace(/[\u0000- \u007f-\u009f]/g, '');
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+  return scheme === undefined || ['http', 'https', 'mailto'].includes(scheme);
+};
+
+export const cleanMagentoBodyHtml = (html: string, options: BodyHtmlCleanupOptions = {}): BodyHtmlCleanupResult => {
+  if (!html) return { html: '', changes: [] };
+  const urls = getMagentoBaseUrls(options.magentoBaseImageUrl);
+  const counts = { media: 0, store: 0, unresolved: 0, widgets: 0, directives: 0, pageBuilder: 0 };
+  const droppedTags = new Set<string>();
+  const unwrappedTags = new Set<string>();
+  const droppedAttributes = new Set<string>();
+
+  // Directives first: Magento nests their quotes inside attribute values, which would confuse the tag parser
+  const resolved = html.replace(/\{\{\s*(\w+)([^}]*)\}\}/g, (_, name: string, params: string) => {
+    const directive = name.toLowerCase();
+    if (directive === 'media' || directive === 'store') {
+      const path = getDirectiveParam(params, directive === 'media' ? ['url'] : ['url', 'direct_url']) ?? '';
+      if (!urls) {
+        counts.unresolved++;
+        return '';
+      }
+      counts[directive]++;
+      return joinUrl(directive === 'media' ? urls.mediaUrl : urls.storeUrl, path);
+    }
+    if (directive === 'widget') counts.widgets++;
+    else counts.directives++;
+    return '';
+  });
+
+  const output: string[] = [];
+  const openTags: { name: string; kept: boolean }[] = [];
+  const tagPattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+  let position = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(resolved)) !== null) {
+    output.push(resolved.slice(position, match.index));
+    position = tagPattern.lastIndex;
+    const [, closing, rawName, attributeText] = match;
+    if (!rawName) continue; // comment
+    const name = rawName.toLowerCase();
+
+    if (closing) {
+      const openIndex = openTags.map(tag => tag.name).lastIndexOf(name);
+      if (openIndex === -1) continue;
+      openTags.splice(openIndex).reverse().forEach(tag => { if (tag.kept) output.push(`</${tag.name}>`); });
+      continue;
+    }
+
+    if (DROPPED_HTML_TAGS.includes(name)) {
+      droppedTags.add(name);
+      const end = resolved.slice(position).search(new RegExp(`</${name}\\s*>`, 'i'));
+      position = end === -1 ? resolved.length : position + end + resolved.slice(position + end).indexOf('>') + 1;
+      tagPattern.lastIndex = position;
+      continue;
+    }
+
+    const attributes = new Map<string, string>();
+    attributeText.replace(/([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g, (_, attribute: string, double?: string, single?: string, bare?: string) => {
+      attributes.set(attribute.toLowerCase(), double ?? single ?? bare ?? '');
+      return '';
+    });
+    const isVoid = VOID_HTML_TAGS.includes(name) || attributeText.trim().endsWith('/');
+    const allowed = ALLOWED_HTML_TAGS[name];
+    const isPageBuilder = attributes.has('data-content-type') || attributes.has('data-pb-style');
+    const isUnsafeFrame = name === 'iframe' && !/^https:\/\//i.test(attributes.get('src') || '');
+    const kept = !!allowed && !isPageBuilder && !isUnsafeFrame;
+    if (isPageBuilder) counts.pageBuilder++;
+    else if (!kept) unwrappedTags.add(name);
+
+    if (kept) {
+      attributes.forEach((_, attribute) => { if (!allowed.includes(attribute)) droppedAttributes.add(attribute); });
+      const keptAttributes = allowed
+        .filter(attribute => attributes.has(attribute))
+        .filter(attribute => !URL_ATTRIBUTES.includes(attribute) || isSafeUrl(attributes.get(attribute)!))
+        .map(attribute => {
+          const value = attributes.get(attribute)!;
+          return value === '' && attribute === 'allowfullscreen' ? ` ${attribute}` : ` ${attribute}="${value.replace(/"/g, '&quot;')}"`;
+        });
+      output.push(`<${name}${keptAttributes.join('')}>`);
+    }
+    if (!isVoid) openTags.push({ name, kept });
+  }
+  output.push(resolved.slice(position));
+  openTags.reverse().forEach(tag => { if (tag.kept) output.push(`</${tag.name}>`); });
+
+  const changes: string[] = [];
+  if (counts.media > 0) changes.push(`Resolved ${countLabel(counts.media, 'media URL')}`);
+  if (counts.store > 0) changes.push(`Resolved ${countLabel(counts.store, 'store URL')}`);
+  if (counts.unresolved > 0) changes.push(`Removed ${countLabel(counts.unresolved, 'media or store URL')} (no Magento base URL)`);
+  if (counts.widgets > 0) changes.push(`Removed ${countLabel(counts.widgets, 'widget')}`);
+  if (counts.directives > 0) changes.push(`Removed ${countLabel(counts.directives, 'other template directive')}`);
+  if (counts.pageBuilder > 0) changes.push(`Unwrapped ${countLabel(counts.pageBuilder, 'Page Builder element')}`);
+  if (droppedTags.size > 0) changes.push(`Removed ${Array.from(droppedTags).sort().map(tag => `<${tag}>`).join(', ')} with content`);
+  if (unwrappedTags.size > 0) changes.push(`Unwrapped disallowed ${Array.from(unwrappedTags).sort().map(tag => `<${tag}>`).join(', ')}`);
+  if (droppedAttributes.size > 0) changes.push(`Removed attributes ${Array.from(droppedAttributes).sort().join(', ')}`);
+  return { html: output.join('').trim(), changes };
+};
@@ -0,0 +1,102 @@
+import { arrayToCsv, type CsvFieldValue } from '@/lib/csv';
+import { slugify } from '@/lib/slug';
+
+// Magento category paths as a tree, exported as Shopify smart collections (tag rules) or custom collections (product lists)
+
+export const CATEGORY_TAG_PREFIX = 'cat:';
+
+export interface ProductCategory {
+  path: string[]; // names below the root category, e.g. ['Men', 'Shoes']
+  title: string;
+  handle: string; // unique within the file, e.g. men-shoes
+  tag: string; // added to every product in the category, e.g. cat:men-shoes
+  parentHandle?: string;
+  productHandles: string[]; // products assigned to this category itself
+}
+
+export type CollectionKind = 'smart' | 'custom';
+
+// Category handle -> kind of collection; categories without an entry are not exported
+export type CollectionSelection = Record<string, CollectionKind>;
+
+export interface CollectionExportOptions {
+  includeSubcategories: boolean; // a collection also holds the products of its subcategories, like a Magento anchor category
+}
+
+const ROOT_CATEGORY_NAME = 'default category';
+
+const getPathKey = (path: string[]): string => path.join('/');
+
+// `Default Category/Men/Shoes,Default Category/Sale` -> [['Men', 'Shoes'], ['Sale']]
+export const parseCategoryPaths = (categoriesString: string | undefined): string[][] => {
+  if (!categoriesString) return [];
+  return categoriesString.split(',')
+    .map(path => path.split('/').map(part => part.trim()).filter(part => part !== '' && part.toLowerCase() !== ROOT_CATEGORY_NAME))
+    .filter(path => path.length > 0);
+};
+
+// Every category on the given paths and their ancestors, parents before children. Handles come from the
+// slugged path and get a numeric suffix on collision, so the same file always yields the same tags.
+export const buildCategoryTree = (paths: string[][]): ProductCategory[] => {
+  const keys = new Map<string, string[]>();
+  paths.forEach(path => path.forEach((_, depth) => {
+    const ancestor = path.slice(0, depth + 1);
+    keys.set(getPathKey(ancestor), ancestor);
+  }));
+
+  const usedHandles = new Set<string>();
+  const categoriesByKey = new Map<string, ProductCategory>();
+  Array.from(keys.keys()).sort((a, b) => a.localeCompare(b)).forEach(key => {
+    const path = keys.get(key)!;
+    const base = slugify(path.join(' ')) || 'category';
+    let handle = base;
+    for (let suffix = 2; usedHandles.has(handle); suffix++) handle = `${base}-${suffix}`;
+    usedHandles.add(handle);
+    categoriesByKey.set(key, {
+      path,
+      title: path[path.length - 1],
+      handle,
+      tag: `${CATEGORY_TAG_PREFIX}${handle}`,
+      parentHandle: path.length > 1 ? categoriesByKey.get(getPathKey(path.slice(0, -1)))?.handle : undefined,
+      productHandles: [],
+    });
+  });
+  return Array.from(categoriesByKey.values());
+};
+
+export const createCategoryLookup = (categories: ProductCategory[]) => {
+  const categoriesByKey = new Map(categories.map(category => [getPathKey(category.path), category]));
+  return (path: string[]): ProductCategory | undefined => categoriesByKey.get(getPathKey(path));
+};
+
+// The category and, when subcategories are included, everything below it
+const getCollectionCategories = (categories: ProductCategory[], category: ProductCategory, options: CollectionExportOptions): ProductCategory[] => {
+  if (!options.includeSubcategories) return [category];
+  const key = getPathKey(category.path);
+  return categories.filter(candidate => getPathKey(candidate.path) === key || getPathKey(candidate.path).startsWith(`${key}/`));
+};
+
+// One row per rule in the smart collections layout (Matrixify), matching any of the category tags
+export const generateSmartCollectionsCsv = (categories: ProductCategory[], selection: CollectionSelection, options: CollectionExportOptions): string => {
+  const headers = ['Handle', 'Title', 'Published', 'Must Match', 'Rule: Product Column', 'Rule: Relation', 'Rule: Condition'];
+  const csvData: CsvFieldValue[][] = [];
+  categories.filter(category => selection[category.handle] === 'smart').forEach(category => {
+    getCollectionCategories(categories, category, options).forEach((member, i) => {
+      csvData.push([category.handle, i === 0 ? category.title : '', i === 0 ? 'TRUE' : '', 'any condition', 'Tag', 'Equals', member.tag]);
+    });
+  });
+  return arrayToCsv(headers, csvData);
+};
+
+// One row per product in the custom collections layout (Matrixify)
+export const generateCustomCollectionsCsv = (categories: ProductCategory[], selection: CollectionSelection, options: CollectionExportOptions): string => {
+  const headers = ['Handle', 'Title', 'Published', 'Product: Handle'];
+  const csvData: CsvFieldValue[][] = [];
+  categories.filter(category => selection[category.handle] === 'custom').forEach(category => {
+    const productHandles = new Set(getCollectionCategories(categories, category, options).flatMap(member => member.productHandles));
+    Array.from(productHandles).forEach((productHandle, i) => {
+      csvData.push([category.handle, i === 0 ? category.title : '', i === 0 ? 'TRUE' : '', productHandle]);
+    });
+  });
+  return arrayToCsv(headers, csvData);
+};
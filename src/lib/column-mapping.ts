@@ -0,0 +1,198 @@
+import type { CsvRecord } from '@/lib/csv';
+import { collectAdditionalAttributeCodes } from '@/lib/additional-attributes';
+
+// Column mapping between Magento export headers and the fields the converters fill.
+// Without an explicit mapping the converters fall back to the alias lists below.
+
+export type MappingEntity = 'customer' | 'product';
+
+export interface MappingFieldDefinition {
+  key: string;
+  label: string; // Shopify field (or behaviour) the column feeds
+  aliases: string[]; // Magento header names, in order of preference
+  required?: boolean;
+}
+
+export type ColumnMappingTarget =
+  | { kind: 'field'; field: string }
+  | { kind: 'ignore' }
+  | { kind: 'tags' }
+  | { kind: 'note' };
+
+// Keyed by the normalized (lower-cased, trimmed) source header
+export type ColumnMapping = Record<string, ColumnMappingTarget>;
+
+export interface SourceColumnPreview {
+  header: string;
+  samples: string[];
+}
+
+export interface ColumnMappingPreview {
+  entity: MappingEntity;
+  columns: SourceColumnPreview[];
+  proposedMapping: ColumnMapping;
+  additionalAttributes?: SourceColumnPreview[]; // products: attribute codes found in the additional_attributes column
+}
+
+export const CUSTOMER_MAPPING_FIELDS: MappingFieldDefinition[] = [
+  { key: 'email', label: 'Email', aliases: ['email'] },
+  { key: 'firstName', label: 'First Name', aliases: ['firstname', 'first_name', 'first name'] },
+  { key: 'lastName', label: 'Last Name', aliases: ['lastname', 'last_name', 'last name'] },
+  { key: 'address1', label: 'Address 1', aliases: ['company_address', 'street', 'address', 'address1', 'billing_street', 'shipping_street'] },
+  { key: 'address2', label: 'Address 2', aliases: ['address2', 'street2', 'billing_street2', 'shipping_street2'] },
+  { key: 'company', label: 'Company', aliases: ['company_name', 'company'] },
+  { key: 'contactPerson', label: 'Contact Person (split into first/last name)', aliases: ['contact_person'] },
+  { key: 'phone', label: 'Phone', aliases: ['contact_phone', 'telephone', 'phone', 'billing_telephone', 'shipping_telephone'] },
+  { key: 'country', label: 'Country', aliases: ['land', 'country_id', 'country', 'country_code', 'billing_country_id', 'shipping_country_id'] },
+  { key: 'city', label: 'City', aliases: ['plaats', 'city', 'billing_city', 'shipping_city'] },
+  { key: 'zip', label: 'Zip', aliases: ['postcode', 'zip', 'zip_code', 'postal_code', 'billing_postcode', 'shipping_postcode'] },
+  { key: 'province', label: 'Province', aliases: ['province', 'state', 'region', 'billing_region', 'shipping_region'] },
+  { key: 'provinceCode', label: 'Province Code', aliases: ['province_code', 'state_code', 'region_code', 'billing_region_id', 'shipping_region_id'] },
+  { key: 'website', label: 'Tag: magento_website', aliases: ['_website', 'website'] },
+  { key: 'store', label: 'Tag: magento_store', aliases: ['_store', 'store'] },
+  { key: 'groupId', label: 'Tag: magento_group_id', aliases: ['group_id', 'customer_group'] },
+  { key: 'createdAt', label: 'Tag: magento_created_at', aliases: ['created_at'] },
+  { key: 'note', label: 'Note', aliases: ['notes', 'note', 'customer_notes'] },
+  { key: 'vatNumber', label: 'Tag: magento_vat_number (marks tax exempt)', aliases: ['vat_number', 'taxvat', 'billing_taxvat', 'shipping_taxvat'] },
+];
+
+export const PRODUCT_MAPPING_FIELDS: MappingFieldDefinition[] = [
+  { key: 'sku', label: 'Variant SKU (Handle without URL key)', aliases: ['sku'], required: true },
+  { key: 'name', label: 'Title', aliases: ['name'] },
+  { key: 'description', label: 'Body (HTML)', aliases: ['description'] },
+  { key: 'shortDescription', label: 'Short description (Body / SEO fallback)', aliases: ['short_description'] },
+  { key: 'price', label: 'Variant Price', aliases: ['price'] },
+  { key: 'specialPrice', label: 'Sale price (Variant Price, regular price to Compare At)', aliases: ['special_price'] },
+  { key: 'specialPriceFromDate', label: 'Sale price from date', aliases: ['special_price_from_date', 'special_from_date'] },
+  { key: 'specialPriceToDate', label: 'Sale price to date', aliases: ['special_price_to_date', 'special_to_date'] },
+  { key: 'msrp', label: 'MSRP (Variant Compare At Price)', aliases: ['msrp'] },
+  { key: 'cost', label: 'Cost per item', aliases: ['cost'] },
+  { key: 'tierPrices', label: 'Tier prices (B2B price lists)', aliases: ['tier_prices', 'tier_price'] },
+  { key: 'groupPrices', label: 'Customer group prices (B2B price lists)', aliases: ['group_prices', 'group_price', 'customer_group_prices'] },
+  { key: 'barcode', label: 'Variant Barcode (EAN/UPC/GTIN)', aliases: ['barcode', 'ean', 'gtin', 'upc', 'ean13', 'ean_code', 'upc_code'] },
+  { key: 'qty', label: 'Variant Inventory Qty', aliases: ['qty', 'quantity'] },
+  { key: 'isInStock', label: 'Stock status (is in stock)', aliases: ['is_in_stock'] },
+  { key: 'manageStock', label: 'Manage stock (Variant Inventory Tracker)', aliases: ['manage_stock'] },
+  { key: 'useConfigManageStock', label: 'Use config manage stock', aliases: ['use_config_manage_stock'] },
+  { key: 'allowBackorders', label: 'Backorders (Variant Inventory Policy)', aliases: ['allow_backorders'] },
+  { key: 'outOfStockQty', label: 'Out-of-stock threshold', aliases: ['out_of_stock_qty'] },
+  { key: 'categories', label: 'Tags (from category paths)', aliases: ['categories'] },
+  { key: 'baseImage', label: 'Image Src', aliases: ['base_image', 'image'] },
+  { key: 'baseImageLabel', label: 'Image Alt Text', aliases: ['base_image_label', 'image_label'] },
+  { key: 'additionalImages', label: 'Additional images', aliases: ['additional_images'] },
+  { key: 'additionalImageLabels', label: 'Additional image labels', aliases: ['additional_image_labels'] },
+  { key: 'smallImage', label: 'Small image (extra image)', aliases: ['small_image'] },
+  { key: 'smallImageLabel', label: 'Small image label', aliases: ['small_image_label'] },
+  { key: 'thumbnailImage', label: 'Thumbnail image (extra image)', aliases: ['thumbnail_image', 'thumbnail'] },
+  { key: 'thumbnailImageLabel', label: 'Thumbnail image label', aliases: ['thumbnail_image_label', 'thumbnail_label'] },
+  { key: 'swatchImage', label: 'Swatch image (extra image)', aliases: ['swatch_image'] },
+  { key: 'swatchImageLabel', label: 'Swatch image label', aliases: ['swatch_image_label'] },
+  { key: 'productType', label: 'Magento product type', aliases: ['product_type', 'type_id'] },
+  { key: 'visibility', label: 'Published (visibility)', aliases: ['visibility'] },
+  { key: 'taxClass', label: 'Variant Taxable (tax class)', aliases: ['tax_class_name', 'tax_class_id'] },
+  { key: 'weight', label: 'Variant Weight', aliases: ['weight'] },
+  { key: 'metaTitle', label: 'SEO Title', aliases: ['meta_title'] },
+  { key: 'metaDescription', label: 'SEO Description', aliases: ['meta_description'] },
+  { key: 'attributeSetCode', label: 'Vendor / Type (attribute set)', aliases: ['attribute_set_code'] },
+  { key: 'customOptions', label: 'Custom options (variants or line item properties)', aliases: ['custom_options'] },
+  { key: 'additionalAttributes', label: 'Additional attributes (metafields, tags or options)', aliases: ['additional_attributes'] },
+  { key: 'urlKey', label: 'Handle (URL key) and redirects', aliases: ['url_key'] },
+  { key: 'urlPath', label: 'Old URL path (redirects)', aliases: ['url_path'] },
+  { key: 'storeViewCode', label: 'Store view (translations)', aliases: ['store_view_code'] },
+  { key: 'productOnline', label: 'Published (status)', aliases: ['product_online', 'status'] },
+  { key: 'configurableVariations', label: 'Configurable variations', aliases: ['configurable_variations'] },
+  { key: 'configurableVariationLabels', label: 'Configurable variation labels', aliases: ['configurable_variation_labels'] },
+  { key: 'associatedSkus', label: 'Grouped product children', aliases: ['associated_skus'] },
+  { key: 'bundleValues', label: 'Bundle selections', aliases: ['bundle_values'] },
+  { key: 'bundlePriceType', label: 'Bundle price type', aliases: ['bundle_price_type'] },
+  { key: 'bundleWeightType', label: 'Bundle weight type', aliases: ['bundle_weight_type'] },
+];
+
+export const MAPPING_FIELDS: Record<MappingEntity, MappingFieldDefinition[]> = {
+  customer: CUSTOMER_MAPPING_FIELDS,
+  product: PRODUCT_MAPPING_FIELDS,
+};
+
+// Products have no note field, so only customers can send columns to notes
+export const supportsNoteTarget = (entity: MappingEntity): boolean => entity === 'customer';
+
+export const normalizeHeader = (header: string): string => header.toLowerCase().trim();
+
+// Proposes a mapping from the alias lists: each field takes its first matching header, other columns are ignored
+export const proposeColumnMapping = (headers: string[], fields: MappingFieldDefinition[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  for (const field of fields) {
+    for (const alias of field.aliases) {
+      const header = normalizeHeader(alias);
+      if (headers.includes(header) && !mapping[header]) {
+        mapping[header] = { kind: 'field', field: field.key };
+        break;
+      }
+    }
+  }
+  headers.forEach(header => {
+    if (!mapping[header]) mapping[header] = { kind: 'ignore' };
+  });
+  return mapping;
+};
+
+// Returns a lookup from field key to column index, using the explicit mapping when one is given
+export const createHeaderIndexFinder = (headers: string[], fields: MappingFieldDefinition[], mapping?: ColumnMapping) => {
+  if (mapping) {
+    return (key: string): number =>
+      headers.findIndex(header => {
+        const target = mapping[header];
+        return target?.kind === 'field' && target.field === key;
+      });
+  }
+  return (key: string): number => {
+    const aliases = fields.find(field => field.key === key)?.aliases || [];
+    for (const alias of aliases) {
+      const index = headers.indexOf(normalizeHeader(alias));
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+};
+
+export const getHeadersWithTarget = (headers: string[], mapping: ColumnMapping | undefined, kind: 'tags' | 'note'): string[] =>
+  mapping ? headers.filter(header => mapping[header]?.kind === kind) : [];
+
+export const getMissingRequiredFields = (mapping: ColumnMapping, fields: MappingFieldDefinition[]): MappingFieldDefinition[] =>
+  fields.filter(field => field.required && !Object.values(mapping).some(target => target.kind === 'field' && target.field === field.key));
+
+export const buildColumnMappingPreview = (
+  entity: MappingEntity,
+  records: CsvRecord[],
+  headerRowIndex: number,
+  sampleCount = 3
+): ColumnMappingPreview => {
+  const headers = records[headerRowIndex].fields.map(normalizeHeader);
+  const columns = headers.map((header, columnIndex) => {
+    const samples: string[] = [];
+    for (let i = headerRowIndex + 1; i < records.length && samples.length < sampleCount; i++) {
+      const value = records[i].fields[columnIndex]?.trim();
+      if (value) samples.push(value);
+    }
+    return { header, samples };
+  });
+  const proposedMapping = proposeColumnMapping(headers, MAPPING_FIELDS[entity]);
+  const attributesColumnIndex = headers.findIndex(header => {
+    const target = proposedMapping[header];
+    return target.kind === 'field' && target.field === 'additionalAttributes';
+  });
+  const additionalAttributes = attributesColumnIndex !== -1
+    ? collectAdditionalAttributeCodes(records.slice(headerRowIndex + 1), attributesColumnIndex, sampleCount)
+    : undefined;
+  return { entity, columns, proposedMapping, additionalAttributes };
+};
+
+// Select values used by the mapping screen
+export const encodeMappingTarget = (target: ColumnMappingTarget): string =>
+  target.kind === 'field' ? `field:${target.field}` : target.kind;
+
+export const decodeMappingTarget = (value: string): ColumnMappingTarget => {
+  if (value.startsWith('field:')) return { kind: 'field', field: value.slice('field:'.length) };
+  if (value === 'tags' || value === 'note') return { kind: value };
+  return { kind: 'ignore' };
+};
@@ -0,0 +1,399 @@
+// Offline ISO 3166-1 countries with English, Dutch, German and French names, and the ISO 3166-2 subdivisions
+// Shopify asks a province for (US states and territories, Canadian provinces). Magento exports mix codes and names.
+
+export const COUNTRY_NAME_LOCALES = ['en', 'nl', 'de', 'fr'] as const;
+
+export type CountryNameLocale = typeof COUNTRY_NAME_LOCALES[number];
+
+export interface Country {
+  code: string; // ISO 3166-1 alpha-2, as Shopify expects it
+  alpha3: string;
+  names: Record<CountryNameLocale, string>;
+}
+
+// alpha-2, alpha-3, then the names in the order of COUNTRY_NAME_LOCALES
+type CountryRow = [string, string, string, string, string, string];
+
+const COUNTRY_ROWS: CountryRow[] = [
+  ['AD', 'AND', 'Andorra', 'Andorra', 'Andorra', 'Andorre'],
+  ['AE', 'ARE', 'United Arab Emirates', 'Verenigde Arabische Emiraten', 'Vereinigte Arabische Emirate', 'Émirats arabes unis'],
+  ['AF', 'AFG', 'Afghanistan', 'Afghanistan', 'Afghanistan', 'Afghanistan'],
+  ['AG', 'ATG', 'Antigua and Barbuda', 'Antigua en Barbuda', 'Antigua und Barbuda', 'Antigua-et-Barbuda'],
+  ['AI', 'AIA', 'Anguilla', 'Anguilla', 'Anguilla', 'Anguilla'],
+  ['AL', 'ALB', 'Albania', 'Albanië', 'Albanien', 'Albanie'],
+  ['AM', 'ARM', 'Armenia', 'Armenië', 'Armenien', 'Arménie'],
+  ['AO', 'AGO', 'Angola', 'Angola', 'Angola', 'Angola'],
+  ['AQ', 'ATA', 'Antarctica', 'Antarctica', 'Antarktis', 'Antarctique'],
+  ['AR', 'ARG', 'Argentina', 'Argentinië', 'Argentinien', 'Argentine'],
+  ['AS', 'ASM', 'American Samoa', 'Amerikaans-Samoa', 'Amerikanisch-Samoa', 'Samoa américaines'],
+  ['AT', 'AUT', 'Austria', 'Oostenrijk', 'Österreich', 'Autriche'],
+  ['AU', 'AUS', 'Australia', 'Australië', 'Australien', 'Australie'],
+  ['AW', 'ABW', 'Aruba', 'Aruba', 'Aruba', 'Aruba'],
+  ['AX', 'ALA', 'Åland Islands', 'Åland', 'Ålandinseln', 'Îles Åland'],
+  ['AZ', 'AZE', 'Azerbaijan', 'Azerbeidzjan', 'Aserbaidschan', 'Azerbaïdjan'],
+  ['BA', 'BIH', 'Bosnia and Herzegovina', 'Bosnië en Herzegovina', 'Bosnien und Herzegowina', 'Bosnie-Herzégovine'],
+  ['BB', 'BRB', 'Barbados', 'Barbados', 'Barbados', 'Barbade'],
+  ['BD', 'BGD', 'Bangladesh', 'Bangladesh', 'Bangladesch', 'Bangladesh'],
+  ['BE', 'BEL', 'Belgium', 'België', 'Belgien', 'Belgique'],
+  ['BF', 'BFA', 'Burkina Faso', 'Burkina Faso', 'Burkina Faso', 'Burkina Faso'],
+  ['BG', 'BGR', 'Bulgaria', 'Bulgarije', 'Bulgarien', 'Bulgarie'],
+  ['BH', 'BHR', 'Bahrain', 'Bahrein', 'Bahrain', 'Bahreïn'],
+  ['BI', 'BDI', 'Burundi', 'Burundi', 'Burundi', 'Burundi'],
+  ['BJ', 'BEN', 'Benin', 'Benin', 'Benin', 'Bénin'],
+  ['BL', 'BLM', 'Saint Barthélemy', 'Saint-Barthélemy', 'St. Barthélemy', 'Saint-Barthélemy'],
+  ['BM', 'BMU', 'Bermuda', 'Bermuda', 'Bermuda', 'Bermudes'],
+  ['BN', 'BRN', 'Brunei', 'Brunei', 'Brunei Darussalam', 'Brunéi Darussalam'],
+  ['BO', 'BOL', 'Bolivia', 'Bolivia', 'Bolivien', 'Bolivie'],
+  ['BQ', 'BES', 'Caribbean Netherlands', 'Caribisch Nederland', 'Karibische Niederlande', 'Pays-Bas caribéens'],
+  ['BR', 'BRA', 'Brazil', 'Brazilië', 'Brasilien', 'Brésil'],
+  ['BS', 'BHS', 'Bahamas', "Bahama's", 'Bahamas', 'Bahamas'],
+  ['BT', 'BTN', 'Bhutan', 'Bhutan', 'Bhutan', 'Bhoutan'],
+  ['BV', 'BVT', 'Bouvet Island', 'Bouveteiland', 'Bouvetinsel', 'Île Bouvet'],
+  ['BW', 'BWA', 'Botswana', 'Botswana', 'Botsuana', 'Botswana'],
+  ['BY', 'BLR', 'Belarus', 'Belarus', 'Belarus', 'Biélorussie'],
+  ['BZ', 'BLZ', 'Belize', 'Belize', 'Belize', 'Belize'],
+  ['CA', 'CAN', 'Canada', 'Canada', 'Kanada', 'Canada'],
+  ['CC', 'CCK', 'Cocos (Keeling) Islands', 'Cocoseilanden', 'Kokosinseln', 'Îles Cocos'],
+  ['CD', 'COD', 'Democratic Republic of the Congo', 'Democratische Republiek Congo', 'Demokratische Republik Kongo', 'République démocratique du Congo'],
+  ['CF', 'CAF', 'Central African Republic', 'Centraal-Afrikaanse Republiek', 'Zentralafrikanische Republik', 'République centrafricaine'],
+  ['CG', 'COG', 'Republic of the Congo', 'Congo-Brazzaville', 'Republik Kongo', 'Congo'],
+  ['CH', 'CHE', 'Switzerland', 'Zwitserland', 'Schweiz', 'Suisse'],
+  ['CI', 'CIV', "Côte d'Ivoire", 'Ivoorkust', "Côte d'Ivoire", "Côte d'Ivoire"],
+  ['CK', 'COK', 'Cook Islands', 'Cookeilanden', 'Cookinseln', 'Îles Cook'],
+  ['CL', 'CHL', 'Chile', 'Chili', 'Chile', 'Chili'],
+  ['CM', 'CMR', 'Cameroon', 'Kameroen', 'Kamerun', 'Cameroun'],
+  ['CN', 'CHN', 'China', 'China', 'China', 'Chine'],
+  ['CO', 'COL', 'Colombia', 'Colombia', 'Kolumbien', 'Colombie'],
+  ['CR', 'CRI', 'Costa Rica', 'Costa Rica', 'Costa Rica', 'Costa Rica'],
+  ['CU', 'CUB', 'Cuba', 'Cuba', 'Kuba', 'Cuba'],
+  ['CV', 'CPV', 'Cape Verde', 'Kaapverdië', 'Cabo Verde', 'Cap-Vert'],
+  ['CW', 'CUW', 'Curaçao', 'Curaçao', 'Curaçao', 'Curaçao'],
+  ['CX', 'CXR', 'Christmas Island', 'Christmaseiland', 'Weihnachtsinsel', 'Île Christmas'],
+  ['CY', 'CYP', 'Cyprus', 'Cyprus', 'Zypern', 'Chypre'],
+  ['CZ', 'CZE', 'Czechia', 'Tsjechië', 'Tschechien', 'Tchéquie'],
+  ['DE', 'DEU', 'Germany', 'Duitsland', 'Deutschland', 'Allemagne'],
+  ['DJ', 'DJI', 'Djibouti', 'Djibouti', 'Dschibuti', 'Djibouti'],
+  ['DK', 'DNK', 'Denmark', 'Denemarken', 'Dänemark', 'Danemark'],
+  ['DM', 'DMA', 'Dominica', 'Dominica', 'Dominica', 'Dominique'],
+  ['DO', 'DOM', 'Dominican Republic', 'Dominicaanse Republiek', 'Dominikanische Republik', 'République dominicaine'],
+  ['DZ', 'DZA', 'Algeria', 'Algerije', 'Algerien', 'Algérie'],
+  ['EC', 'ECU', 'Ecuador', 'Ecuador', 'Ecuador', 'Équateur'],
+  ['EE', 'EST', 'Estonia', 'Estland', 'Estland', 'Estonie'],
+  ['EG', 'EGY', 'Egypt', 'Egypte', 'Ägypten', 'Égypte'],
+  ['EH', 'ESH', 'Western Sahara', 'Westelijke Sahara', 'Westsahara', 'Sahara occidental'],
+  ['ER', 'ERI', 'Eritrea', 'Eritrea', 'Eritrea', 'Érythrée'],
+  ['ES', 'ESP', 'Spain', 'Spanje', 'Spanien', 'Espagne'],
+  ['ET', 'ETH', 'Ethiopia', 'Ethiopië', 'Äthiopien', 'Éthiopie'],
+  ['FI', 'FIN', 'Finland', 'Finland', 'Finnland', 'Finlande'],
+  ['FJ', 'FJI', 'Fiji', 'Fiji', 'Fidschi', 'Fidji'],
+  ['FK', 'FLK', 'Falkland Islands', 'Falklandeilanden', 'Falklandinseln', 'Îles Malouines'],
+  ['FM', 'FSM', 'Micronesia', 'Micronesia', 'Mikronesien', 'Micronésie'],
+  ['FO', 'FRO', 'Faroe Islands', 'Faeröer', 'Färöer', 'Îles Féroé'],
+  ['FR', 'FRA', 'France', 'Frankrijk', 'Frankreich', 'France'],
+  ['GA', 'GAB', 'Gabon', 'Gabon', 'Gabun', 'Gabon'],
+  ['GB', 'GBR', 'United Kingdom', 'Verenigd Koninkrijk', 'Vereinigtes Königreich', 'Royaume-Uni'],
+  ['GD', 'GRD', 'Grenada', 'Grenada', 'Grenada', 'Grenade'],
+  ['GE', 'GEO', 'Georgia', 'Georgië', 'Georgien', 'Géorgie'],
+  ['GF', 'GUF', 'French Guiana', 'Frans-Guyana', 'Französisch-Guayana', 'Guyane française'],
+  ['GG', 'GGY', 'Guernsey', 'Guernsey', 'Guernsey', 'Guernesey'],
+  ['GH', 'GHA', 'Ghana', 'Ghana', 'Ghana', 'Ghana'],
+  ['GI', 'GIB', 'Gibraltar', 'Gibraltar', 'Gibraltar', 'Gibraltar'],
+  ['GL', 'GRL', 'Greenland', 'Groenland', 'Grönland', 'Groenland'],
+  ['GM', 'GMB', 'Gambia', 'Gambia', 'Gambia', 'Gambie'],
+  ['GN', 'GIN', 'Guinea', 'Guinee', 'Guinea', 'Guinée'],
+  ['GP', 'GLP', 'Guadeloupe', 'Guadeloupe', 'Guadeloupe', 'Guadeloupe'],
+  ['GQ', 'GNQ', 'Equatorial Guinea', 'Equatoriaal-Guinea', 'Äquatorialguinea', 'Guinée équatoriale'],
+  ['GR', 'GRC', 'Greece', 'Griekenland', 'Griechenland', 'Grèce'],
+  ['GS', 'SGS', 'South Georgia and the South Sandwich Islands', 'Zuid-Georgia en de Zuidelijke Sandwicheilanden', 'Südgeorgien und die Südlichen Sandwichinseln', 'Géorgie du Sud-et-les îles Sandwich du Sud'],
+  ['GT', 'GTM', 'Guatemala', 'Guatemala', 'Guatemala', 'Guatemala'],
+  ['GU', 'GUM', 'Guam', 'Guam', 'Guam', 'Guam'],
+  ['GW', 'GNB', 'Guinea-Bissau', 'Guinee-Bissau', 'Guinea-Bissau', 'Guinée-Bissau'],
+  ['GY', 'GUY', 'Guyana', 'Guyana', 'Guyana', 'Guyana'],
+  ['HK', 'HKG', 'Hong Kong', 'Hongkong', 'Hongkong', 'Hong Kong'],
+  ['HM', 'HMD', 'Heard Island and McDonald Islands', 'Heard en McDonaldeilanden', 'Heard und McDonaldinseln', 'Îles Heard-et-MacDonald'],
+  ['HN', 'HND', 'Honduras', 'Honduras', 'Honduras', 'Honduras'],
+  ['HR', 'HRV', 'Croatia', 'Kroatië', 'Kroatien', 'Croatie'],
+  ['HT', 'HTI', 'Haiti', 'Haïti', 'Haiti', 'Haïti'],
+  ['HU', 'HUN', 'Hungary', 'Hongarije', 'Ungarn', 'Hongrie'],
+  ['ID', 'IDN', 'Indonesia', 'Indonesië', 'Indonesien', 'Indonésie'],
+  ['IE', 'IRL', 'Ireland', 'Ierland', 'Irland', 'Irlande'],
+  ['IL', 'ISR', 'Israel', 'Israël', 'Israel', 'Israël'],
+  ['IM', 'IMN', 'Isle of Man', 'Man', 'Isle of Man', 'Île de Man'],
+  ['IN', 'IND', 'India', 'India', 'Indien', 'Inde'],
+  ['IO', 'IOT', 'British Indian Ocean Territory', 'Brits Indische Oceaanterritorium', 'Britisches Territorium im Indischen Ozean', "Territoire britannique de l'océan Indien"],
+  ['IQ', 'IRQ', 'Iraq', 'Irak', 'Irak', 'Irak'],
+  ['IR', 'IRN', 'Iran', 'Iran', 'Iran', 'Iran'],
+  ['IS', 'ISL', 'Iceland', 'IJsland', 'Island', 'Islande'],
+  ['IT', 'ITA', 'Italy', 'Italië', 'Italien', 'Italie'],
+  ['JE', 'JEY', 'Jersey', 'Jersey', 'Jersey', 'Jersey'],
+  ['JM', 'JAM', 'Jamaica', 'Jamaica', 'Jamaika', 'Jamaïque'],
+  ['JO', 'JOR', 'Jordan', 'Jordanië', 'Jordanien', 'Jordanie'],
+  ['JP', 'JPN', 'Japan', 'Japan', 'Japan', 'Japon'],
+  ['KE', 'KEN', 'Kenya', 'Kenia', 'Kenia', 'Kenya'],
+  ['KG', 'KGZ', 'Kyrgyzstan', 'Kirgizië', 'Kirgisistan', 'Kirghizistan'],
+  ['KH', 'KHM', 'Cambodia', 'Cambodja', 'Kambodscha', 'Cambodge'],
+  ['KI', 'KIR', 'Kiribati', 'Kiribati', 'Kiribati', 'Kiribati'],
+  ['KM', 'COM', 'Comoros', 'Comoren', 'Komoren', 'Comores'],
+  ['KN', 'KNA', 'Saint Kitts and Nevis', 'Saint Kitts en Nevis', 'St. Kitts und Nevis', 'Saint-Christophe-et-Niévès'],
+  ['KP', 'PRK', 'North Korea', 'Noord-Korea', 'Nordkorea', 'Corée du Nord'],
+  ['KR', 'KOR', 'South Korea', 'Zuid-Korea', 'Südkorea', 'Corée du Sud'],
+  ['KW', 'KWT', 'Kuwait', 'Koeweit', 'Kuwait', 'Koweït'],
+  ['KY', 'CYM', 'Cayman Islands', 'Kaaimaneilanden', 'Kaimaninseln', 'Îles Caïmans'],
+  ['KZ', 'KAZ', 'Kazakhstan', 'Kazachstan', 'Kasachstan', 'Kazakhstan'],
+  ['LA', 'LAO', 'Laos', 'Laos', 'Laos', 'Laos'],
+  ['LB', 'LBN', 'Lebanon', 'Libanon', 'Libanon', 'Liban'],
+  ['LC', 'LCA', 'Saint Lucia', 'Saint Lucia', 'St. Lucia', 'Sainte-Lucie'],
+  ['LI', 'LIE', 'Liechtenstein', 'Liechtenstein', 'Liechtenstein', 'Liechtenstein'],
+  ['LK', 'LKA', 'Sri Lanka', 'Sri Lanka', 'Sri Lanka', 'Sri Lanka'],
+  ['LR', 'LBR', 'Liberia', 'Liberia', 'Liberia', 'Libéria'],
+  ['LS', 'LSO', 'Lesotho', 'Lesotho', 'Lesotho', 'Lesotho'],
+  ['LT', 'LTU', 'Lithuania', 'Litouwen', 'Litauen', 'Lituanie'],
+  ['LU', 'LUX', 'Luxembourg', 'Luxemburg', 'Luxemburg', 'Luxembourg'],
+  ['LV', 'LVA', 'Latvia', 'Letland', 'Lettland', 'Lettonie'],
+  ['LY', 'LBY', 'Libya', 'Libië', 'Libyen', 'Libye'],
+  ['MA', 'MAR', 'Morocco', 'Marokko', 'Marokko', 'Maroc'],
+  ['MC', 'MCO', 'Monaco', 'Monaco', 'Monaco', 'Monaco'],
+  ['MD', 'MDA', 'Moldova', 'Moldavië', 'Moldau', 'Moldavie'],
+  ['ME', 'MNE', 'Montenegro', 'Montenegro', 'Montenegro', 'Monténégro'],
+  ['MF', 'MAF', 'Saint Martin', 'Saint-Martin', 'St. Martin', 'Saint-Martin'],
+  ['MG', 'MDG', 'Madagascar', 'Madagaskar', 'Madagaskar', 'Madagascar'],
+  ['MH', 'MHL', 'Marshall Islands', 'Marshalleilanden', 'Marshallinseln', 'Îles Marshall'],
+  ['MK', 'MKD', 'North Macedonia', 'Noord-Macedonië', 'Nordmazedonien', 'Macédoine du Nord'],
+  ['ML', 'MLI', 'Mali', 'Mali', 'Mali', 'Mali'],
+  ['MM', 'MMR', 'Myanmar', 'Myanmar', 'Myanmar', 'Myanmar'],
+  ['MN', 'MNG', 'Mongolia', 'Mongolië', 'Mongolei', 'Mongolie'],
+  ['MO', 'MAC', 'Macao', 'Macau', 'Macau', 'Macao'],
+  ['MP', 'MNP', 'Northern Mariana Islands', 'Noordelijke Marianen', 'Nördliche Marianen', 'Îles Mariannes du Nord'],
+  ['MQ', 'MTQ', 'Martinique', 'Martinique', 'Martinique', 'Martinique'],
+  ['MR', 'MRT', 'Mauritania', 'Mauritanië', 'Mauretanien', 'Mauritanie'],
+  ['MS', 'MSR', 'Montserrat', 'Montserrat', 'Montserrat', 'Montserrat'],
+  ['MT', 'MLT', 'Malta', 'Malta', 'Malta', 'Malte'],
+  ['MU', 'MUS', 'Mauritius', 'Mauritius', 'Mauritius', 'Maurice'],
+  ['MV', 'MDV', 'Maldives', 'Maldiven', 'Malediven', 'Maldives'],
+  ['MW', 'MWI', 'Malawi', 'Malawi', 'Malawi', 'Malawi'],
+  ['MX', 'MEX', 'Mexico', 'Mexico', 'Mexiko', 'Mexique'],
+  ['MY', 'MYS', 'Malaysia', 'Maleisië', 'Malaysia', 'Malaisie'],
+  ['MZ', 'MOZ', 'Mozambique', 'Mozambique', 'Mosambik', 'Mozambique'],
+  ['NA', 'NAM', 'Namibia', 'Namibië', 'Namibia', 'Namibie'],
+  ['NC', 'NCL', 'New Caledonia', 'Nieuw-Caledonië', 'Neukaledonien', 'Nouvelle-Calédonie'],
+  ['NE', 'NER', 'Niger', 'Niger', 'Niger', 'Niger'],
+  ['NF', 'NFK', 'Norfolk Island', 'Norfolk', 'Norfolkinsel', 'Île Norfolk'],
+  ['NG', 'NGA', 'Nigeria', 'Nigeria', 'Nigeria', 'Nigéria'],
+  ['NI', 'NIC', 'Nicaragua', 'Nicaragua', 'Nicaragua', 'Nicaragua'],
+  ['NL', 'NLD', 'Netherlands', 'Nederland', 'Niederlande', 'Pays-Bas'],
+  ['NO', 'NOR', 'Norway', 'Noorwegen', 'Norwegen', 'Norvège'],
+  ['NP', 'NPL', 'Nepal', 'Nepal', 'Nepal', 'Népal'],
+  ['NR', 'NRU', 'Nauru', 'Nauru', 'Nauru', 'Nauru'],
+  ['NU', 'NIU', 'Niue', 'Niue', 'Niue', 'Niue'],
+  ['NZ', 'NZL', 'New Zealand', 'Nieuw-Zeeland', 'Neuseeland', 'Nouvelle-Zélande'],
+  ['OM', 'OMN', 'Oman', 'Oman', 'Oman', 'Oman'],
+  ['PA', 'PAN', 'Panama', 'Panama', 'Panama', 'Panama'],
+  ['PE', 'PER', 'Peru', 'Peru', 'Peru', 'Pérou'],
+  ['PF', 'PYF', 'French Polynesia', 'Frans-Polynesië', 'Französisch-Polynesien', 'Polynésie française'],
+  ['PG', 'PNG', 'Papua New Guinea', 'Papoea-Nieuw-Guinea', 'Papua-Neuguinea', 'Papouasie-Nouvelle-Guinée'],
+  ['PH', 'PHL', 'Philippines', 'Filipijnen', 'Philippinen', 'Philippines'],
+  ['PK', 'PAK', 'Pakistan', 'Pakistan', 'Pakistan', 'Pakistan'],
+  ['PL', 'POL', 'Poland', 'Polen', 'Polen', 'Pologne'],
+  ['PM', 'SPM', 'Saint Pierre and Miquelon', 'Saint-Pierre en Miquelon', 'St. Pierre und Miquelon', 'Saint-Pierre-et-Miquelon'],
+  ['PN', 'PCN', 'Pitcairn Islands', 'Pitcairneilanden', 'Pitcairninseln', 'Îles Pitcairn'],
+  ['PR', 'PRI', 'Puerto Rico', 'Puerto Rico', 'Puerto Rico', 'Porto Rico'],
+  ['PS', 'PSE', 'Palestine', 'Palestina', 'Palästina', 'Palestine'],
+  ['PT', 'PRT', 'Portugal', 'Portugal', 'Portugal', 'Portugal'],
+  ['PW', 'PLW', 'Palau', 'Palau', 'Palau', 'Palaos'],
+  ['PY', 'PRY', 'Paraguay', 'Paraguay', 'Paraguay', 'Paraguay'],
+  ['QA', 'QAT', 'Qatar', 'Qatar', 'Katar', 'Qatar'],
+  ['RE', 'REU', 'Réunion', 'Réunion', 'Réunion', 'La Réunion'],
+  ['RO', 'ROU', 'Romania', 'Roemenië', 'Rumänien', 'Roumanie'],
+  ['RS', 'SRB', 'Serbia', 'Servië', 'Serbien', 'Serbie'],
+  ['RU', 'RUS', 'Russia', 'Rusland', 'Russland', 'Russie'],
+  ['RW', 'RWA', 'Rwanda', 'Rwanda', 'Ruanda', 'Rwanda'],
+  ['SA', 'SAU', 'Saudi Arabia', 'Saoedi-Arabië', 'Saudi-Arabien', 'Arabie saoudite'],
+  ['SB', 'SLB', 'Solomon Islands', 'Salomonseilanden', 'Salomonen', 'Îles Salomon'],
+  ['SC', 'SYC', 'Seychelles', 'Seychellen', 'Seychellen', 'Seychelles'],
+  ['SD', 'SDN', 'Sudan', 'Soedan', 'Sudan', 'Soudan'],
+  ['SE', 'SWE', 'Sweden', 'Zweden', 'Schweden', 'Suède'],
+  ['SG', 'SGP', 'Singapore', 'Singapore', 'Singapur', 'Singapour'],
+  ['SH', 'SHN', 'Saint Helena', 'Sint-Helena', 'St. Helena', 'Sainte-Hélène'],
+  ['SI', 'SVN', 'Slovenia', 'Slovenië', 'Slowenien', 'Slovénie'],
+  ['SJ', 'SJM', 'Svalbard and Jan Mayen', 'Spitsbergen en Jan Mayen', 'Spitzbergen und Jan Mayen', 'Svalbard et Jan Mayen'],
+  ['SK', 'SVK', 'Slovakia', 'Slowakije', 'Slowakei', 'Slovaquie'],
+  ['SL', 'SLE', 'Sierra Leone', 'Sierra Leone', 'Sierra Leone', 'Sierra Leone'],
+  ['SM', 'SMR', 'San Marino', 'San Marino', 'San Marino', 'Saint-Marin'],
+  ['SN', 'SEN', 'Senegal', 'Senegal', 'Senegal', 'Sénégal'],
+  ['SO', 'SOM', 'Somalia', 'Somalië', 'Somalia', 'Somalie'],
+  ['SR', 'SUR', 'Suriname', 'Suriname', 'Suriname', 'Suriname'],
+  ['SS', 'SSD', 'South Sudan', 'Zuid-Soedan', 'Südsudan', 'Soudan du Sud'],
+  ['ST', 'STP', 'São Tomé and Príncipe', 'Sao Tomé en Principe', 'São Tomé und Príncipe', 'Sao Tomé-et-Principe'],
+  ['SV', 'SLV', 'El Salvador', 'El Salvador', 'El Salvador', 'Salvador'],
+  ['SX', 'SXM', 'Sint Maarten', 'Sint Maarten', 'Sint Maarten', 'Saint-Martin (partie néerlandaise)'],
+  ['SY', 'SYR', 'Syria', 'Syrië', 'Syrien', 'Syrie'],
+  ['SZ', 'SWZ', 'Eswatini', 'Eswatini', 'Eswatini', 'Eswatini'],
+  ['TC', 'TCA', 'Turks and Caicos Islands', 'Turks- en Caicoseilanden', 'Turks- und Caicosinseln', 'Îles Turques-et-Caïques'],
+  ['TD', 'TCD', 'Chad', 'Tsjaad', 'Tschad', 'Tchad'],
+  ['TF', 'ATF', 'French Southern Territories', 'Franse Zuidelijke Gebieden', 'Französische Süd- und Antarktisgebiete', 'Terres australes françaises'],
+  ['TG', 'TGO', 'Togo', 'Togo', 'Togo', 'Togo'],
+  ['TH', 'THA', 'Thailand', 'Thailand', 'Thailand', 'Thaïlande'],
+  ['TJ', 'TJK', 'Tajikistan', 'Tadzjikistan', 'Tadschikistan', 'Tadjikistan'],
+  ['TK', 'TKL', 'Tokelau', 'Tokelau', 'Tokelau', 'Tokelau'],
+  ['TL', 'TLS', 'Timor-Leste', 'Oost-Timor', 'Timor-Leste', 'Timor oriental'],
+  ['TM', 'TKM', 'Turkmenistan', 'Turkmenistan', 'Turkmenistan', 'Turkménistan'],
+  ['TN', 'TUN', 'Tunisia', 'Tunesië', 'Tunesien', 'Tunisie'],
+  ['TO', 'TON', 'Tonga', 'Tonga', 'Tonga', 'Tonga'],
+  ['TR', 'TUR', 'Turkey', 'Turkije', 'Türkei', 'Turquie'],
+  ['TT', 'TTO', 'Trinidad and Tobago', 'Trinidad en Tobago', 'Trinidad und Tobago', 'Trinité-et-Tobago'],
+  ['TV', 'TUV', 'Tuvalu', 'Tuvalu', 'Tuvalu', 'Tuvalu'],
+  ['TW', 'TWN', 'Taiwan', 'Taiwan', 'Taiwan', 'Taïwan'],
+  ['TZ', 'TZA', 'Tanzania', 'Tanzania', 'Tansania', 'Tanzanie'],
+  ['UA', 'UKR', 'Ukraine', 'Oekraïne', 'Ukraine', 'Ukraine'],
+  ['UG', 'UGA', 'Uganda', 'Oeganda', 'Uganda', 'Ouganda'],
+  ['UM', 'UMI', 'U.S. Outlying Islands', 'Kleine afgelegen eilanden van de Verenigde Staten', 'Amerikanische Überseeinseln', 'Îles mineures éloignées des États-Unis'],
+  ['US', 'USA', 'United States', 'Verenigde Staten', 'Vereinigte Staaten', 'États-Unis'],
+  ['UY', 'URY', 'Uruguay', 'Uruguay', 'Uruguay', 'Uruguay'],
+  ['UZ', 'UZB', 'Uzbekistan', 'Oezbekistan', 'Usbekistan', 'Ouzbékistan'],
+  ['VA', 'VAT', 'Vatican City', 'Vaticaanstad', 'Vatikanstadt', 'Cité du Vatican'],
+  ['VC', 'VCT', 'Saint Vincent and the Grenadines', 'Saint Vincent en de Grenadines', 'St. Vincent und die Grenadinen', 'Saint-Vincent-et-les-Grenadines'],
+  ['VE', 'VEN', 'Venezuela', 'Venezuela', 'Venezuela', 'Venezuela'],
+  ['VG', 'VGB', 'British Virgin Islands', 'Britse Maagdeneilanden', 'Britische Jungferninseln', 'Îles Vierges britanniques'],
+  ['VI', 'VIR', 'U.S. Virgin Islands', 'Amerikaanse Maagdeneilanden', 'Amerikanische Jungferninseln', 'Îles Vierges des États-Unis'],
+  ['VN', 'VNM', 'Vietnam', 'Vietnam', 'Vietnam', 'Viêt Nam'],
+  ['VU', 'VUT', 'Vanuatu', 'Vanuatu', 'Vanuatu', 'Vanuatu'],
+  ['WF', 'WLF', 'Wallis and Futuna', 'Wallis en Futuna', 'Wallis und Futuna', 'Wallis-et-Futuna'],
+  ['WS', 'WSM', 'Samoa', 'Samoa', 'Samoa', 'Samoa'],
+  ['XK', 'XKX', 'Kosovo', 'Kosovo', 'Kosovo', 'Kosovo'], // user-assigned code, used by Shopify
+  ['YE', 'YEM', 'Yemen', 'Jemen', 'Jemen', 'Yémen'],
+  ['YT', 'MYT', 'Mayotte', 'Mayotte', 'Mayotte', 'Mayotte'],
+  ['ZA', 'ZAF', 'South Africa', 'Zuid-Afrika', 'Südafrika', 'Afrique du Sud'],
+  ['ZM', 'ZMB', 'Zambia', 'Zambia', 'Sambia', 'Zambie'],
+  ['ZW', 'ZWE', 'Zimbabwe', 'Zimbabwe', 'Simbabwe', 'Zimbabwe'],
+];
+
+// Everyday and former names that are not in the table
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  CI: ['Ivory Coast'],
+  CZ: ['Czech Republic', 'Tsjechische Republiek', 'Tschechische Republik', 'République tchèque'],
+  GB: ['UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland', 'Groot-Brittannië', 'Engeland', 'Schotland', 'Großbritannien', 'Grande-Bretagne', 'Angleterre', 'Écosse'],
+  MK: ['Macedonia', 'Macedonië', 'Mazedonien', 'Macédoine'],
+  MM: ['Burma'],
+  NL: ['Holland', 'The Netherlands', 'Nederlande', 'Hollande'],
+  SZ: ['Swaziland'],
+  TR: ['Türkiye'],
+  US: ['USA', 'US of A', 'United States of America', 'America', 'Amerika', 'Verenigde Staten van Amerika', 'Vereinigte Staaten von Amerika', "États-Unis d'Amérique"],
+  VA: ['Holy See', 'Vatican'],
+};
+
+export const COUNTRIES: Country[] = COUNTRY_ROWS.map(([code, alpha3, en, nl, de, fr]) => ({ code, alpha3, names: { en, nl, de, fr } }));
+
+const COUNTRIES_BY_CODE = new Map(COUNTRIES.map(country => [country.code, country]));
+
+// Case, accents, punctuation and a leading "the" do not matter when matching names
+const normalizeName = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
+
+const COUNTRY_CODES_BY_NAME = new Map<string, string>();
+COUNTRIES.forEach(country => {
+  [country.code, country.alpha3, ...Object.values(country.names), ...(COUNTRY_ALIASES[country.code] || [])].forEach(name => {
+    const key = normalizeName(name);
+    if (!COUNTRY_CODES_BY_NAME.has(key)) COUNTRY_CODES_BY_NAME.set(key, country.code);
+  });
+});
+
+export const isCountryCode = (value: string): boolean => COUNTRIES_BY_CODE.has(value);
+
+// Alpha-2 code of an alpha-2 or alpha-3 code or a country name in any of the bundled languages
+export const resolveCountryCode = (value: string | undefined): string | undefined =>
+  value?.trim() ? COUNTRY_CODES_BY_NAME.get(normalizeName(value)) : undefined;
+
+export const getCountryName = (code: string, locale: CountryNameLocale = 'en'): string | undefined =>
+  COUNTRIES_BY_CODE.get(code.toUpperCase())?.names[locale];
+
+export interface Province {
+  code: string; // Shopify's province code, the ISO 3166-2 code without the country prefix
+  name: string;
+  aliases?: string[];
+}
+
+// Countries whose addresses Shopify imports with a province code
+export const PROVINCES: Record<string, Province[]> = {
+  US: [
+    { code: 'AL', name: 'Alabama' }, { code: 'AK', name: 'Alaska' }, { code: 'AZ', name: 'Arizona' }, { code: 'AR', name: 'Arkansas' },
+    { code: 'CA', name: 'California' }, { code: 'CO', name: 'Colorado' }, { code: 'CT', name: 'Connecticut' }, { code: 'DE', name: 'Delaware' },
+    { code: 'DC', name: 'District of Columbia', aliases: ['Washington DC', 'Washington D.C.'] }, { code: 'FL', name: 'Florida' },
+    { code: 'GA', name: 'Georgia' }, { code: 'HI', name: 'Hawaii' }, { code: 'ID', name: 'Idaho' }, { code: 'IL', name: 'Illinois' },
+    { code: 'IN', name: 'Indiana' }, { code: 'IA', name: 'Iowa' }, { code: 'KS', name: 'Kansas' }, { code: 'KY', name: 'Kentucky' },
+    { code: 'LA', name: 'Louisiana' }, { code: 'ME', name: 'Maine' }, { code: 'MD', name: 'Maryland' }, { code: 'MA', name: 'Massachusetts' },
+    { code: 'MI', name: 'Michigan' }, { code: 'MN', name: 'Minnesota' }, { code: 'MS', name: 'Mississippi' }, { code: 'MO', name: 'Missouri' },
+    { code: 'MT', name: 'Montana' }, { code: 'NE', name: 'Nebraska' }, { code: 'NV', name: 'Nevada' }, { code: 'NH', name: 'New Hampshire' },
+    { code: 'NJ', name: 'New Jersey' }, { code: 'NM', name: 'New Mexico' }, { code: 'NY', name: 'New York' }, { code: 'NC', name: 'North Carolina' },
+    { code: 'ND', name: 'North Dakota' }, { code: 'OH', name: 'Ohio' }, { code: 'OK', name: 'Oklahoma' }, { code: 'OR', name: 'Oregon' },
+    { code: 'PA', name: 'Pennsylvania' }, { code: 'RI', name: 'Rhode Island' }, { code: 'SC', name: 'South Carolina' }, { code: 'SD', name: 'South Dakota' },
+    { code: 'TN', name: 'Tennessee' }, { code: 'TX', name: 'Texas' }, { code: 'UT', name: 'Utah' }, { code: 'VT', name: 'Vermont' },
+    { code: 'VA', name: 'Virginia' }, { code: 'WA', name: 'Washington' }, { code: 'WV', name: 'West Virginia' }, { code: 'WI', name: 'Wisconsin' },
+    { code: 'WY', name: 'Wyoming' },
+    { code: 'AS', name: 'American Samoa' }, { code: 'GU', name: 'Guam' }, { code: 'MP', name: 'Northern Mariana Islands' },
+    { code: 'PR', name: 'Puerto Rico' }, { code: 'UM', name: 'U.S. Outlying Islands' }, { code: 'VI', name: 'U.S. Virgin Islands', aliases: ['Virgin Islands'] },
+    { code: 'AA', name: 'Armed Forces Americas' }, { code: 'AE', name: 'Armed Forces Europe', aliases: ['Armed Forces Africa', 'Armed Forces Canada', 'Armed Forces Middle East'] },
+    { code: 'AP', name: 'Armed Forces Pacific' },
+  ],
+  CA: [
+    { code: 'AB', name: 'Alberta' },
+    { code: 'BC', name: 'British Columbia', aliases: ['Colombie-Britannique'] },
+    { code: 'MB', name: 'Manitoba' },
+    { code: 'NB', name: 'New Brunswick', aliases: ['Nouveau-Brunswick'] },
+    { code: 'NL', name: 'Newfoundland and Labrador', aliases: ['Newfoundland', 'Terre-Neuve-et-Labrador', 'NF'] },
+    { code: 'NS', name: 'Nova Scotia', aliases: ['Nouvelle-Écosse'] },
+    { code: 'NT', name: 'Northwest Territories', aliases: ['Territoires du Nord-Ouest'] },
+    { code: 'NU', name: 'Nunavut' },
+    { code: 'ON', name: 'Ontario' },
+    { code: 'PE', name: 'Prince Edward Island', aliases: ['Île-du-Prince-Édouard'] },
+    { code: 'QC', name: 'Quebec', aliases: ['Québec', 'PQ'] },
+    { code: 'SK', name: 'Saskatchewan' },
+    { code: 'YT', name: 'Yukon', aliases: ['Yukon Territory'] },
+  ],
+};
+
+const PROVINCE_CODES_BY_NAME = new Map<string, Map<string, string>>(
+  Object.entries(PROVINCES).map(([countryCode, provinces]) => [
+    countryCode,
+    new Map(provinces.flatMap(province =>
+      [province.code, `${countryCode}-${province.code}`, province.name, ...(province.aliases || [])].map(name => [normalizeName(name), province.code] as [string, string]))),
+  ])
+);
+
+export const hasProvinces = (countryCode: string): boolean => countryCode in PROVINCES;
+
+export const isProvinceCode = (countryCode: string, value: string): boolean =>
+  !!PROVINCES[countryCode]?.some(province => province.code === value);
+
+// Shopify province code of a code (CA or US-CA) or name (California)
+export const resolveProvinceCode = (countryCode: string, value: string | undefined): string | undefined =>
+  value?.trim() ? PROVINCE_CODES_BY_NAME.get(countryCode)?.get(normalizeName(value)) : undefined;
+
+export const getProvinceName = (countryCode: string, code: string): string | undefined =>
+  PROVINCES[countryCode]?.find(province => province.code === code)?.name;
+
+export interface AddressLocation {
+  country: string;
+  countryCode: string;
+  province: string;
+  provinceCode: string;
+}
+
+// Fills the code from the name and the name from the code. Values that cannot be resolved are kept as they are,
+// so the customer schema can point them out.
+export const resolveAddressLocation = (location: AddressLocation): AddressLocation => {
+  const countryCode = resolveCountryCode(location.countryCode) || resolveCountryCode(location.country);
+  if (!countryCode) return location;
+  const country = getCountryName(countryCode)!;
+  if (!hasProvinces(countryCode)) return { ...location, country, countryCode };
+  const provinceCode = resolveProvinceCode(countryCode, location.provinceCode) || resolveProvinceCode(countryCode, location.province);
+  return provinceCode
+    ? { country, countryCode, province: getProvinceName(countryCode, provinceCode)!, provinceCode }
+    : { ...location, country, countryCode };
+};
@@ -0,0 +1,137 @@
+import { createCsvTokenizer, detectDelimiter, stripBom, type CsvRecord, type ParsedCsv } from '@/lib/csv';
+import type { ParseCustomerResult } from '@/lib/customer-csv-converter';
+import type { CustomerTagPrefixes, PhoneFormattingRules } from '@/lib/customer-settings';
+import type { ParseProductResult, ProductTypeStrategies } from '@/lib/product-csv-converter';
+import type { ColumnMapping, ColumnMappingPreview } from '@/lib/column-mapping';
+import type { AdditionalAttributeMapping } from '@/lib/additional-attributes';
+import type { ProductHandleSource } from '@/lib/url-redirects';
+import type { WeightUnit } from '@/lib/weight';
+import { createChunkDecoder, detectEncoding, hasWindows1252Range, ENCODING_DETECTION_SAMPLE_SIZE, type DetectedEncoding, type SourceEncoding } from '@/lib/encoding';
+
+export const DEFAULT_IMPORT_CHUNK_SIZE = 1024 * 1024; // 1 MiB per read
+
+// `encoding` overrides automatic detection when set
+export type CsvImportRequest =
+  | { kind: 'customer'; file: File; encoding?: SourceEncoding; addressesFile?: File }
+  | { kind: 'product'; file: File; encoding?: SourceEncoding; magentoBaseImageUrl?: string; strategies?: ProductTypeStrategies; defaultStoreView?: string; handleSource?: ProductHandleSource; weightUnit?: WeightUnit };
+
+export interface CsvImportProgress {
+  phase: 'reading' | 'mapping' | 'converting';
+  bytesRead: number;
+  totalBytes: number;
+  rowsRead: number;
+}
+
+// Chosen on the mapping screen, possibly from a saved profile. `magentoBaseImageUrl` replaces the one in the request.
+export interface ImportConversionSettings {
+  columnMapping: ColumnMapping;
+  magentoBaseImageUrl?: string;
+  tagPrefixes?: CustomerTagPrefixes;
+  phoneFormatting?: PhoneFormattingRules;
+  attributeMapping?: AdditionalAttributeMapping;
+}
+
+// Messages posted from the page to the import worker: the file is read first, then converted once the
+// user has confirmed the column mapping.
+export type CsvImportCommand =
+  | { type: 'start'; request: CsvImportRequest }
+  | { type: 'convert'; settings?: ImportConversionSettings };
+
+// Messages posted from the import worker back to the page
+export type CsvImportWorkerMessage =
+  | { type: 'progress'; progress: CsvImportProgress }
+  | { type: 'mapping_required'; preview: ColumnMappingPreview }
+  | { type: 'customer_result'; result: ParseCustomerResult; encoding: DetectedEncoding }
+  | { type: 'product_result'; result: ParseProductResult; encoding: DetectedEncoding }
+  | { type: 'failed'; message: string };
+
+export const getImportProgressPercent = (progress: CsvImportProgress | null): number => {
+  if (!progress) return 0;
+  if (progress.phase !== 'reading' || progress.totalBytes === 0) return 100;
+  return Math.min(100, Math.round((progress.bytesRead / progress.totalBytes) * 100));
+};
+
+export interface TokenizedCsvFile extends ParsedCsv {
+  encoding: DetectedEncoding;
+}
+
+// Detects the encoding from the start of the file unless one is given explicitly
+export const resolveFileEncoding = async (file: Blob, encoding?: SourceEncoding): Promise<DetectedEncoding> => {
+  if (encoding) return { encoding, source: 'user_selected' };
+  const sample = await file.slice(0, ENCODING_DETECTION_SAMPLE_SIZE).arrayBuffer();
+  return detectEncoding(new Uint8Array(sample));
+};
+
+type TokenizeOptions = { chunkSize?: number; encoding?: SourceEncoding; onProgress?: (progress: CsvImportProgress) => void };
+
+// Reads a file slice by slice and feeds it through the CSV tokenizer, so the whole text never has to be
+// held as one string. Text is buffered until the first line break so the delimiter can be detected.
+// Returns null when `fatal` is set and the bytes are not valid in the given encoding.
+const readFileInChunks = async (
+  file: Blob,
+  encoding: DetectedEncoding,
+  options: TokenizeOptions & { fatal?: boolean }
+): Promise<TokenizedCsvFile | null> => {
+  const chunkSize = options.chunkSize ?? DEFAULT_IMPORT_CHUNK_SIZE;
+  const decoder = createChunkDecoder(encoding.encoding, { fatal: options.fatal });
+  const records: CsvRecord[] = [];
+  let tokenizer: ReturnType<typeof createCsvTokenizer> | undefined;
+  let delimiter = detectDelimiter('');
+  let headText = '';
+  let sawWindows1252Range = false;
+
+  const feed = (text: string, isLast: boolean) => {
+    if (!tokenizer) {
+      headText += text;
+      if (!isLast && !/[\r\n]/.test(headText)) return;
+      if (!headText) return;
+      delimiter = detectDelimiter(stripBom(headText));
+      tokenizer = createCsvTokenizer(delimiter);
+      text = headText;
+    }
+    records.push(...tokenizer.write(text));
+  };
+  const decode = (bytes?: Uint8Array): string | null => {
+    try {
+      return bytes ? decoder.decode(bytes, { stream: true }) : decoder.decode();
+    } catch (error) {
+      if (options.fatal) return null; // malformed input, see createChunkDecoder
+      throw error;
+    }
+  };
+
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    const bytes = new Uint8Array(await file.slice(offset, offset + chunkSize).arrayBuffer());
+    const text = decode(bytes);
+    if (text === null) return null;
+    sawWindows1252Range ||= hasWindows1252Range(bytes);
+    feed(text, false);
+    options.onProgress?.({
+      phase: 'reading',
+      bytesRead: Math.min(offset + chunkSize, file.size),
+      totalBytes: file.size,
+      rowsRead: records.length,
+    });
+  }
+  const rest = decode();
+  if (rest === null) return null;
+  feed(rest, true);
+
+  // A single-byte file only decodes differently as Windows-1252 when it has bytes in 0x80-0x9F
+  if (encoding.encoding === 'windows-1252' && encoding.source === 'heuristic' && !sawWindows1252Range) {
+    encoding = { encoding: 'iso-8859-1', source: 'heuristic' };
+  }
+  if (!tokenizer) return { delimiter, records, errors: [], encoding };
+  records.push(...tokenizer.end());
+  return { delimiter, records, errors: tokenizer.errors, encoding };
+};
+
+// Detection only samples the start of the file, so a detected UTF-8 file is decoded strictly. If an
+// invalid sequence turns up later on, the file is read again as a single-byte encoding.
+export const tokenizeFileInChunks = async (file: Blob, options: TokenizeOptions = {}): Promise<TokenizedCsvFile> => {
+  const encoding = await resolveFileEncoding(file, options.encoding);
+  const parsed = await readFileInChunks(file, encoding, { ...options, fatal: encoding.source === 'utf8_valid' });
+  if (parsed) return parsed;
+  // Non-fatal single-byte decoding always yields a result
+  return (await readFileInChunks(file, { encoding: 'windows-1252', source: 'heuristic' }, options))!;
+};
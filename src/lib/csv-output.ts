@@ -0,0 +1,33 @@
+import { arrayToCsv, type CsvDelimiter, type CsvFieldValue } from '@/lib/csv';
+
+// How generated Shopify CSVs are written: Shopify's importer wants a decimal point and commas,
+// spreadsheet programs in most of Europe open semicolon files with decimal commas
+
+export interface CsvOutputProfile {
+  delimiter: CsvDelimiter;
+  decimalSeparator: '.' | ',';
+  includeBom: boolean; // lets Excel detect UTF-8
+}
+
+export type CsvOutputProfileId = 'shopify' | 'european_excel' | 'custom';
+
+export const CSV_OUTPUT_PROFILES: Record<Exclude<CsvOutputProfileId, 'custom'>, CsvOutputProfile> = {
+  shopify: { delimiter: ',', decimalSeparator: '.', includeBom: false },
+  european_excel: { delimiter: ';', decimalSeparator: ',', includeBom: true },
+};
+
+export const CSV_OUTPUT_PROFILE_LABELS: Record<CsvOutputProfileId, string> = {
+  shopify: 'Shopify native',
+  european_excel: 'European Excel',
+  custom: 'Custom',
+};
+
+export const DEFAULT_CSV_OUTPUT_PROFILE = CSV_OUTPUT_PROFILES.shopify;
+
+const BOM = '\uFEFF';
+
+export const formatDecimal = (value: number | undefined, profile: CsvOutputProfile = DEFAULT_CSV_OUTPUT_PROFILE): string =>
+  value === undefined ? '' : String(value).replace('.', profile.decimalSeparator);
+
+export const toCsvOutput = (headers: string[], data: CsvFieldValue[][], profile: CsvOutputProfile = DEFAULT_CSV_OUTPUT_PROFILE): string =>
+  `${profile.includeBom ? BOM : ''}${arrayToCsv(headers, data, profile.delimiter)}`;
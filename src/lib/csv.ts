@@ -0,0 +1,216 @@
+// Shared RFC 4180 CSV engine used by the customer and product converters.
+// The tokenizer is a small state machine that can be fed the input in pieces,
+// so quoted newlines, escaped quotes and CRLF pairs split across chunks are handled.
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export const SUPPORTED_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+export type CsvFieldValue = string | number | boolean | undefined | null;
+
+export interface CsvRecord {
+  fields: string[];
+  line: number; // 1-based line on which the record starts
+}
+
+export interface CsvSyntaxError {
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface ParsedCsv {
+  delimiter: CsvDelimiter;
+  records: CsvRecord[];
+  errors: CsvSyntaxError[];
+}
+
+export interface CsvTokenizer {
+  write: (chunk: string) => CsvRecord[];
+  end: () => CsvRecord[];
+  errors: CsvSyntaxError[];
+}
+
+type TokenizerState = 'field_start' | 'unquoted' | 'quoted' | 'quote_in_quoted';
+
+export const stripBom = (text: string): string => (text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+
+// Counts candidate delimiters outside quotes on the first line that contains any of them (title lines
+// above the header are skipped) and picks the most frequent one. Ties follow the order of SUPPORTED_DELIMITERS.
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const counts = new Map<CsvDelimiter, number>(SUPPORTED_DELIMITERS.map(d => [d, 0]));
+  const hasCounts = () => Array.from(counts.values()).some(count => count > 0);
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (hasCounts()) break;
+    } else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, (counts.get(char as CsvDelimiter) || 0) + 1);
+    }
+  }
+
+  let best: CsvDelimiter = ',';
+  for (const delimiter of SUPPORTED_DELIMITERS) {
+    if ((counts.get(delimiter) || 0) > (counts.get(best) || 0)) best = delimiter;
+  }
+  return best;
+};
+
+export const createCsvTokenizer = (delimiter: CsvDelimiter, options: { skipEmptyLines?: boolean } = {}): CsvTokenizer => {
+  const skipEmptyLines = options.skipEmptyLines ?? true;
+  const errors: CsvSyntaxError[] = [];
+
+  let state: TokenizerState = 'field_start';
+  let field = '';
+  let fields: string[] = [];
+  let line = 1;
+  let column = 0;
+  let recordLine = 1;
+  let quoteLine = 1;
+  let quoteColumn = 1;
+  let pendingCr = false; // last chunk ended with a CR that may be followed by LF
+  let atStart = true;
+
+  const finishRecord = (out: CsvRecord[]) => {
+    fields.push(field);
+    const isEmptyLine = fields.length === 1 && fields[0] === '';
+    if (!(skipEmptyLines && isEmptyLine)) out.push({ fields, line: recordLine });
+    fields = [];
+    field = '';
+    state = 'field_start';
+  };
+
+  const newLine = () => {
+    line++;
+    column = 0;
+  };
+
+  const write = (chunk: string): CsvRecord[] => {
+    const out: CsvRecord[] = [];
+    let i = 0;
+    if (atStart && chunk.length > 0) {
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1;
+      atStart = false;
+    }
+
+    for (; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (pendingCr) {
+        pendingCr = false;
+        if (char === '\n') continue;
+      }
+
+      column++;
+
+      switch (state) {
+        case 'field_start':
+        case 'unquoted':
+          // Whitespace in front of an opening quote is dropped, as in `a, "b"`
+          if (char === '"' && field.trim() === '') {
+            field = '';
+            state = 'quoted';
+            quoteLine = line;
+            quoteColumn = column;
+          } else if (char === delimiter) {
+            fields.push(field);
+            field = '';
+            state = 'field_start';
+          } else if (char === '\n' || char === '\r') {
+            finishRecord(out);
+            if (char === '\r') pendingCr = true;
+            newLine();
+            recordLine = line;
+          } else {
+            // A quote inside an unquoted field is kept as a literal (e.g. 5" screen)
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+
+        case 'quoted':
+          if (char === '"') {
+            state = 'quote_in_quoted';
+          } else if (char === '\r') {
+            field += '\n';
+            pendingCr = true;
+            newLine();
+          } else {
+            field += char;
+            if (char === '\n') newLine();
+          }
+          break;
+
+        case 'quote_in_quoted':
+          if (char === '"') {
+            field += '"';
+            state = 'quoted';
+          } else if (char === delimiter) {
+            fields.push(field);
+            field = '';
+            state = 'field_start';
+          } else if (char === '\n' || char === '\r') {
+            finishRecord(out);
+            if (char === '\r') pendingCr = true;
+            newLine();
+            recordLine = line;
+          } else if (char === ' ' || char === '\t') {
+            // Padding between a closing quote and the next delimiter is ignored
+          } else {
+            errors.push({ message: `Unexpected character "${char}" after closing quote`, line, column });
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+      }
+    }
+    return out;
+  };
+
+  const end = (): CsvRecord[] => {
+    const out: CsvRecord[] = [];
+    if (state === 'quoted') {
+      errors.push({ message: 'Unterminated quoted field', line: quoteLine, column: quoteColumn });
+    }
+    if (state !== 'field_start' || fields.length > 0 || field !== '') {
+      finishRecord(out);
+    }
+    return out;
+  };
+
+  return { write, end, errors };
+};
+
+export const parseCsv = (text: string, options: { delimiter?: CsvDelimiter; skipEmptyLines?: boolean } = {}): ParsedCsv => {
+  const delimiter = options.delimiter ?? detectDelimiter(stripBom(text));
+  const tokenizer = createCsvTokenizer(delimiter, { skipEmptyLines: options.skipEmptyLines });
+  const records = [...tokenizer.write(text), ...tokenizer.end()];
+  return { delimiter, records, errors: tokenizer.errors };
+};
+
+export const formatCsvSyntaxError = (error: CsvSyntaxError): string =>
+  `${error.message} at line ${error.line}, column ${error.column}.`;
+
+export const escapeCsvField = (field: CsvFieldValue, delimiter: CsvDelimiter = ','): string => {
+  if (field === undefined || field === null) {
+    return '';
+  }
+  const stringField = String(field);
+  // Escape quotes by doubling them, and wrap in quotes if it contains delimiter, newline or quote
+  if (stringField.includes(delimiter) || stringField.includes('\n') || stringField.includes('\r') || stringField.includes('"')) {
+    return `"${stringField.replace(/"/g, '""')}"`;
+  }
+  return stringField;
+};
+
+export const arrayToCsv = (headers: string[], data: CsvFieldValue[][], delimiter: CsvDelimiter = ','): string => {
+  const headerRow = headers.map(h => escapeCsvField(h, delimiter)).join(delimiter);
+  const dataRows = data.map(row =>
+    row.map(value => escapeCsvField(value, delimiter)).join(delimiter)
+  );
+  return [headerRow, ...dataRows].join('\n');
+};
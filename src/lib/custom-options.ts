@@ -0,0 +1,145 @@
+import { slugify } from '@/lib/slug';
+
+// Magento customizable options (`custom_options` column): choices become variants, text becomes line item properties
+
+export const SELECT_OPTION_TYPES = ['drop_down', 'radio'];
+export const TEXT_OPTION_TYPES = ['field', 'area'];
+
+// Shopify's limit on variants per product in the product CSV
+export const MAX_SHOPIFY_VARIANTS = 100;
+
+// Extra choice for a select option the customer may leave empty
+export const NO_CHOICE_VALUE = 'None';
+
+export interface MagentoCustomOptionValue {
+  title: string;
+  price: number;
+  priceType: 'fixed' | 'percent';
+  sku: string;
+}
+
+export interface MagentoCustomOption {
+  title: string;
+  type: string; // field, area, file, drop_down, radio, checkbox, multiple, date, date_time, time
+  required: boolean;
+  maxCharacters?: number;
+  price: number; // surcharge of options without values (text, file, date)
+  priceType: 'fixed' | 'percent';
+  values: MagentoCustomOptionValue[];
+}
+
+// Definition stored in the line item properties metafield, for the theme to render as inputs
+export interface LineItemProperty {
+  name: string;
+  type: 'text' | 'textarea';
+  required: boolean;
+  maxLength?: number;
+}
+
+export interface CustomOptionPlan {
+  variantOptions: MagentoCustomOption[];
+  lineItemProperties: LineItemProperty[];
+  warnings: string[];
+}
+
+export interface CustomOptionVariant {
+  values: string[]; // one per variant option, in order
+  skuSuffix: string;
+  priceDelta: number;
+}
+
+const parseAmount = (value: string | undefined): number => {
+  const amount = parseFloat((value || '').replace(',', '.'));
+  return Number.isNaN(amount) ? 0 : amount;
+};
+
+// `name=Color,type=drop_down,required=1,price=2.0000,price_type=fixed,sku=BL,option_title=Blue|name=Engraving,type=field,...`.
+// Select options repeat their name once per value.
+export const parseMagentoCustomOptions = (value: string | undefined): MagentoCustomOption[] => {
+  if (!value) return [];
+  const optionsByTitle = new Map<string, MagentoCustomOption>();
+  value.split('|').forEach(part => {
+    const fields = new Map<string, string>();
+    part.split(/,(?=\s*[a-z_]+\s*=)/).forEach(pair => {
+      const separator = pair.indexOf('=');
+      if (separator !== -1) fields.set(pair.slice(0, separator).trim().toLowerCase(), pair.slice(separator + 1).trim());
+    });
+    const title = fields.get('name');
+    if (!title) return;
+    const priceType = fields.get('price_type') === 'percent' ? 'percent' : 'fixed';
+    let option = optionsByTitle.get(title);
+    if (!option) {
+      const maxCharacters = parseInt(fields.get('max_characters') || '', 10);
+      option = {
+        title,
+        type: (fields.get('type') || 'field').toLowerCase(),
+        required: fields.get('required') === '1',
+        maxCharacters: maxCharacters > 0 ? maxCharacters : undefined,
+        price: 0,
+        priceType,
+        values: [],
+      };
+      optionsByTitle.set(title, option);
+    }
+    const valueTitle = fields.get('option_title');
+    if (valueTitle) {
+      option.values.push({ title: valueTitle, price: parseAmount(fields.get('price')), priceType, sku: fields.get('sku') || '' });
+    } else {
+      option.price = parseAmount(fields.get('price'));
+      option.priceType = priceType;
+    }
+  });
+  return Array.from(optionsByTitle.values());
+};
+
+const describe = (option: MagentoCustomOption): string => `Custom option "${option.title}" (${option.type})`;
+
+const getValueCount = (option: MagentoCustomOption): number => option.values.length + (option.required ? 0 : 1);
+
+// Select options take the free Shopify option slots as long as the variant count stays within Shopify's limit
+export const planCustomOptions = (options: MagentoCustomOption[], freeDimensions: number, existingVariantCount = 1): CustomOptionPlan => {
+  const plan: CustomOptionPlan = { variantOptions: [], lineItemProperties: [], warnings: [] };
+  let variantCount = existingVariantCount;
+  options.forEach(option => {
+    if (SELECT_OPTION_TYPES.includes(option.type) && option.values.length > 0) {
+      if (plan.variantOptions.length >= freeDimensions) {
+        plan.warnings.push(`${describe(option)} does not fit in the remaining Shopify options.`);
+      } else if (variantCount * getValueCount(option) > MAX_SHOPIFY_VARIANTS) {
+        plan.warnings.push(`${describe(option)} would create more than ${MAX_SHOPIFY_VARIANTS} variants.`);
+      } else {
+        plan.variantOptions.push(option);
+        variantCount *= getValueCount(option);
+      }
+    } else if (TEXT_OPTION_TYPES.includes(option.type)) {
+      plan.lineItemProperties.push({
+        name: option.title,
+        type: option.type === 'area' ? 'textarea' : 'text',
+        required: option.required,
+        maxLength: option.maxCharacters,
+      });
+      if (option.price > 0) {
+        plan.warnings.push(`${describe(option)} has a surcharge of ${option.price.toFixed(2)}${option.priceType === 'percent' ? '%' : ''} that line item properties cannot charge.`);
+      }
+    } else {
+      plan.warnings.push(`${describe(option)} cannot be converted; recreate it with a product options app.`);
+    }
+  });
+  return plan;
+};
+
+const getPriceDelta = (value: MagentoCustomOptionValue, basePrice: number): number =>
+  value.priceType === 'percent' ? Math.round(basePrice * value.price) / 100 : value.price;
+
+// Every combination of the variant options' values, first option varying slowest
+export const expandCustomOptionVariants = (options: MagentoCustomOption[], basePrice: number): CustomOptionVariant[] =>
+  options.reduce<CustomOptionVariant[]>((variants, option) => {
+    const values = option.required ? option.values : [{ title: NO_CHOICE_VALUE, price: 0, priceType: 'fixed' as const, sku: '' }, ...option.values];
+    return variants.flatMap(variant => values.map(value => {
+      const suffix = value.title === NO_CHOICE_VALUE && !value.sku ? '' : value.sku || slugify(value.title);
+      return {
+        values: [...variant.values, value.title],
+        skuSuffix: [variant.skuSuffix, suffix].filter(Boolean).join('-'),
+        priceDelta: Math.round((variant.priceDelta + getPriceDelta(value, basePrice)) * 100) / 100,
+      };
+    }));
+  }, [{ values: [], skuSuffix: '', priceDelta: 0 }]);
@@ -0,0 +1,114 @@
+import type { CustomerAddress } from '@/schemas/customer';
+import { formatCsvSyntaxError, type ParsedCsv } from '@/lib/csv';
+import { createHeaderIndexFinder, normalizeHeader, type MappingFieldDefinition } from '@/lib/column-mapping';
+import { resolveAddressLocation } from '@/lib/countries';
+
+// Magento's "Customer Addresses" export: one row per address, linked to its customer by _email and _website
+
+// Column names are fixed by Magento's export, so the file is read without the mapping screen
+export const CUSTOMER_ADDRESS_FIELDS: MappingFieldDefinition[] = [
+  { key: 'email', label: 'Customer email', aliases: ['_email', 'email'], required: true },
+  { key: 'website', label: 'Customer website', aliases: ['_website', 'website'] },
+  { key: 'firstName', label: 'First Name', aliases: ['firstname'] },
+  { key: 'lastName', label: 'Last Name', aliases: ['lastname'] },
+  { key: 'company', label: 'Company', aliases: ['company'] },
+  { key: 'street', label: 'Address 1 and 2 (one line each)', aliases: ['street'] },
+  { key: 'city', label: 'City', aliases: ['city'] },
+  { key: 'province', label: 'Province', aliases: ['region'] },
+  { key: 'provinceCode', label: 'Province Code', aliases: ['region_code'] },
+  { key: 'country', label: 'Country', aliases: ['country_id'] },
+  { key: 'zip', label: 'Zip', aliases: ['postcode'] },
+  { key: 'phone', label: 'Phone', aliases: ['telephone'] },
+  { key: 'defaultBilling', label: 'Default billing address', aliases: ['_address_default_billing_'] },
+  { key: 'defaultShipping', label: 'Default shipping address', aliases: ['_address_default_shipping_'] },
+];
+
+export interface MagentoCustomerAddress extends CustomerAddress {
+  isDefaultBilling: boolean;
+  isDefaultShipping: boolean;
+}
+
+export interface CustomerAddressBook {
+  addressesByCustomer: Map<string, MagentoCustomerAddress[]>; // keyed by getCustomerAddressKey
+  keysByEmail: Map<string, string[]>;
+  addressCount: number;
+}
+
+export type ParseCustomerAddressesResult =
+  | { type: 'addresses_found'; addressBook: CustomerAddressBook }
+  | { type: 'parse_error'; message: string };
+
+export const getCustomerAddressKey = (email: string, website = ''): string =>
+  `${email.trim().toLowerCase()}|${website.trim().toLowerCase()}`;
+
+const isFlagSet = (value: string | undefined): boolean => ['1', 'yes', 'true'].includes((value || '').trim().toLowerCase());
+
+// Multi-line Magento streets: the first line is Address1, the rest Address2
+const splitStreet = (street: string): { address1: string; address2: string } => {
+  const [address1 = '', ...rest] = street.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  return { address1, address2: rest.join(', ') };
+};
+
+export const parseMagentoCustomerAddresses = ({ records, errors }: ParsedCsv): ParseCustomerAddressesResult => {
+  if (errors.length > 0) return { type: 'parse_error', message: `Malformed CSV: ${formatCsvSyntaxError(errors[0])}` };
+  if (records.length === 0) return { type: 'parse_error', message: 'The CSV file is empty.' };
+
+  const headers = records[0].fields.map(normalizeHeader);
+  const findHeaderIndex = createHeaderIndexFinder(headers, CUSTOMER_ADDRESS_FIELDS);
+  const indexes = Object.fromEntries(CUSTOMER_ADDRESS_FIELDS.map(field => [field.key, findHeaderIndex(field.key)]));
+  if (indexes.email === -1) {
+    return { type: 'parse_error', message: 'No "_email" column found. Use Magento\'s "Customer Addresses" export.' };
+  }
+
+  const addressBook: CustomerAddressBook = { addressesByCustomer: new Map(), keysByEmail: new Map(), addressCount: 0 };
+  records.slice(1).forEach(record => {
+    const values = record.fields.map(field => field.trim());
+    if (values.length !== headers.length) {
+      console.warn(`Column count mismatch on line ${record.line} of the addresses file: Expected ${headers.length}, got ${values.length}.`);
+      return;
+    }
+    const value = (key: string): string => indexes[key] !== -1 ? values[indexes[key]] : '';
+    if (!value('email')) return;
+
+    const address: MagentoCustomerAddress = {
+      firstName: value('firstName'),
+      lastName: value('lastName'),
+      company: value('company'),
+      ...splitStreet(value('street')),
+      city: value('city'),
+      ...resolveAddressLocation({ country: value('country'), countryCode: '', province: value('province'), provinceCode: value('provinceCode') }),
+      zip: value('zip'),
+      phone: value('phone'),
+      isDefaultBilling: isFlagSet(value('defaultBilling')),
+      isDefaultShipping: isFlagSet(value('defaultShipping')),
+    };
+    const key = getCustomerAddressKey(value('email'), value('website'));
+    const addresses = addressBook.addressesByCustomer.get(key);
+    if (addresses) {
+      addresses.push(address);
+    } else {
+      addressBook.addressesByCustomer.set(key, [address]);
+      const email = value('email').toLowerCase();
+      addressBook.keysByEmail.set(email, [...(addressBook.keysByEmail.get(email) || []), key]);
+    }
+    addressBook.addressCount++;
+  });
+  return { type: 'addresses_found', addressBook };
+};
+
+// Without a website column in the customers file, an email matches when it has addresses on a single website only
+export const findCustomerAddressKey = (addressBook: CustomerAddressBook, email: string, website = ''): string | undefined => {
+  const key = getCustomerAddressKey(email, website);
+  if (addressBook.addressesByCustomer.has(key)) return key;
+  if (website.trim()) return undefined;
+  const keys = addressBook.keysByEmail.get(email.trim().toLowerCase()) || [];
+  return keys.length === 1 ? keys[0] : undefined;
+};
+
+// Shopify's default address is the one checkout ships to, so Magento's default shipping address wins over billing
+export const orderAddressesByDefault = (addresses: MagentoCustomerAddress[]): MagentoCustomerAddress[] => {
+  const defaultAddress = addresses.find(address => address.isDefaultShipping) || addresses.find(address => address.isDefaultBilling) || addresses[0];
+  return defaultAddress ? [defaultAddress, ...addresses.filter(address => address !== defaultAddress)] : [];
+};
+
+export const toCustomerAddress = ({ isDefaultBilling, isDefaultShipping, ...address }: MagentoCustomerAddress): CustomerAddress => address;
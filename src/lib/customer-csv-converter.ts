@@ -1,46 +1,44 @@
 import type { ShopifyCustomerFormData } from '@/schemas/customer';
+import { formatCsvSyntaxError, parseCsv, type CsvRecord, type ParsedCsv } from '@/lib/csv';
+import { normalizePhoneNumber } from '@/lib/phone-numbers';
+import { resolveAddressLocation } from '@/lib/countries';
+import { formatPostalCode } from '@/lib/postal-codes';
+import { toCsvOutput, type CsvOutputProfile } from '@/lib/csv-output';
+import { getRandomUUID } from '@/lib/utils';
+import { DEFAULT_CUSTOMER_TAG_PREFIXES, DEFAULT_PHONE_FORMATTING_RULES, type CustomerTagPrefixes, type PhoneFormattingRules } from '@/lib/customer-settings';
+import {
+  findCustomerAddressKey,
+  orderAddressesByDefault,
+  parseMagentoCustomerAddresses,
+  toCustomerAddress,
+  type CustomerAddressBook,
+} from '@/lib/customer-addresses';
+import { createHeaderIndexFinder, CUSTOMER_MAPPING_FIELDS, getHeadersWithTarget, normalizeHeader, type ColumnMapping } from '@/lib/column-mapping';
 
 export type ParseCustomerResult =
-  | { type: 'customers_found'; data: Partial<ShopifyCustomerFormData>[]; message: string }
+  | { type: 'customers_found'; data: Partial<ShopifyCustomerFormData>[]; message: string; addressesMerged: number; addressesUnmatched: number }
   | { type: 'no_customers_extracted'; message: string }
   | { type: 'parse_error'; message: string };
 
-const escapeCsvField = (field: string | number | boolean | undefined | null): string => {
-  if (field === undefined || field === null) {
-    return '';
-  }
-  const stringField = String(field);
-  // Escape quotes by doubling them, and wrap in quotes if it contains delimiter, newline or quote
-  if (stringField.includes(',') || stringField.includes('\n') || stringField.includes('"')) {
-    return `"${stringField.replace(/"/g, '""')}"`;
-  }
-  return stringField;
-};
+export interface CustomerConversionOptions {
+  columnMapping?: ColumnMapping; // when omitted, columns are matched by the default aliases
+  tagPrefixes?: CustomerTagPrefixes;
+  phoneFormatting?: PhoneFormattingRules; // normalizes phone numbers on import, so they validate without a country code
+  addressRecords?: ParsedCsv; // Magento "Customer Addresses" export, merged by email and website
+}
 
-const arrayToCsv = (headers: string[], data: (string | number | boolean | undefined | null)[][]): string => {
-  const headerRow = headers.map(escapeCsvField).join(',');
-  const dataRows = data.map(row =>
-    row.map(escapeCsvField).join(',')
-  );
-  return [headerRow, ...dataRows].join('\n');
-};
+export interface CustomerCsvOutputOptions {
+  phoneFormatting?: PhoneFormattingRules;
+  outputProfile?: CsvOutputProfile; // defaults to Shopify's own format
+}
 
-// Helper function for Dutch phone number formatting
-const formatDutchPhoneNumber = (phone: string | undefined): string => {
+// Rewrites numbers to E.164 with the numbering plan of the address' country, e.g. BE 0470 12 34 56 -> +32470123456.
+// Numbers that cannot be normalized are returned as entered; the customer schema reports them.
+export const formatPhoneNumber = (phone: string | undefined, countryCode = '', rules: PhoneFormattingRules = DEFAULT_PHONE_FORMATTING_RULES): string => {
   if (!phone) return '';
-  let cleanedPhone = phone.replace(/[\s-()]/g, ''); // Remove spaces, hyphens, parentheses
-
-  if (cleanedPhone.startsWith('0031')) {
-    cleanedPhone = `+31${cleanedPhone.substring(4)}`;
-  } else if (cleanedPhone.startsWith('06') && cleanedPhone.length === 10) { // Standard Dutch mobile
-    cleanedPhone = `+316${cleanedPhone.substring(2)}`;
-  } else if (cleanedPhone.startsWith('0') && cleanedPhone.length > 1) { // Other Dutch numbers starting with 0
-    cleanedPhone = `+31${cleanedPhone.substring(1)}`;
-  } else if (cleanedPhone.startsWith('31') && !cleanedPhone.startsWith('+31') && cleanedPhone.length > 2) {
-    // Handles cases like 31612345678 or 31501234567
-    cleanedPhone = `+${cleanedPhone}`;
-  }
-  return cleanedPhone;
+  if (!rules.normalize) return phone.trim();
+  const result = normalizePhoneNumber(phone, countryCode || rules.defaultCountry);
+  return result.type === 'valid' ? result.e164 : phone.trim();
 };
 
 function capitalizeCityName(city: string): string {
@@ -58,7 +56,7 @@ function capitalizeCityName(city: string): string {
 }
 
 
-export const generateShopifyCustomerCsv = (customers: ShopifyCustomerFormData[]): string => {
+export const generateShopifyCustomerCsv = (customers: ShopifyCustomerFormData[], options: CustomerCsvOutputOptions = {}): string => {
   const headers = [
     'First Name', 'Last Name', 'Email', 'Accepts Email Marketing', 'Default Address Company',
     'Default Address Address1', 'Default Address Address2', 'Default Address City',
@@ -66,9 +64,10 @@ export const generateShopifyCustomerCsv = (customers: ShopifyCustomerFormData[])
     'Default Address Phone', 'Phone', 'Accepts SMS Marketing', 'Tags', 'Note', 'Tax Exempt'
   ];
 
-  const csvData = customers.map(c => {
-    const formattedPhone = formatDutchPhoneNumber(c.phone);
-    return [
+  const csvData = customers.flatMap(c => {
+    const formattedPhone = formatPhoneNumber(c.phone, c.countryCode, options.phoneFormatting);
+    const formattedAddressPhone = c.addressPhone ? formatPhoneNumber(c.addressPhone, c.countryCode, options.phoneFormatting) : formattedPhone;
+    const customerRow = [
       c.firstName,
       c.lastName,
       c.email,
@@ -79,81 +78,36 @@ export const generateShopifyCustomerCsv = (customers: ShopifyCustomerFormData[])
       c.city,
       c.provinceCode,
       c.countryCode,
-      c.zip,
-      formattedPhone, // For "Default Address Phone"
+      formatPostalCode(c.zip, c.countryCode),
+      formattedAddressPhone, // For "Default Address Phone"
       formattedPhone, // For "Phone"
       c.acceptsSmsMarketing ? 'yes' : 'no',
       c.tags,
       c.note,
       c.taxExempt ? 'yes' : 'no'
     ];
+    // Further address book entries: rows with the same email and only the address columns filled. The name
+    // columns belong to the customer, so they stay empty; Shopify's format has no recipient name per address.
+    const addressRows = (c.addresses || []).map(address => [
+      '', '', c.email, '', address.company,
+      address.address1, address.address2, address.city, address.provinceCode, address.countryCode, formatPostalCode(address.zip, address.countryCode),
+      formatPhoneNumber(address.phone, address.countryCode, options.phoneFormatting), '', '', '', '', '',
+    ]);
+    return [customerRow, ...addressRows];
   });
 
-  return arrayToCsv(headers, csvData);
-};
-
-const detectDelimiter = (line: string): ',' | ';' => {
-  const commaCount = (line.match(/,/g) || []).length;
-  const semicolonCount = (line.match(/;/g) || []).length;
-  return semicolonCount > commaCount ? ';' : ',';
-};
-
-// More robust manual CSV line parser
-const parseCsvLine = (line: string, delimiter: ',' | ';'): string[] => {
-  const result: string[] = [];
-  let currentValue = "";
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
-        // This is an escaped quote ("")
-        currentValue += '"';
-        i++; // Skip the second quote of the pair
-      } else {
-        // This is a regular quote, toggle the inQuotes state
-        inQuotes = !inQuotes;
-      }
-    } else if (char === delimiter && !inQuotes) {
-      // Delimiter found outside of quotes, field ends
-      result.push(currentValue);
-      currentValue = ""; // Reset for the next field
-    } else {
-      // Regular character, append to current field value
-      currentValue += char;
-    }
-  }
-  result.push(currentValue); // Add the last field
-  return result.map(field => field.trim());
+  return toCsvOutput(headers, csvData, options.outputProfile);
 };
 
+export const parseMagentoCustomerCsv = (csvString: string, options: CustomerConversionOptions = {}): ParseCustomerResult =>
+  convertMagentoCustomerRecords(parseCsv(csvString), options);
 
-export const parseMagentoCustomerCsv = (csvString: string): ParseCustomerResult => {
-  const trimmedCsvString = csvString.trim();
-  if (!trimmedCsvString) return { type: 'parse_error', message: 'The CSV file is empty.' };
-
-  const allLines = trimmedCsvString.split(/\r?\n/);
-  if (allLines.length === 0) return { type: 'parse_error', message: 'The CSV file has no lines.' };
-
-  let headerLine: string | undefined;
-  let actualHeaderRowIndex = -1;
+// Magento customer exports may have title lines above the header, so look for it in the first rows
+export const findCustomerHeaderRowIndex = (records: CsvRecord[]): number => {
   const potentialHeaderKeywords = ['email', 'firstname', 'lastname', 'company_address', 'company_name', 'contact_phone', 'land', 'plaats', 'postcode', 'street', 'city', 'zip', 'telephone'];
 
-  for (let i = 0; i < Math.min(allLines.length, 10); i++) {
-    const currentLine = allLines[i];
-    if (!currentLine.trim()) continue; 
-
-    const tempDelimiter = detectDelimiter(currentLine);
-    const parsedAsHeader = parseCsvLine(currentLine, tempDelimiter).map((h, idx) => {
-        let cleanH = h.toLowerCase().trim();
-        if (idx === 0) cleanH = cleanH.replace(/^\ufeff/, ''); 
-        if (cleanH.startsWith('"') && cleanH.endsWith('"')) {
-            cleanH = cleanH.substring(1, cleanH.length - 1);
-        }
-        return cleanH;
-    });
+  for (let i = 0; i < Math.min(records.length, 10); i++) {
+    const parsedAsHeader = records[i].fields.map(normalizeHeader);
 
     let keywordFoundCount = 0;
     for (const keyword of potentialHeaderKeywords) {
@@ -163,81 +117,86 @@ export const parseMagentoCustomerCsv = (csvString: string): ParseCustomerResult
     }
     
     if (parsedAsHeader.includes('email') || keywordFoundCount >= 3) {
-      headerLine = currentLine;
-      actualHeaderRowIndex = i;
-      break;
+      return i;
     }
   }
+  return -1;
+};
 
-  if (!headerLine || actualHeaderRowIndex === -1) {
-    return { type: 'parse_error', message: 'Could not find a valid header row in the CSV. Please ensure headers like "email", "firstname", "lastname" are present within the first few lines of the file.' };
+// Converts already tokenized Magento rows; used directly by the import worker, which tokenizes the file in chunks.
+export const convertMagentoCustomerRecords = ({ records: allRecords, errors: syntaxErrors }: ParsedCsv, options: CustomerConversionOptions = {}): ParseCustomerResult => {
+  if (syntaxErrors.length > 0) {
+    return { type: 'parse_error', message: `Malformed CSV: ${formatCsvSyntaxError(syntaxErrors[0])}` };
   }
+  if (allRecords.length === 0) return { type: 'parse_error', message: 'The CSV file is empty.' };
 
-  const dataLines = allLines.slice(actualHeaderRowIndex + 1);
-  const delimiter = detectDelimiter(headerLine);
+  const actualHeaderRowIndex = findCustomerHeaderRowIndex(allRecords);
 
-  const rawHeaders = parseCsvLine(headerLine, delimiter);
-  const headers = rawHeaders.map((h, idx) => {
-    let cleanH = h.toLowerCase().trim();
-    if (idx === 0) cleanH = cleanH.replace(/^\ufeff/, ''); 
-    if (cleanH.startsWith('"') && cleanH.endsWith('"')) {
-        cleanH = cleanH.substring(1, cleanH.length - 1);
-    }
-    return cleanH;
-  });
+  if (actualHeaderRowIndex === -1) {
+    return { type: 'parse_error', message: 'Could not find a valid header row in the CSV. Please ensure headers like "email", "firstname", "lastname" are present within the first few lines of the file.' };
+  }
 
+  const dataRecords = allRecords.slice(actualHeaderRowIndex + 1);
+  const headers = allRecords[actualHeaderRowIndex].fields.map(normalizeHeader);
 
   if (headers.length === 0) return { type: 'parse_error', message: 'Could not parse headers from the identified header row.' };
 
-  const findHeaderIndex = (aliases: string[]) => {
-    for (const alias of aliases) {
-      const index = headers.indexOf(alias.toLowerCase());
-      if (index !== -1) return index;
-    }
-    return -1;
+  const findHeaderIndex = createHeaderIndexFinder(headers, CUSTOMER_MAPPING_FIELDS, options.columnMapping);
+
+  const emailIdx = findHeaderIndex('email');
+  const firstnameIdx = findHeaderIndex('firstName');
+  const lastnameIdx = findHeaderIndex('lastName');
+  const companyAddressIdx = findHeaderIndex('address1');
+  const address2Idx = findHeaderIndex('address2');
+  const companyNameIdx = findHeaderIndex('company');
+  const contactPersonIdx = findHeaderIndex('contactPerson');
+  const contactPhoneIdx = findHeaderIndex('phone');
+  const countryIdx = findHeaderIndex('country');
+  const cityIdx = findHeaderIndex('city');
+  const postcodeIdx = findHeaderIndex('zip');
+  const provinceIdx = findHeaderIndex('province');
+  const provinceCodeIdx = findHeaderIndex('provinceCode');
+
+  const websiteIdx = findHeaderIndex('website');
+  const storeIdx = findHeaderIndex('store');
+  const groupIdIdx = findHeaderIndex('groupId');
+  const createdAtIdx = findHeaderIndex('createdAt');
+  const notesIdx = findHeaderIndex('note');
+  const vatNumberIdx = findHeaderIndex('vatNumber');
+
+  // Columns the user sent to tags or notes on the mapping screen
+  const tagColumnIdxs = getHeadersWithTarget(headers, options.columnMapping, 'tags').map(h => headers.indexOf(h));
+  const noteColumnIdxs = getHeadersWithTarget(headers, options.columnMapping, 'note').map(h => headers.indexOf(h));
+  const tagPrefixes = options.tagPrefixes || DEFAULT_CUSTOMER_TAG_PREFIXES;
+
+  let addressBook: CustomerAddressBook | undefined;
+  if (options.addressRecords) {
+    const addressesResult = parseMagentoCustomerAddresses(options.addressRecords);
+    if (addressesResult.type === 'parse_error') return { type: 'parse_error', message: `Customer Addresses file: ${addressesResult.message}` };
+    addressBook = addressesResult.addressBook;
   }
-
-  const emailIdx = findHeaderIndex(['email']);
-  const firstnameIdx = findHeaderIndex(['firstname', 'first_name', 'first name']);
-  const lastnameIdx = findHeaderIndex(['lastname', 'last_name', 'last name']);
-  const companyAddressIdx = findHeaderIndex(['company_address', 'street', 'address', 'address1', 'billing_street', 'shipping_street']);
-  const address2Idx = findHeaderIndex(['address2', 'street2', 'billing_street2', 'shipping_street2']);
-  const companyNameIdx = findHeaderIndex(['company_name', 'company']);
-  const contactPersonIdx = findHeaderIndex(['contact_person']);
-  const contactPhoneIdx = findHeaderIndex(['contact_phone', 'telephone', 'phone', 'billing_telephone', 'shipping_telephone']);
-  const countryIdx = findHeaderIndex(['land', 'country_id', 'country', 'country_code', 'billing_country_id', 'shipping_country_id']);
-  const cityIdx = findHeaderIndex(['plaats', 'city', 'billing_city', 'shipping_city']);
-  const postcodeIdx = findHeaderIndex(['postcode', 'zip', 'zip_code', 'postal_code', 'billing_postcode', 'shipping_postcode']);
-  const provinceIdx = findHeaderIndex(['province', 'state', 'region', 'billing_region', 'shipping_region']);
-  const provinceCodeIdx = findHeaderIndex(['province_code', 'state_code', 'region_code', 'billing_region_id', 'shipping_region_id']);
-
-  const websiteIdx = findHeaderIndex(['_website', 'website']);
-  const storeIdx = findHeaderIndex(['_store', 'store']);
-  const groupIdIdx = findHeaderIndex(['group_id', 'customer_group']);
-  const createdAtIdx = findHeaderIndex(['created_at']);
-  const notesIdx = findHeaderIndex(['notes', 'note', 'customer_notes']);
-  const vatNumberIdx = findHeaderIndex(['vat_number', 'taxvat', 'billing_taxvat', 'shipping_taxvat']);
+  const mergedAddressKeys = new Set<string>();
+  let addressesMerged = 0;
 
 
   const customers: Partial<ShopifyCustomerFormData>[] = [];
   let mappableHeadersFound = [emailIdx, firstnameIdx, lastnameIdx, companyAddressIdx, companyNameIdx, contactPhoneIdx, countryIdx, cityIdx, postcodeIdx].some(idx => idx !== -1);
 
-   if (!mappableHeadersFound && dataLines.length > 0 && headers.length > 0) {
+   if (!mappableHeadersFound && dataRecords.length > 0 && headers.length > 0) {
      return { type: 'no_customers_extracted', message: 'No recognizable customer data columns (like email, name, address) were found in the CSV header. Please check your file.' };
   }
 
-  for (const line of dataLines) {
-    if (line.trim() === '') continue;
-    const values = parseCsvLine(line, delimiter);
+  for (const record of dataRecords) {
+    const values = record.fields.map(field => field.trim());
 
-    if (values.length !== headers.length && line.trim() !== '') {
-        console.warn(`Column count mismatch: Expected ${headers.length}, got ${values.length}. Line: "${line}"`);
+    if (values.length !== headers.length) {
+        console.warn(`Column count mismatch on line ${record.line}: Expected ${headers.length}, got ${values.length}.`);
         continue; 
     }
     if (values.length === 0 || values.every(v => v === '')) continue;
 
     const customer: Partial<ShopifyCustomerFormData> = {
-      id: crypto.randomUUID(),
+      id: getRandomUUID(),
       acceptsSmsMarketing: false, 
     };
 
@@ -288,40 +247,75 @@ export const parseMagentoCustomerCsv = (csvString: string): ParseCustomerResult
 
     if (postcodeIdx !== -1) customer.zip = values[postcodeIdx];
 
-    if (countryIdx !== -1 && values[countryIdx]) {
-        const countryValue = values[countryIdx];
-        customer.country = countryValue;
-        if (countryValue?.length === 2 && countryValue === countryValue?.toUpperCase()) {
-            customer.countryCode = countryValue;
-        }
-    }
-    if (provinceIdx !== -1) customer.province = values[provinceIdx];
-    if (provinceCodeIdx !== -1) customer.provinceCode = values[provinceCodeIdx];
+    // The country column holds a code (NL, NLD) or a name (Nederland); both are filled where it resolves
+    Object.assign(customer, resolveAddressLocation({
+      country: countryIdx !== -1 ? values[countryIdx] : '',
+      countryCode: '',
+      province: provinceIdx !== -1 ? values[provinceIdx] : '',
+      provinceCode: provinceCodeIdx !== -1 ? values[provinceCodeIdx] : '',
+    }));
 
     if (contactPhoneIdx !== -1) customer.phone = values[contactPhoneIdx];
     if (notesIdx !== -1) customer.note = values[notesIdx];
+    const extraNotes = noteColumnIdxs.filter(idx => values[idx]).map(idx => `${headers[idx]}: ${values[idx]}`);
+    if (extraNotes.length > 0) customer.note = [customer.note, ...extraNotes].filter(Boolean).join('\n');
 
     let tagsArray: string[] = [];
-    if (websiteIdx !== -1 && values[websiteIdx]) tagsArray.push(`magento_website:${values[websiteIdx]}`);
-    if (storeIdx !== -1 && values[storeIdx]) tagsArray.push(`magento_store:${values[storeIdx]}`);
-    if (groupIdIdx !== -1 && values[groupIdIdx]) tagsArray.push(`magento_group_id:${values[groupIdIdx]}`);
-    if (createdAtIdx !== -1 && values[createdAtIdx]) tagsArray.push(`magento_created_at:${values[createdAtIdx]}`);
+    if (websiteIdx !== -1 && values[websiteIdx]) tagsArray.push(`${tagPrefixes.website}${values[websiteIdx]}`);
+    if (storeIdx !== -1 && values[storeIdx]) tagsArray.push(`${tagPrefixes.store}${values[storeIdx]}`);
+    if (groupIdIdx !== -1 && values[groupIdIdx]) tagsArray.push(`${tagPrefixes.groupId}${values[groupIdIdx]}`);
+    if (createdAtIdx !== -1 && values[createdAtIdx]) tagsArray.push(`${tagPrefixes.createdAt}${values[createdAtIdx]}`);
     if (vatNumberIdx !== -1 && values[vatNumberIdx]) {
-      tagsArray.push(`magento_vat_number:${values[vatNumberIdx]}`);
+      tagsArray.push(`${tagPrefixes.vatNumber}${values[vatNumberIdx]}`);
       customer.taxExempt = true; 
     }
+    tagColumnIdxs.forEach(idx => {
+      if (values[idx]) tagsArray.push(`${headers[idx]}:${values[idx]}`);
+    });
 
 
-    customer.tags = tagsArray.filter(tag => tag.split(':')[1]?.trim()).join(', ');
+    customer.tags = tagsArray.join(', ');
     customer.acceptsMarketing = false; 
 
+    // The address book replaces the single address guessed from the customers file
+    const addressKey = addressBook && customer.email ? findCustomerAddressKey(addressBook, customer.email, websiteIdx !== -1 ? values[websiteIdx] : '') : undefined;
+    if (addressBook && addressKey && !mergedAddressKeys.has(addressKey)) {
+      const [defaultAddress, ...otherAddresses] = orderAddressesByDefault(addressBook.addressesByCustomer.get(addressKey)!).map(address => ({ ...toCustomerAddress(address), city: capitalizeCityName(address.city) }));
+      customer.address1 = defaultAddress.address1;
+      customer.address2 = defaultAddress.address2;
+      customer.city = defaultAddress.city;
+      customer.province = defaultAddress.province;
+      customer.provinceCode = defaultAddress.provinceCode;
+      customer.country = defaultAddress.country;
+      customer.countryCode = defaultAddress.countryCode;
+      customer.zip = defaultAddress.zip;
+      customer.company = defaultAddress.company || customer.company;
+      customer.addressPhone = defaultAddress.phone;
+      customer.phone = customer.phone || defaultAddress.phone;
+      customer.addresses = otherAddresses;
+      mergedAddressKeys.add(addressKey);
+      addressesMerged += otherAddresses.length + 1;
+    }
+
+    // 1234ab -> 1234 AB; codes that do not match their country are left for the errors view
+    customer.zip = formatPostalCode(customer.zip, customer.countryCode);
+    customer.addresses = customer.addresses?.map(address => ({ ...address, zip: formatPostalCode(address.zip, address.countryCode) }));
+
+    if (options.phoneFormatting) {
+      const { phoneFormatting } = options;
+      customer.phone = formatPhoneNumber(customer.phone, customer.countryCode, phoneFormatting);
+      customer.addressPhone = formatPhoneNumber(customer.addressPhone, customer.countryCode, phoneFormatting);
+      customer.addresses = customer.addresses?.map(address => ({ ...address, phone: formatPhoneNumber(address.phone, address.countryCode, phoneFormatting) }));
+    }
+
     if (customer.email || customer.firstName || customer.lastName || customer.company || customer.address1 || customer.phone) {
       customers.push(customer);
     }
   }
 
   if (customers.length > 0) {
-    return { type: 'customers_found', data: customers, message: `${customers.length} customer(s) loaded from the CSV. Review and edit if needed.` };
+    const addressesUnmatched = addressBook ? addressBook.addressCount - addressesMerged : 0;
+    return { type: 'customers_found', data: customers, message: `${customers.length} customer(s) loaded from the CSV. Review and edit if needed.`, addressesMerged, addressesUnmatched };
   } else {
     return { type: 'no_customers_extracted', message: 'No valid customer data rows could be extracted. Check if rows have essential info like email or names, and ensure data aligns with headers.' };
   }
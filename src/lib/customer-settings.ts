@@ -0,0 +1,28 @@
+// Customer conversion settings chosen on the mapping screen; shared by the converter, the customer schema and mapping profiles
+
+// Prefixes of the tags that keep Magento metadata on the Shopify customer
+export interface CustomerTagPrefixes {
+  website: string;
+  store: string;
+  groupId: string;
+  createdAt: string;
+  vatNumber: string;
+}
+
+export const DEFAULT_CUSTOMER_TAG_PREFIXES: CustomerTagPrefixes = {
+  website: 'magento_website:',
+  store: 'magento_store:',
+  groupId: 'magento_group_id:',
+  createdAt: 'magento_created_at:',
+  vatNumber: 'magento_vat_number:',
+};
+
+export interface PhoneFormattingRules {
+  normalize: boolean; // when off, phone numbers are exported as entered
+  defaultCountry: string; // ISO alpha-2; numbering plan for national numbers of customers without a country code
+}
+
+export const DEFAULT_PHONE_FORMATTING_RULES: PhoneFormattingRules = {
+  normalize: true,
+  defaultCountry: 'NL',
+};
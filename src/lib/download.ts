@@ -0,0 +1,10 @@
+// Starts a browser download of generated text, e.g. a CSV export
+export const downloadTextFile = (content: string, fileName: string, mimeType = 'text/csv;charset=utf-8;'): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement('a');
+  link.setAttribute('href', URL.createObjectURL(blob));
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
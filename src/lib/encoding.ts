@@ -0,0 +1,124 @@
+// Character encoding detection for uploaded CSV files. Magento 1 exports and files re-saved in Excel
+// are often Windows-1252 or ISO-8859-1 rather than UTF-8.
+
+export type SourceEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-1';
+
+export type EncodingDetectionSource = 'bom' | 'utf8_valid' | 'heuristic' | 'user_selected';
+
+export interface DetectedEncoding {
+  encoding: SourceEncoding;
+  source: EncodingDetectionSource;
+}
+
+export const ENCODING_LABELS: Record<SourceEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252',
+  'iso-8859-1': 'ISO-8859-1 (Latin-1)',
+};
+
+export const ENCODING_DETECTION_SAMPLE_SIZE = 64 * 1024;
+
+const detectBom = (bytes: Uint8Array): SourceEncoding | undefined => {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return undefined;
+};
+
+// Validates UTF-8 byte sequences. A sequence cut off by the end of the sample is not counted as invalid.
+export const isValidUtf8 = (bytes: Uint8Array): boolean => {
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    let continuationBytes: number;
+    let minCodePoint: number;
+
+    if (byte < 0x80) {
+      i++;
+      continue;
+    } else if (byte >= 0xc2 && byte <= 0xdf) {
+      continuationBytes = 1;
+      minCodePoint = 0x80;
+    } else if (byte >= 0xe0 && byte <= 0xef) {
+      continuationBytes = 2;
+      minCodePoint = 0x800;
+    } else if (byte >= 0xf0 && byte <= 0xf4) {
+      continuationBytes = 3;
+      minCodePoint = 0x10000;
+    } else {
+      return false;
+    }
+
+    if (i + continuationBytes >= bytes.length) {
+      // Truncated at the end of the sample: only check the bytes that are there
+      for (let j = i + 1; j < bytes.length; j++) {
+        if ((bytes[j] & 0xc0) !== 0x80) return false;
+      }
+      return true;
+    }
+
+    let codePoint = byte & (0xff >> (continuationBytes + 2));
+    for (let j = 1; j <= continuationBytes; j++) {
+      const next = bytes[i + j];
+      if ((next & 0xc0) !== 0x80) return false;
+      codePoint = (codePoint << 6) | (next & 0x3f);
+    }
+    if (codePoint < minCodePoint || codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) return false;
+    i += continuationBytes + 1;
+  }
+  return true;
+};
+
+export const hasWindows1252Range = (bytes: Uint8Array): boolean => bytes.some(byte => byte >= 0x80 && byte <= 0x9f);
+
+// BOM first, then a strict UTF-8 check. Anything else is a single-byte encoding: bytes in 0x80-0x9F are
+// printable characters (€, –, ’, ...) in Windows-1252 but unused control codes in ISO-8859-1.
+export const detectEncoding = (bytes: Uint8Array): DetectedEncoding => {
+  const bomEncoding = detectBom(bytes);
+  if (bomEncoding) return { encoding: bomEncoding, source: 'bom' };
+  if (isValidUtf8(bytes)) return { encoding: 'utf-8', source: 'utf8_valid' };
+
+  return { encoding: hasWindows1252Range(bytes) ? 'windows-1252' : 'iso-8859-1', source: 'heuristic' };
+};
+
+export const describeEncoding = ({ encoding, source }: DetectedEncoding): string => {
+  const sourceLabel: Record<EncodingDetectionSource, string> = {
+    bom: 'detected from byte order mark',
+    utf8_valid: 'detected',
+    heuristic: 'guessed, file is not valid UTF-8',
+    user_selected: 'selected manually',
+  };
+  return `${ENCODING_LABELS[encoding]} (${sourceLabel[source]})`;
+};
+
+// Windows-1252 code points for bytes 0x80-0x9F; undefined bytes map to the same C1 control as in Latin-1
+const WINDOWS_1252_HIGH_RANGE = [
+  0x20ac, 0x81, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x8d, 0x017d, 0x8f,
+  0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x9d, 0x017e, 0x0178,
+];
+
+export interface ChunkDecoder {
+  decode: (bytes?: Uint8Array, options?: { stream?: boolean }) => string;
+}
+
+// Single-byte encodings are decoded with our own table: TextDecoder treats "iso-8859-1" as Windows-1252
+// in browsers and some Node builds decode "windows-1252" as plain Latin-1. With `fatal` set, UTF-8 and
+// UTF-16 decoding throws a TypeError on malformed input instead of inserting U+FFFD.
+export const createChunkDecoder = (encoding: SourceEncoding, options: { fatal?: boolean } = {}): ChunkDecoder => {
+  if (encoding !== 'windows-1252' && encoding !== 'iso-8859-1') return new TextDecoder(encoding, { fatal: options.fatal });
+
+  return {
+    decode: (bytes?: Uint8Array) => {
+      if (!bytes) return '';
+      let text = '';
+      for (let i = 0; i < bytes.length; i++) {
+        const byte = bytes[i];
+        const codePoint = encoding === 'windows-1252' && byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_HIGH_RANGE[byte - 0x80] : byte;
+        text += String.fromCharCode(codePoint);
+      }
+      return text;
+    },
+  };
+};
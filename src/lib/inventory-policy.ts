@@ -0,0 +1,54 @@
+import type { ShopifyProductFormData } from '@/schemas/product';
+
+// Shopify inventory tracking and out-of-stock policy derived from Magento's stock item settings
+
+// Raw Magento stock columns of one product row
+export interface MagentoStockFields {
+  isInStock?: string;
+  manageStock?: string;
+  useConfigManageStock?: string;
+  allowBackorders?: string;
+  outOfStockQty?: string;
+}
+
+export interface VariantInventorySettings {
+  variantInventoryTracked: boolean;
+  variantInventoryPolicy: 'deny' | 'continue';
+  magentoIsInStock?: boolean;
+}
+
+// Magento's "Manage Stock" setting is on unless the store configuration says otherwise
+export const DEFAULT_MANAGE_STOCK = true;
+
+const isFlagSet = (value: string | undefined): boolean => ['1', 'yes', 'true'].includes((value || '').trim().toLowerCase());
+const isFlagGiven = (value: string | undefined): boolean => (value || '').trim() !== '';
+
+export const resolveVariantInventorySettings = (fields: MagentoStockFields, defaultManageStock = DEFAULT_MANAGE_STOCK): VariantInventorySettings => {
+  const usesConfig = !isFlagGiven(fields.useConfigManageStock) || isFlagSet(fields.useConfigManageStock);
+  const tracked = usesConfig || !isFlagGiven(fields.manageStock) ? defaultManageStock : isFlagSet(fields.manageStock);
+  // allow_backorders 1 (allow) and 2 (allow and notify); a negative out-of-stock threshold also keeps the item sellable
+  const backorders = ['1', '2'].includes((fields.allowBackorders || '').trim()) || Number((fields.outOfStockQty || '0').replace(',', '.')) < 0;
+  return {
+    variantInventoryTracked: tracked,
+    variantInventoryPolicy: backorders ? 'continue' : 'deny',
+    magentoIsInStock: isFlagGiven(fields.isInStock) ? isFlagSet(fields.isInStock) : undefined,
+  };
+};
+
+// Explains how Shopify will treat a variant whose Magento stock status disagrees with its quantity
+export const getStockStatusWarning = (
+  product: Pick<ShopifyProductFormData, 'variantInventoryQty' | 'variantInventoryTracked' | 'variantInventoryPolicy' | 'magentoIsInStock'>
+): string | undefined => {
+  if (product.magentoIsInStock === undefined) return undefined;
+  const qty = product.variantInventoryQty ?? 0;
+  if (!product.variantInventoryTracked) {
+    return product.magentoIsInStock ? undefined : 'Out of stock in Magento, but inventory is not tracked: Shopify will keep selling it.';
+  }
+  if (product.magentoIsInStock && qty <= 0 && product.variantInventoryPolicy === 'deny') {
+    return `In stock in Magento, but the quantity is ${qty}: Shopify will show it as sold out.`;
+  }
+  if (!product.magentoIsInStock && qty > 0) {
+    return `Out of stock in Magento, but the quantity is ${qty}: Shopify will sell it.`;
+  }
+  return undefined;
+};
@@ -0,0 +1,102 @@
+import type { ShopifyProductFormData } from '@/schemas/product';
+import { arrayToCsv, formatCsvSyntaxError, parseCsv, type ParsedCsv } from '@/lib/csv';
+import { normalizeHeader } from '@/lib/column-mapping';
+
+// Per-source stock from a Magento 2.3+ (MSI) "Stock Sources" export, exported as a Shopify inventory CSV per location
+
+export interface StockSourceItem {
+  sku: string;
+  sourceCode: string;
+  quantity: number;
+  inStock: boolean; // source item status; out of stock items are exported as 0 available
+}
+
+// Magento source code -> Shopify location name; sources mapped to an empty name are left out of the export
+export type SourceLocationMapping = Record<string, string>;
+
+export type ParseStockSourcesResult =
+  | { type: 'sources_found'; items: StockSourceItem[]; sourceCodes: string[]; linesSkipped: number }
+  | { type: 'no_sources_found'; message: string }
+  | { type: 'parse_error'; message: string };
+
+export interface InventoryLevel {
+  handle: string;
+  sku: string;
+  location: string;
+  available: number;
+}
+
+const STOCK_SOURCE_HEADERS = { sku: 'sku', sourceCode: 'source_code', quantity: 'quantity', status: 'status' };
+
+export const parseMagentoStockSourcesCsv = (csvString: string): ParseStockSourcesResult =>
+  convertMagentoStockSourceRecords(parseCsv(csvString));
+
+export const convertMagentoStockSourceRecords = ({ records, errors }: ParsedCsv): ParseStockSourcesResult => {
+  if (errors.length > 0) return { type: 'parse_error', message: `Malformed CSV: ${formatCsvSyntaxError(errors[0])}` };
+  if (records.length === 0) return { type: 'no_sources_found', message: 'The CSV file is empty.' };
+
+  const headers = records[0].fields.map(normalizeHeader);
+  const skuIdx = headers.indexOf(STOCK_SOURCE_HEADERS.sku);
+  const sourceCodeIdx = headers.indexOf(STOCK_SOURCE_HEADERS.sourceCode);
+  const quantityIdx = headers.indexOf(STOCK_SOURCE_HEADERS.quantity);
+  const statusIdx = headers.indexOf(STOCK_SOURCE_HEADERS.status);
+  if (skuIdx === -1 || sourceCodeIdx === -1 || quantityIdx === -1) {
+    return { type: 'parse_error', message: 'A stock sources CSV needs "source_code", "sku" and "quantity" columns.' };
+  }
+
+  const items: StockSourceItem[] = [];
+  let linesSkipped = 0;
+  for (const record of records.slice(1)) {
+    const values = record.fields.map(field => field.trim());
+    if (values.every(v => v === '')) continue;
+    const sku = values[skuIdx];
+    const sourceCode = values[sourceCodeIdx];
+    const quantity = Number((values[quantityIdx] || '0').replace(',', '.'));
+    if (!sku || !sourceCode || Number.isNaN(quantity)) {
+      linesSkipped++;
+      continue;
+    }
+    items.push({
+      sku,
+      sourceCode,
+      quantity: Math.trunc(quantity),
+      inStock: statusIdx === -1 || !['0', 'out of stock'].includes((values[statusIdx] || '').toLowerCase()),
+    });
+  }
+
+  if (items.length === 0) return { type: 'no_sources_found', message: 'No source items with a SKU, source code and quantity were found.' };
+  const sourceCodes = Array.from(new Set(items.map(item => item.sourceCode))).sort();
+  return { type: 'sources_found', items, sourceCodes, linesSkipped };
+};
+
+// Each source starts out mapped to a Shopify location of the same name
+export const createDefaultSourceLocationMapping = (sourceCodes: string[]): SourceLocationMapping =>
+  Object.fromEntries(sourceCodes.map(code => [code, code]));
+
+// One level per variant and location, in product order. Sources mapped to the same location are added up.
+export const buildInventoryLevels = (
+  products: Pick<ShopifyProductFormData, 'handle' | 'variantSku'>[],
+  items: StockSourceItem[],
+  mapping: SourceLocationMapping
+): InventoryLevel[] => {
+  const itemsBySku = new Map<string, StockSourceItem[]>();
+  items.forEach(item => itemsBySku.set(item.sku, [...(itemsBySku.get(item.sku) || []), item]));
+
+  const levels: InventoryLevel[] = [];
+  products.forEach(({ handle, variantSku }) => {
+    if (!variantSku) return;
+    const byLocation = new Map<string, number>();
+    (itemsBySku.get(variantSku) || []).forEach(item => {
+      const location = (mapping[item.sourceCode] || '').trim();
+      if (!location) return;
+      byLocation.set(location, (byLocation.get(location) || 0) + (item.inStock ? Math.max(0, item.quantity) : 0));
+    });
+    byLocation.forEach((available, location) => levels.push({ handle, sku: variantSku, location, available }));
+  });
+  return levels;
+};
+
+export const generateShopifyInventoryCsv = (levels: InventoryLevel[]): string => {
+  const headers = ['Handle', 'SKU', 'Location', 'Available'];
+  return arrayToCsv(headers, levels.map(level => [level.handle, level.sku, level.location, String(level.available)]));
+};
@@ -0,0 +1,95 @@
+import { mappingProfilesFileSchema, type MappingProfile, type MappingProfilesFile } from '@/schemas/mapping-profile';
+import { normalizeHeader, type ColumnMapping, type ColumnMappingPreview, type MappingEntity } from '@/lib/column-mapping';
+import { getRandomUUID } from '@/lib/utils';
+
+// Named import profiles: a column mapping plus the settings that go with a particular Magento export.
+// Profiles live in localStorage and can be moved between browsers as JSON files.
+
+export const MAPPING_PROFILES_STORAGE_KEY = 'csv-shopify-generator:mapping-profiles';
+
+export type MappingProfileSettings = Pick<MappingProfile, 'columnMapping' | 'magentoBaseImageUrl' | 'tagPrefixes' | 'phoneFormatting' | 'attributeMapping'>;
+
+export type ParseMappingProfilesResult =
+  | { type: 'profiles_found'; profiles: MappingProfile[] }
+  | { type: 'parse_error'; message: string };
+
+// Order-independent fingerprint of a file's columns
+export const getHeaderSignature = (headers: string[]): string =>
+  Array.from(new Set(headers.map(normalizeHeader).filter(Boolean))).sort().join('|');
+
+// The most recently saved profile for exactly these headers, if any
+export const findMatchingProfile = (profiles: MappingProfile[], entity: MappingEntity, headers: string[]): MappingProfile | undefined => {
+  const signature = getHeaderSignature(headers);
+  return profiles
+    .filter(profile => profile.entity === entity && profile.headerSignature === signature)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+};
+
+// The profile's targets for the columns in this file; columns the profile does not know keep the proposed target
+export const applyProfileMapping = (preview: ColumnMappingPreview, profile: MappingProfile): ColumnMapping => {
+  const mapping: ColumnMapping = { ...preview.proposedMapping };
+  preview.columns.forEach(({ header }) => {
+    if (profile.columnMapping[header]) mapping[header] = profile.columnMapping[header];
+  });
+  return mapping;
+};
+
+export const createMappingProfile = (
+  name: string,
+  entity: MappingEntity,
+  headers: string[],
+  settings: MappingProfileSettings
+): MappingProfile => ({
+  id: getRandomUUID(),
+  name: name.trim(),
+  entity,
+  headerSignature: getHeaderSignature(headers),
+  ...settings,
+  updatedAt: new Date().toISOString(),
+});
+
+// Replaces a profile with the same id, or with the same name for the same entity, otherwise appends it
+export const upsertMappingProfile = (profiles: MappingProfile[], profile: MappingProfile): MappingProfile[] => {
+  const index = profiles.findIndex(existing =>
+    existing.id === profile.id || (existing.entity === profile.entity && existing.name.toLowerCase() === profile.name.toLowerCase()));
+  if (index === -1) return [...profiles, profile];
+  const next = [...profiles];
+  next[index] = { ...profile, id: profiles[index].id };
+  return next;
+};
+
+export const serializeMappingProfiles = (profiles: MappingProfile[]): string => {
+  const file: MappingProfilesFile = { version: 1, profiles };
+  return JSON.stringify(file, null, 2);
+};
+
+export const parseMappingProfiles = (json: string): ParseMappingProfilesResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { type: 'parse_error', message: 'The file is not valid JSON.' };
+  }
+  const parsed = mappingProfilesFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.length > 0 ? ` (${issue.path.join('.')})` : '';
+    return { type: 'parse_error', message: `Not a valid mapping profile file: ${issue.message}${path}.` };
+  }
+  return { type: 'profiles_found', profiles: parsed.data.profiles };
+};
+
+export const loadMappingProfiles = (storage: Pick<Storage, 'getItem'>): MappingProfile[] => {
+  const stored = storage.getItem(MAPPING_PROFILES_STORAGE_KEY);
+  if (!stored) return [];
+  const result = parseMappingProfiles(stored);
+  if (result.type === 'parse_error') {
+    console.warn(`Ignoring stored mapping profiles: ${result.message}`);
+    return [];
+  }
+  return result.profiles;
+};
+
+export const saveMappingProfiles = (storage: Pick<Storage, 'setItem'>, profiles: MappingProfile[]): void => {
+  storage.setItem(MAPPING_PROFILES_STORAGE_KEY, serializeMappingProfiles(profiles));
+};
@@ -0,0 +1,124 @@
+// Country-aware phone number normalization to E.164 (+<calling code><national number>), using numbering plan
+// metadata for the EU, the UK and North America bundled below, so it works offline and in the import worker
+
+export type PhoneNumberType = 'mobile' | 'landline' | 'mobile_or_landline' | 'unknown';
+
+export interface PhoneNumberingPlan {
+  callingCode: string;
+  trunkPrefixes: string[]; // dialled before national numbers, dropped in international format
+  lengths: [number, number]; // min and max digits of the national significant number
+  pattern?: RegExp; // stricter check of the national significant number, where the plan allows one
+  mobilePattern?: RegExp; // absent where mobile and landline numbers share ranges (North America)
+}
+
+// Keyed by ISO 3166-1 alpha-2 code
+export const PHONE_NUMBERING_PLANS: Record<string, PhoneNumberingPlan> = {
+  AT: { callingCode: '43', trunkPrefixes: ['0'], lengths: [6, 13], mobilePattern: /^6[5-9]\d{4,11}$/ },
+  BE: { callingCode: '32', trunkPrefixes: ['0'], lengths: [8, 9], mobilePattern: /^4[5-9]\d{7}$/ },
+  BG: { callingCode: '359', trunkPrefixes: ['0'], lengths: [7, 9], mobilePattern: /^(8[7-9]|98)\d{7}$/ },
+  CY: { callingCode: '357', trunkPrefixes: [], lengths: [8, 8], mobilePattern: /^9\d{7}$/ },
+  CZ: { callingCode: '420', trunkPrefixes: [], lengths: [9, 9], mobilePattern: /^(60[1-8]|7[2-9]\d)\d{6}$/ },
+  DE: { callingCode: '49', trunkPrefixes: ['0'], lengths: [6, 12], mobilePattern: /^1[5-7]\d{8,9}$/ },
+  DK: { callingCode: '45', trunkPrefixes: [], lengths: [8, 8], mobilePattern: /^(2\d|3[01]|4[0-2]|5[0-3]|6[01]|71|81|9[1-3])\d{6}$/ },
+  EE: { callingCode: '372', trunkPrefixes: [], lengths: [7, 8], mobilePattern: /^5\d{6,7}$/ },
+  ES: { callingCode: '34', trunkPrefixes: [], lengths: [9, 9], mobilePattern: /^[67]\d{8}$/ },
+  FI: { callingCode: '358', trunkPrefixes: ['0'], lengths: [5, 12], mobilePattern: /^(4\d|50)\d{4,8}$/ },
+  FR: { callingCode: '33', trunkPrefixes: ['0'], lengths: [9, 9], mobilePattern: /^[67]\d{8}$/ },
+  GB: { callingCode: '44', trunkPrefixes: ['0'], lengths: [9, 10], mobilePattern: /^7[1-57-9]\d{8}$/ },
+  GR: { callingCode: '30', trunkPrefixes: [], lengths: [10, 10], mobilePattern: /^69\d{8}$/ },
+  HR: { callingCode: '385', trunkPrefixes: ['0'], lengths: [8, 9], mobilePattern: /^9[1-9]\d{6,7}$/ },
+  HU: { callingCode: '36', trunkPrefixes: ['06'], lengths: [8, 9], mobilePattern: /^(20|30|31|50|70)\d{7}$/ },
+  IE: { callingCode: '353', trunkPrefixes: ['0'], lengths: [7, 10], mobilePattern: /^8[35-9]\d{7}$/ },
+  IT: { callingCode: '39', trunkPrefixes: [], lengths: [6, 11], mobilePattern: /^3\d{8,9}$/ }, // landlines keep their leading 0
+  LT: { callingCode: '370', trunkPrefixes: ['8', '0'], lengths: [8, 8], mobilePattern: /^6\d{7}$/ },
+  LU: { callingCode: '352', trunkPrefixes: [], lengths: [4, 11], mobilePattern: /^6[269]1\d{6}$/ },
+  LV: { callingCode: '371', trunkPrefixes: [], lengths: [8, 8], mobilePattern: /^2\d{7}$/ },
+  MT: { callingCode: '356', trunkPrefixes: [], lengths: [8, 8], mobilePattern: /^(7[79]|9[2-9])\d{6}$/ },
+  NL: { callingCode: '31', trunkPrefixes: ['0'], lengths: [9, 9], mobilePattern: /^6[1-58]\d{7}$/ },
+  PL: { callingCode: '48', trunkPrefixes: [], lengths: [9, 9], mobilePattern: /^(45|5[0137]|6[069]|7[2389]|88)\d{7}$/ },
+  PT: { callingCode: '351', trunkPrefixes: [], lengths: [9, 9], mobilePattern: /^9[1236]\d{7}$/ },
+  RO: { callingCode: '40', trunkPrefixes: ['0'], lengths: [9, 9], mobilePattern: /^7\d{8}$/ },
+  SE: { callingCode: '46', trunkPrefixes: ['0'], lengths: [7, 10], mobilePattern: /^7[02369]\d{7}$/ },
+  SI: { callingCode: '386', trunkPrefixes: ['0'], lengths: [8, 8], mobilePattern: /^(3[01]|4[01]|5[01]|6[4589]|7[01])\d{6}$/ },
+  SK: { callingCode: '421', trunkPrefixes: ['0'], lengths: [9, 9], mobilePattern: /^9\d{8}$/ },
+  US: { callingCode: '1', trunkPrefixes: ['1'], lengths: [10, 10], pattern: /^[2-9]\d{2}[2-9]\d{6}$/ },
+  CA: { callingCode: '1', trunkPrefixes: ['1'], lengths: [10, 10], pattern: /^[2-9]\d{2}[2-9]\d{6}$/ },
+};
+
+export const PHONE_NUMBER_TYPE_LABELS: Record<PhoneNumberType, string> = {
+  mobile: 'Mobile',
+  landline: 'Landline',
+  mobile_or_landline: 'Mobile or landline',
+  unknown: 'Unknown type',
+};
+
+export type PhoneNumberResult =
+  | { type: 'valid'; e164: string; country?: string; numberType: PhoneNumberType }
+  | { type: 'invalid'; message: string };
+
+// E.164 allows at most 15 digits; shorter than 7 is never a complete number
+const E164_DIGIT_RANGE: [number, number] = [7, 15];
+
+const isValidNationalNumber = (digits: string, plan: PhoneNumberingPlan): boolean =>
+  digits.length >= plan.lengths[0] && digits.length <= plan.lengths[1] && (!plan.pattern || plan.pattern.test(digits));
+
+const stripTrunkPrefix = (digits: string, plan: PhoneNumberingPlan): string => {
+  const prefix = plan.trunkPrefixes.find(trunkPrefix => digits.startsWith(trunkPrefix));
+  return prefix ? digits.slice(prefix.length) : digits;
+};
+
+const toValidResult = (country: string, plan: PhoneNumberingPlan, nationalNumber: string): PhoneNumberResult => ({
+  type: 'valid',
+  e164: `+${plan.callingCode}${nationalNumber}`,
+  country,
+  numberType: !plan.mobilePattern ? 'mobile_or_landline' : plan.mobilePattern.test(nationalNumber) ? 'mobile' : 'landline',
+});
+
+// `digits` follows the + or 00; a trunk prefix written after the calling code (+31 06...) is dropped
+const normalizeInternational = (phone: string, digits: string, country?: string): PhoneNumberResult => {
+  const countries = Object.keys(PHONE_NUMBERING_PLANS).filter(code => digits.startsWith(PHONE_NUMBERING_PLANS[code].callingCode));
+  if (countries.length === 0) {
+    return digits.length >= E164_DIGIT_RANGE[0] && digits.length <= E164_DIGIT_RANGE[1]
+      ? { type: 'valid', e164: `+${digits}`, numberType: 'unknown' }
+      : { type: 'invalid', message: `"${phone}" is not a valid international phone number.` };
+  }
+  // +1 is shared by the US and Canada; prefer the customer's own country
+  const planCountry = countries.find(code => code === country) || countries[0];
+  const plan = PHONE_NUMBERING_PLANS[planCountry];
+  const nationalNumber = digits.slice(plan.callingCode.length);
+  const candidate = [nationalNumber, stripTrunkPrefix(nationalNumber, plan)].find(candidate => isValidNationalNumber(candidate, plan));
+  return candidate ? toValidResult(planCountry, plan, candidate) : { type: 'invalid', message: `"${phone}" is not a valid ${planCountry} phone number.` };
+};
+
+// National numbers are read with the numbering plan of `country` (ISO alpha-2), international ones with their calling code
+export const normalizePhoneNumber = (phone: string, country?: string): PhoneNumberResult => {
+  const trimmed = phone.trim();
+  if (!/^[\d\s()+./-]+$/.test(trimmed)) {
+    return { type: 'invalid', message: `"${phone}" contains characters other than digits, spaces and +()-./.` };
+  }
+  const countryCode = country?.trim().toUpperCase() || undefined;
+  const plan = countryCode ? PHONE_NUMBERING_PLANS[countryCode] : undefined;
+  // "(0)" marks a trunk prefix that is skipped from abroad, as in +31 (0)6 12345678
+  const digits = trimmed.replace(/\(0\)/g, '').replace(/[^\d+]/g, '');
+  if (digits.lastIndexOf('+') > 0) return { type: 'invalid', message: `"${phone}" is not a valid phone number.` };
+
+  if (digits.startsWith('+')) return normalizeInternational(phone, digits.slice(1), countryCode);
+  if (digits.startsWith('00')) return normalizeInternational(phone, digits.slice(2), countryCode);
+  if (plan?.callingCode === '1' && digits.startsWith('011')) return normalizeInternational(phone, digits.slice(3), countryCode);
+
+  if (!plan) {
+    return {
+      type: 'invalid',
+      message: countryCode
+        ? `"${phone}" has no country calling code and there is no numbering plan for ${countryCode}; write it as +<calling code> <number>.`
+        : `"${phone}" has no country calling code and no country to take it from.`,
+    };
+  }
+  const nationalNumber = stripTrunkPrefix(digits, plan);
+  if (isValidNationalNumber(nationalNumber, plan)) return toValidResult(countryCode!, plan, nationalNumber);
+  // Written with the calling code but without + or 00, e.g. 31612345678
+  if (digits.startsWith(plan.callingCode) && isValidNationalNumber(digits.slice(plan.callingCode.length), plan)) {
+    return toValidResult(countryCode!, plan, digits.slice(plan.callingCode.length));
+  }
+  return { type: 'invalid', message: `"${phone}" is not a valid ${countryCode} phone number.` };
+};
@@ -0,0 +1,71 @@
+// Postal code rules per country: validation against the national format and the canonical spelling Shopify shows
+// at checkout. Codes of countries without a rule are kept as entered.
+
+export interface PostalCodeRule {
+  pattern: RegExp; // the compact form: upper case, without spaces and dashes
+  format?: (compact: string) => string;
+  example: string;
+  prefixes?: string[]; // country prefixes written before the code, as in D-10115
+  digitLengths?: number[]; // all-digit codes that spreadsheets shorten by dropping leading zeros
+}
+
+// Keyed by ISO 3166-1 alpha-2 code, so the United Kingdom is GB
+export const POSTAL_CODE_RULES: Record<string, PostalCodeRule> = {
+  NL: { pattern: /^[1-9]\d{3}[A-Z]{2}$/, format: compact => `${compact.slice(0, 4)} ${compact.slice(4)}`, example: '1234 AB', prefixes: ['NL'] },
+  BE: { pattern: /^[1-9]\d{3}$/, example: '1000', prefixes: ['B', 'BE'] },
+  DE: { pattern: /^\d{5}$/, example: '10115', prefixes: ['D', 'DE'], digitLengths: [5] },
+  FR: { pattern: /^\d{5}$/, example: '75001', prefixes: ['F', 'FR'] },
+  GB: { pattern: /^([A-Z]{1,2}\d[A-Z\d]?|GIR)\d[A-Z]{2}$/, format: compact => `${compact.slice(0, -3)} ${compact.slice(-3)}`, example: 'SW1A 1AA' },
+  US: { pattern: /^\d{5}(\d{4})?$/, format: compact => compact.length === 9 ? `${compact.slice(0, 5)}-${compact.slice(5)}` : compact, example: '10001 or 10001-1234', digitLengths: [5, 9] },
+  CA: { pattern: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z]\d[ABCEGHJ-NPRSTV-Z]\d$/, format: compact => `${compact.slice(0, 3)} ${compact.slice(3)}`, example: 'K1A 0B1' },
+};
+
+export type PostalCodeResult =
+  | { type: 'valid'; formatted: string }
+  | { type: 'invalid'; message: string; withLeadingZeros?: string };
+
+// No real code starts with more than two zeros, so shorter numbers are not padded
+const MAX_DROPPED_ZEROS = 2;
+
+const getRule = (countryCode: string): PostalCodeRule | undefined => POSTAL_CODE_RULES[countryCode.trim().toUpperCase()];
+
+const toCompact = (zip: string, rule: PostalCodeRule): string => {
+  const compact = zip.trim().toUpperCase();
+  const prefix = rule.prefixes?.find(prefix => compact.startsWith(`${prefix}-`));
+  return (prefix ? compact.slice(prefix.length + 1) : compact).replace(/[\s-]/g, '');
+};
+
+const formatCompact = (compact: string, rule: PostalCodeRule): string => rule.format ? rule.format(compact) : compact;
+
+// The canonical code with the zeros a spreadsheet dropped put back, e.g. US 2134 -> 02134; undefined when that does not apply
+export const restorePostalCodeLeadingZeros = (zip: string, countryCode: string): string | undefined => {
+  const rule = getRule(countryCode);
+  if (!rule?.digitLengths) return undefined;
+  const compact = toCompact(zip, rule);
+  if (!/^\d+$/.test(compact) || rule.pattern.test(compact)) return undefined;
+  const length = rule.digitLengths.find(length => length > compact.length && length - compact.length <= MAX_DROPPED_ZEROS);
+  if (!length) return undefined;
+  const padded = compact.padStart(length, '0');
+  return rule.pattern.test(padded) ? formatCompact(padded, rule) : undefined;
+};
+
+export const normalizePostalCode = (zip: string, countryCode: string): PostalCodeResult => {
+  const trimmed = zip.trim();
+  const rule = getRule(countryCode);
+  if (!trimmed || !rule) return { type: 'valid', formatted: trimmed };
+  const compact = toCompact(trimmed, rule);
+  if (rule.pattern.test(compact)) return { type: 'valid', formatted: formatCompact(compact, rule) };
+
+  const country = countryCode.trim().toUpperCase();
+  const withLeadingZeros = restorePostalCodeLeadingZeros(trimmed, country);
+  return withLeadingZeros
+    ? { type: 'invalid', message: `"${zip}" is missing leading zeros; the ${country} postal code is ${withLeadingZeros}.`, withLeadingZeros }
+    : { type: 'invalid', message: `"${zip}" is not a valid ${country} postal code, e.g. ${rule.example}.` };
+};
+
+// The canonical form of valid codes; anything else is returned trimmed, for the schema to report
+export const formatPostalCode = (zip: string | undefined, countryCode = ''): string => {
+  if (!zip) return '';
+  const result = normalizePostalCode(zip, countryCode);
+  return result.type === 'valid' ? result.formatted : zip.trim();
+};
@@ -1,4 +1,32 @@
 import type { ShopifyProductFormData } from '@/schemas/product';
+import { getRandomUUID } from '@/lib/utils';
+import { arrayToCsv, formatCsvSyntaxError, parseCsv, type CsvFieldValue, type ParsedCsv } from '@/lib/csv';
+import { formatDecimal, toCsvOutput, type CsvOutputProfile } from '@/lib/csv-output';
+import { createHeaderIndexFinder, getHeadersWithTarget, normalizeHeader, PRODUCT_MAPPING_FIELDS, type ColumnMapping } from '@/lib/column-mapping';
+import { normalizeBarcode } from '@/lib/barcode';
+import { buildCategoryTree, createCategoryLookup, parseCategoryPaths, type ProductCategory } from '@/lib/category-collections';
+import {
+  formatMetafieldValue,
+  getAttributeTarget,
+  getMetafieldColumnHeader,
+  parseAdditionalAttributes,
+  type AdditionalAttributeMapping,
+} from '@/lib/additional-attributes';
+import { resolveVariantInventorySettings, type VariantInventorySettings } from '@/lib/inventory-policy';
+import { expandCustomOptionVariants, parseMagentoCustomOptions, planCustomOptions, type MagentoCustomOption } from '@/lib/custom-options';
+import { cleanMagentoBodyHtml } from '@/lib/body-html';
+import { DEFAULT_SOURCE_WEIGHT_UNIT, toGrams, type WeightUnit } from '@/lib/weight';
+import { collectCustomerGroups, parseMagentoTierPrices, resolveTierPrices, type TierPrice } from '@/lib/tier-prices';
+import { storeViewToLocale, TRANSLATABLE_PRODUCT_FIELDS, type ProductTranslation, type TranslatableProductField } from '@/lib/product-translations';
+import {
+  buildCategoryRedirects,
+  buildProductRedirects,
+  createHandleAllocator,
+  DEFAULT_PRODUCT_HANDLE_SOURCE,
+  getPreferredHandle,
+  type ProductHandleSource,
+  type UrlRedirect,
+} from '@/lib/url-redirects';
 
 export type ParseProductResult =
   | {
@@ -15,6 +43,16 @@ export type ParseProductResult =
       variantSkusNotFoundInSimples: number;
       standaloneSimplesProcessed: number;
       shopifyEntryCount: number;
+      configurablesWithTooManyOptions: ConfigurableOptionOverflow[];
+      groupedProductsConverted: number;
+      bundleProductsConverted: number;
+      skippedOtherTypeSkus: SkippedProduct[];
+      bundleComponents: BundleComponentsEntry[];
+      storeViews: string[]; // store view codes found in the file, besides the default values
+      translations: ProductTranslation[];
+      categories: ProductCategory[];
+      redirects: UrlRedirect[]; // old Magento product and category URLs
+      customerGroups: string[]; // groups with tier or group prices
     }
   | {
       type: 'no_products_extracted';
@@ -25,6 +63,8 @@ export type ParseProductResult =
       simpleProductsCollected: number;
       configurableProductsCollected: number;
       otherProductTypesSkipped: number;
+      configurablesWithTooManyOptions: ConfigurableOptionOverflow[];
+      skippedOtherTypeSkus: SkippedProduct[];
     }
   | {
       type: 'parse_error';
@@ -33,110 +73,218 @@ export type ParseProductResult =
       linesSkippedColumnCountMismatch: number; 
     };
 
+// Shopify products have at most three options; configurables with more attributes are not converted
+export const MAX_SHOPIFY_OPTIONS = 3;
 
-const escapeCsvField = (field: string | number | boolean | undefined | null): string => {
-  if (field === undefined || field === null) {
-    return '';
-  }
-  const stringField = String(field);
-  if (stringField.includes(',') || stringField.includes('\n') || stringField.includes('"')) {
-    return `"${stringField.replace(/"/g, '""')}"`;
-  }
-  return stringField;
+export interface ConfigurableOptionOverflow {
+  sku: string;
+  attributes: string[]; // Magento attribute codes, in option order
+}
+
+export interface SkippedProduct {
+  sku: string;
+  type: string;
+}
+
+// How Magento product types without a direct Shopify equivalent are converted
+export type GroupedProductStrategy = 'variants' | 'skip'; // variants: one Shopify variant per child simple
+export type BundleProductStrategy = 'flatten' | 'components_metafield' | 'skip';
+
+export interface ProductTypeStrategies {
+  groupedProducts: GroupedProductStrategy;
+  bundleProducts: BundleProductStrategy;
+}
+
+export const DEFAULT_PRODUCT_TYPE_STRATEGIES: ProductTypeStrategies = {
+  groupedProducts: 'variants',
+  bundleProducts: 'flatten',
 };
 
-const arrayToCsv = (headers: string[], data: (string | number | boolean | undefined | null)[][]): string => {
-  const headerRow = headers.map(escapeCsvField).join(',');
-  const dataRows = data.map(row =>
-    row.map(escapeCsvField).join(',')
-  );
-  return [headerRow, ...dataRows].join('\n');
+// Product types that are converted like simples but never ship
+const NON_SHIPPING_PRODUCT_TYPES = ['virtual', 'downloadable'];
+
+export interface BundleSelection {
+  option: string; // bundle option title
+  type: string; // select, radio, checkbox, multi
+  required: boolean;
+  sku: string;
+  price: number;
+  priceType: 'fixed' | 'percent';
+  isDefault: boolean;
+  qty: number;
+}
+
+// Components of one bundle, exported as a metafield CSV when bundles use the components_metafield strategy
+export interface BundleComponentsEntry {
+  handle: string;
+  sku: string;
+  components: BundleSelection[];
+}
+
+export interface ProductConversionOptions extends Partial<ProductTypeStrategies> {
+  columnMapping?: ColumnMapping; // when omitted, columns are matched by the default aliases
+  referenceDate?: Date; // day used to decide whether a special price is active, defaults to today
+  defaultStoreView?: string; // store_view_code whose values go into the main CSV; blank keeps the default (admin) values
+  attributeMapping?: AdditionalAttributeMapping; // additional_attributes codes left out become custom.<code> text metafields
+  handleSource?: ProductHandleSource; // defaults to the slugged url_key
+  weightUnit?: WeightUnit; // unit of Magento's weight column, also shown in Shopify; defaults to kg
+}
+
+// Raw Magento price columns of one product row
+export interface MagentoPriceFields {
+  price?: string;
+  specialPrice?: string;
+  specialPriceFromDate?: string;
+  specialPriceToDate?: string;
+  msrp?: string;
+  cost?: string;
+}
+
+export interface VariantPricing {
+  variantPrice: number;
+  variantCompareAtPrice?: number;
+  variantCost?: number;
+}
+
+
+interface ConfigurableVariation {
+  sku?: string;
+  attributes: Map<string, string>; // attribute code -> option value
+}
+
+// `size=Size,color=Color`; some exports separate the pairs with `|` instead
+const parseConfigurableVariationLabels = (labelsString: string | undefined): Map<string, string> => {
+  const labels = new Map<string, string>();
+  if (!labelsString) return labels;
+  labelsString.split(/[|,]/).forEach(pair => {
+    const [code, ...labelParts] = pair.split('=');
+    const label = labelParts.join('=').trim();
+    if (code?.trim()) labels.set(code.trim(), label || code.trim());
+  });
+  return labels;
 };
 
-const parseCsvLine = (line: string, delimiter: ',' | ';'): string[] => {
-  const result: string[] = [];
-  let currentValue = "";
-  let inQuotes = false;
+// `sku=MS-S-Red,size=S,color=Red|sku=MS-M-Red,size=M,color=Red`: one entry per child product
+const parseConfigurableVariations = (variationsString: string | undefined): ConfigurableVariation[] => {
+  if (!variationsString) return [];
+  return variationsString.split('|').filter(v => v.trim()).map(variation => {
+    const parsed: ConfigurableVariation = { attributes: new Map() };
+    variation.split(',').forEach(attr => {
+      const [key, ...valueParts] = attr.split('=');
+      const value = valueParts.join('=').trim();
+      if (!key?.trim() || !value) return;
+      if (key.trim().toLowerCase() === 'sku') parsed.sku = value;
+      else parsed.attributes.set(key.trim(), value);
+    });
+    return parsed;
+  });
+};
 
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
+// Option order follows the labels column, then the order attributes first appear in the variations
+const getConfigurableAttributeCodes = (variations: ConfigurableVariation[], labels: Map<string, string>): string[] => {
+  const used = new Set<string>();
+  variations.forEach(variation => variation.attributes.forEach((_, code) => used.add(code)));
+  const ordered = Array.from(labels.keys()).filter(code => used.has(code));
+  used.forEach(code => { if (!ordered.includes(code)) ordered.push(code); });
+  return ordered;
+};
 
-    if (char === '"') {
-      if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
-        currentValue += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === delimiter && !inQuotes) {
-      result.push(currentValue);
-      currentValue = "";
-    } else {
-      currentValue += char;
-    }
-  }
-  result.push(currentValue);
-  return result.map(field => field.trim());
+const parseDecimal = (value: string | undefined): number => {
+  const parsed = parseFloat(String(value ?? '').replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : 0;
 };
 
-const detectDelimiter = (line: string): ',' | ';' => {
-  if (!line) return ','; 
-  const commaCount = (line.match(/,/g) || []).length;
-  const semicolonCount = (line.match(/;/g) || []).length;
-  return semicolonCount > commaCount ? ';' : ',';
+// Grouped products list their children as `SKU-1=1.0000,SKU-2=2.0000` (sku=default qty)
+const parseAssociatedSkus = (value: string | undefined): string[] =>
+  (value || '').split(',').map(pair => pair.split('=')[0].trim()).filter(Boolean);
+
+// `name=Strap,type=select,required=1,sku=STRAP-1,price=5.0000,default=1,default_qty=1.0000,price_type=fixed|...`
+const parseBundleValues = (value: string | undefined): BundleSelection[] => {
+  if (!value) return [];
+  return value.split('|').filter(v => v.trim()).map((selection): BundleSelection => {
+    const attrs = new Map<string, string>();
+    selection.split(',').forEach(attr => {
+      const [key, ...valueParts] = attr.split('=');
+      if (key?.trim()) attrs.set(key.trim().toLowerCase(), valueParts.join('=').trim());
+    });
+    return {
+      option: attrs.get('name') || '',
+      type: attrs.get('type') || 'select',
+      required: attrs.get('required') === '1',
+      sku: attrs.get('sku') || '',
+      price: parseDecimal(attrs.get('price')),
+      priceType: attrs.get('price_type') === 'percent' ? 'percent' : 'fixed',
+      isDefault: attrs.get('default') === '1',
+      qty: parseDecimal(attrs.get('default_qty')) || 1,
+    };
+  }).filter(selection => selection.sku);
 };
 
-const extractTagsFromCategories = (categoriesString: string | undefined): string => {
-  if (!categoriesString) return '';
-  const allPaths = categoriesString.split(',');
-  const tags = new Set<string>();
-  allPaths.forEach(path => {
-    path.split('/')
-      .map(part => part.trim())
-      .filter(part => part.toLowerCase() !== 'default category' && part !== '')
-      .forEach(tag => tags.add(tag));
+// The selections a customer gets without choosing: the defaults, or the first choice of a required option
+const pickDefaultBundleSelections = (selections: BundleSelection[]): BundleSelection[] => {
+  const picked: BundleSelection[] = [];
+  const options = Array.from(new Set(selections.map(selection => selection.option)));
+  options.forEach(option => {
+    const choices = selections.filter(selection => selection.option === option);
+    const defaults = choices.filter(selection => selection.isDefault);
+    if (defaults.length > 0) picked.push(...defaults);
+    else if (choices[0]?.required) picked.push(choices[0]);
   });
-  return Array.from(tags).join(', ');
+  return picked;
 };
 
-const INTERNAL_NEWLINE_PLACEHOLDER = '{{{_NL_}}}';
-const INTERNAL_NEWLINE_PLACEHOLDER_REGEX = new RegExp(INTERNAL_NEWLINE_PLACEHOLDER.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&'), 'g');
+// Dynamic bundles cost the sum of their parts; fixed bundles cost their own price plus the selection surcharges
+const composeBundlePrice = (priceType: string, bundlePrice: number, picked: BundleSelection[], childPrice: (sku: string) => number): number => {
+  const isDynamic = priceType.toLowerCase() === 'dynamic' || priceType === '0';
+  const total = isDynamic
+    ? picked.reduce((sum, selection) => sum + childPrice(selection.sku) * selection.qty, 0)
+    : picked.reduce((sum, selection) =>
+        sum + (selection.priceType === 'percent' ? bundlePrice * selection.price / 100 : selection.price) * selection.qty, bundlePrice);
+  return Math.round(total * 100) / 100;
+};
 
+// Magento exports dates as `M/D/YY`, `M/D/YYYY` or `YYYY-MM-DD[ hh:mm:ss]`; returns the day in UTC
+const parseMagentoDate = (value: string | undefined): Date | undefined => {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(trimmed);
+  if (iso) return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\b/.exec(trimmed);
+  if (us) {
+    const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]);
+    return new Date(Date.UTC(year, Number(us[1]) - 1, Number(us[2])));
+  }
+  return undefined;
+};
 
-function preProcessCsvContent(rawCsvText: string): string {
-    let processedText = '';
-    let inQuotes = false;
-    for (let i = 0; i < rawCsvText.length; i++) {
-        const char = rawCsvText[i];
+// A special price applies from its start day through its end day; a missing bound is open
+export const isSpecialPriceActive = (fields: MagentoPriceFields, referenceDate: Date = new Date()): boolean => {
+  if (!fields.specialPrice?.trim()) return false;
+  const day = Date.UTC(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate());
+  const from = parseMagentoDate(fields.specialPriceFromDate);
+  const to = parseMagentoDate(fields.specialPriceToDate);
+  return (!from || from.getTime() <= day) && (!to || day <= to.getTime());
+};
 
-        if (char === '"') {
-            if (inQuotes && i + 1 < rawCsvText.length && rawCsvText[i + 1] === '"') {
-                processedText += '""';
-                i++; 
-                continue;
-            }
-            inQuotes = !inQuotes;
-            processedText += '"';
-        } else if (inQuotes && (char === '\n' || char === '\r')) {
-            if (char === '\r' && i + 1 < rawCsvText.length && rawCsvText[i + 1] === '\n') {
-                processedText += INTERNAL_NEWLINE_PLACEHOLDER;
-                i++; 
-            } else {
-                processedText += INTERNAL_NEWLINE_PLACEHOLDER;
-            }
-        } else {
-            processedText += char;
-        }
-    }
-    return processedText;
-}
+// An active special price becomes the price with the regular price as compare-at; otherwise a higher MSRP is the compare-at
+export const resolveVariantPricing = (fields: MagentoPriceFields, referenceDate: Date = new Date()): VariantPricing => {
+  const regularPrice = parseDecimal(fields.price);
+  const specialPrice = parseDecimal(fields.specialPrice);
+  const msrp = parseDecimal(fields.msrp);
+  const cost = fields.cost?.trim() ? parseDecimal(fields.cost) : undefined;
 
+  if (isSpecialPriceActive(fields, referenceDate) && specialPrice > 0 && specialPrice < regularPrice) {
+    return { variantPrice: specialPrice, variantCompareAtPrice: regularPrice, variantCost: cost };
+  }
+  return { variantPrice: regularPrice, variantCompareAtPrice: msrp > regularPrice ? msrp : undefined, variantCost: cost };
+};
 
 const buildFullImageUrl = (imagePath: string | undefined, baseUrl: string | undefined): string => {
   console.log('[buildFullImageUrl] INPUT - imagePath:', imagePath, 'baseUrl:', baseUrl);
 
-  if (!imagePath || imagePath.trim() === '') {
-    console.log('[buildFullImageUrl] Condition 1: imagePath is empty or undefined. Returning empty string.');
+  // Magento writes "no_selection" for image roles without an image
+  if (!imagePath || imagePath.trim() === '' || imagePath.trim() === 'no_selection') {
+    console.log('[buildFullImageUrl] Condition 1: imagePath is empty, undefined or no_selection. Returning empty string.');
     return '';
   }
 
@@ -162,10 +310,11 @@ const buildFullImageUrl = (imagePath: string | undefined, baseUrl: string | unde
 };
 
 
-export const parseMagentoProductCsv = (csvString: string, magentoBaseImageUrl?: string): ParseProductResult => {
-  const preProcessedCsvString = preProcessCsvContent(csvString);
-  const trimmedCsvString = preProcessedCsvString.trim();
+export const parseMagentoProductCsv = (csvString: string, magentoBaseImageUrl?: string, options: ProductConversionOptions = {}): ParseProductResult =>
+  convertMagentoProductRecords(parseCsv(csvString), magentoBaseImageUrl, options);
 
+// Converts already tokenized Magento rows; used directly by the import worker, which tokenizes the file in chunks.
+export const convertMagentoProductRecords = ({ records: allRecords, errors: syntaxErrors }: ParsedCsv, magentoBaseImageUrl?: string, options: ProductConversionOptions = {}): ParseProductResult => {
   let processedNonEmptyLines = 0;
   let linesSkippedNoSku = 0;
   let linesSkippedColumnCountMismatch = 0;
@@ -175,96 +324,233 @@ export const parseMagentoProductCsv = (csvString: string, magentoBaseImageUrl?:
   let variantsProcessedForConfigurables = 0;
   let variantSkusNotFoundInSimples = 0;
   let standaloneSimplesProcessed = 0;
-  const notFoundVariantSkusList: {configurableSku: string, missingSimpleSku: string}[] = [];
-  const skippedOtherTypeSkus: {sku: string, type: string}[] = [];
-
-
-  if (!trimmedCsvString) return { type: 'no_products_extracted', message: 'The CSV file is empty.', processedNonEmptyLines: 0, linesSkippedNoSku: 0, linesSkippedColumnCountMismatch: 0, simpleProductsCollected: 0, configurableProductsCollected: 0, otherProductTypesSkipped: 0, variantsProcessedForConfigurables: 0, variantSkusNotFoundInSimples: 0, standaloneSimplesProcessed: 0, shopifyEntryCount: 0 };
-
-  const allLines = trimmedCsvString.split(/\r?\n/);
-  // Check for header only (no data rows)
-  if (allLines.length === 1 && allLines[0].trim() !== '') {
-    const headerCols = allLines[0].split(',').map(h => h.trim().toLowerCase());
-    if (headerCols.includes('sku')) {
-      return { type: 'no_products_extracted', message: 'CSV only contains a header row.', processedNonEmptyLines: 0, linesSkippedNoSku: 0, linesSkippedColumnCountMismatch: 0, simpleProductsCollected: 0, configurableProductsCollected: 0, otherProductTypesSkipped: 0, variantsProcessedForConfigurables: 0, variantSkusNotFoundInSimples: 0, standaloneSimplesProcessed: 0, shopifyEntryCount: 0 };
-    } else {
-      return { type: 'parse_error', message: 'The CSV file must contain a header row and at least one data row.', processedNonEmptyLines: 0, linesSkippedColumnCountMismatch: 0 };
-    }
+  let groupedProductsConverted = 0;
+  let bundleProductsConverted = 0;
+  const notFoundVariantSkusList: {parentSku: string, missingSimpleSku: string}[] = [];
+  const skippedOtherTypeSkus: SkippedProduct[] = [];
+  const bundleComponents: BundleComponentsEntry[] = [];
+  const strategies: ProductTypeStrategies = {
+    groupedProducts: options.groupedProducts || DEFAULT_PRODUCT_TYPE_STRATEGIES.groupedProducts,
+    bundleProducts: options.bundleProducts || DEFAULT_PRODUCT_TYPE_STRATEGIES.bundleProducts,
+  };
+  const configurablesWithTooManyOptions: ConfigurableOptionOverflow[] = [];
+
+
+  if (syntaxErrors.length > 0) {
+    return { type: 'parse_error', message: `Malformed CSV: ${formatCsvSyntaxError(syntaxErrors[0])}`, processedNonEmptyLines: 0, linesSkippedColumnCountMismatch: 0 };
   }
+  if (allRecords.length === 0) return { type: 'no_products_extracted', message: 'The CSV file is empty.', processedNonEmptyLines: 0, linesSkippedNoSku: 0, linesSkippedColumnCountMismatch: 0, simpleProductsCollected: 0, configurableProductsCollected: 0, otherProductTypesSkipped: 0, configurablesWithTooManyOptions: [], skippedOtherTypeSkus: [] };
 
-  if (allLines.length === 0 || allLines.every(line => !line.trim())) return { type: 'no_products_extracted', message: 'The CSV file has no lines.', processedNonEmptyLines: 0, linesSkippedNoSku: 0, linesSkippedColumnCountMismatch: 0, simpleProductsCollected: 0, configurableProductsCollected: 0, otherProductTypesSkipped: 0, variantsProcessedForConfigurables: 0, variantSkusNotFoundInSimples: 0, standaloneSimplesProcessed: 0, shopifyEntryCount: 0 };
+  const headers = allRecords[0].fields.map(normalizeHeader);
+  const dataRecords = allRecords.slice(1);
 
-  const headerLine = allLines[0];
-  // const dataLines = allLines.slice(1);
-
-  if (allLines.length < 2) return { type: 'parse_error', message: 'The CSV file must contain a header row and at least one data row.', processedNonEmptyLines: 0, linesSkippedColumnCountMismatch: 0 };
-
-  // If only header row is present (no data rows), treat as no_products_extracted
-  if (allLines.length === 1 && allLines[0].trim() !== '' && allLines[0].toLowerCase().includes('sku')) {
-    return { type: 'no_products_extracted', message: 'CSV only contains a header row.', processedNonEmptyLines: 0, linesSkippedNoSku: 0, linesSkippedColumnCountMismatch: 0, simpleProductsCollected: 0, configurableProductsCollected: 0, otherProductTypesSkipped: 0, variantsProcessedForConfigurables: 0, variantSkusNotFoundInSimples: 0, standaloneSimplesProcessed: 0, shopifyEntryCount: 0 };
-  }
   // If only header row is present (no data rows), treat as no_products_extracted if header includes a 'sku' column
-  const headerCols = allLines[0].split(',').map(h => h.trim().toLowerCase());
-  const dataLines = allLines.slice(1);
-  const hasNonEmptyData = dataLines.some(line => line.trim() !== '');
-  if (!hasNonEmptyData && headerCols.includes('sku')) {
-    return { type: 'no_products_extracted', message: 'CSV only contains a header row.', processedNonEmptyLines: 0, linesSkippedNoSku: 0, linesSkippedColumnCountMismatch: 0, simpleProductsCollected: 0, configurableProductsCollected: 0, otherProductTypesSkipped: 0, variantsProcessedForConfigurables: 0, variantSkusNotFoundInSimples: 0, standaloneSimplesProcessed: 0, shopifyEntryCount: 0 };
-  }
-
-  const delimiter = detectDelimiter(headerLine);
-
-  const rawHeaders = parseCsvLine(headerLine, delimiter).map(h => h.replace(INTERNAL_NEWLINE_PLACEHOLDER_REGEX, '\n'));
-  const headers = rawHeaders.map((h, idx) => {
-    let cleanH = h.toLowerCase().trim();
-    if (idx === 0) cleanH = cleanH.replace(/^\ufeff/, '');
-    return cleanH;
-  });
-
-  const findHeaderIndex = (aliases: string[]) => {
-    for (const alias of aliases) {
-      const index = headers.indexOf(alias.toLowerCase());
-      if (index !== -1) return index;
+  if (dataRecords.length === 0) {
+    if (headers.includes('sku')) {
+      return { type: 'no_products_extracted', message: 'CSV only contains a header row.', processedNonEmptyLines: 0, linesSkippedNoSku: 0, linesSkippedColumnCountMismatch: 0, simpleProductsCollected: 0, configurableProductsCollected: 0, otherProductTypesSkipped: 0, configurablesWithTooManyOptions: [], skippedOtherTypeSkus: [] };
     }
-    return -1;
+    return { type: 'parse_error', message: 'The CSV file must contain a header row and at least one data row.', processedNonEmptyLines: 0, linesSkippedColumnCountMismatch: 0 };
   }
 
-  const skuIdx = findHeaderIndex(['sku']);
-  const nameIdx = findHeaderIndex(['name']);
-  const descriptionIdx = findHeaderIndex(['description']);
-  const shortDescriptionIdx = findHeaderIndex(['short_description']);
-  const priceIdx = findHeaderIndex(['price']);
-  const qtyIdx = findHeaderIndex(['qty', 'quantity']);
-  const categoriesIdx = findHeaderIndex(['categories']);
-  const baseImageIdx = findHeaderIndex(['base_image', 'image']);
-  const productTypeIdx = findHeaderIndex(['product_type', 'type_id']);
-  const visibilityIdx = findHeaderIndex(['visibility']);
-  const taxClassIdx = findHeaderIndex(['tax_class_name', 'tax_class_id']);
-  const weightIdx = findHeaderIndex(['weight']);
-  const metaTitleIdx = findHeaderIndex(['meta_title']);
-  const metaDescriptionIdx = findHeaderIndex(['meta_description']);
-  const attributeSetCodeIdx = findHeaderIndex(['attribute_set_code']);
-  const productOnlineIdx = findHeaderIndex(['product_online', 'status']);
-  const configurableVariationsIdx = findHeaderIndex(['configurable_variations']);
-  const configurableVariationLabelsIdx = findHeaderIndex(['configurable_variation_labels']);
+  const findHeaderIndex = createHeaderIndexFinder(headers, PRODUCT_MAPPING_FIELDS, options.columnMapping);
+
+  const skuIdx = findHeaderIndex('sku');
+  const nameIdx = findHeaderIndex('name');
+  const descriptionIdx = findHeaderIndex('description');
+  const shortDescriptionIdx = findHeaderIndex('shortDescription');
+  const priceIdx = findHeaderIndex('price');
+  const specialPriceIdx = findHeaderIndex('specialPrice');
+  const specialPriceFromDateIdx = findHeaderIndex('specialPriceFromDate');
+  const specialPriceToDateIdx = findHeaderIndex('specialPriceToDate');
+  const msrpIdx = findHeaderIndex('msrp');
+  const costIdx = findHeaderIndex('cost');
+  const tierPricesIdx = findHeaderIndex('tierPrices');
+  const groupPricesIdx = findHeaderIndex('groupPrices');
+  const barcodeIdx = findHeaderIndex('barcode');
+  const qtyIdx = findHeaderIndex('qty');
+  const isInStockIdx = findHeaderIndex('isInStock');
+  const manageStockIdx = findHeaderIndex('manageStock');
+  const useConfigManageStockIdx = findHeaderIndex('useConfigManageStock');
+  const allowBackordersIdx = findHeaderIndex('allowBackorders');
+  const outOfStockQtyIdx = findHeaderIndex('outOfStockQty');
+  const categoriesIdx = findHeaderIndex('categories');
+  const baseImageIdx = findHeaderIndex('baseImage');
+  const baseImageLabelIdx = findHeaderIndex('baseImageLabel');
+  const additionalImagesIdx = findHeaderIndex('additionalImages');
+  const additionalImageLabelsIdx = findHeaderIndex('additionalImageLabels');
+  const singleImageColumns = [
+    [findHeaderIndex('smallImage'), findHeaderIndex('smallImageLabel')],
+    [findHeaderIndex('thumbnailImage'), findHeaderIndex('thumbnailImageLabel')],
+    [findHeaderIndex('swatchImage'), findHeaderIndex('swatchImageLabel')],
+  ];
+  const productTypeIdx = findHeaderIndex('productType');
+  const visibilityIdx = findHeaderIndex('visibility');
+  const taxClassIdx = findHeaderIndex('taxClass');
+  const weightIdx = findHeaderIndex('weight');
+  const metaTitleIdx = findHeaderIndex('metaTitle');
+  const metaDescriptionIdx = findHeaderIndex('metaDescription');
+  const attributeSetCodeIdx = findHeaderIndex('attributeSetCode');
+  const productOnlineIdx = findHeaderIndex('productOnline');
+  const configurableVariationsIdx = findHeaderIndex('configurableVariations');
+  const configurableVariationLabelsIdx = findHeaderIndex('configurableVariationLabels');
+  const associatedSkusIdx = findHeaderIndex('associatedSkus');
+  const bundleValuesIdx = findHeaderIndex('bundleValues');
+  const bundlePriceTypeIdx = findHeaderIndex('bundlePriceType');
+  const bundleWeightTypeIdx = findHeaderIndex('bundleWeightType');
+  const storeViewIdx = findHeaderIndex('storeViewCode');
+  const additionalAttributesIdx = findHeaderIndex('additionalAttributes');
+  const customOptionsIdx = findHeaderIndex('customOptions');
+  const urlKeyIdx = findHeaderIndex('urlKey');
+  const urlPathIdx = findHeaderIndex('urlPath');
+
+  // additional_attributes entries grouped by where the mapping sends them
+  const getAttributesWithTarget = (row: Record<string, string>, kind: 'tags' | 'option'): [string, string][] => {
+    const attributes = additionalAttributesIdx !== -1 ? parseAdditionalAttributes(row[headers[additionalAttributesIdx]]) : new Map<string, string>();
+    return Array.from(attributes).filter(([code]) => getAttributeTarget(options.attributeMapping, code).kind === kind);
+  };
+
+  // Columns and attributes the user sent to tags on the mapping screen, written as `header:value`
+  const tagColumnHeaders = getHeadersWithTarget(headers, options.columnMapping, 'tags');
+  const buildProductTags = (row: Record<string, string>): string => {
+    const categoryTags = getRowCategories(row).map(category => category.tag).join(', ');
+    const columnTags = tagColumnHeaders.filter(header => row[header]).map(header => `${header}:${row[header]}`);
+    const attributeTags = getAttributesWithTarget(row, 'tags').map(([code, value]) => `${code}:${value}`);
+    return [categoryTags, ...columnTags, ...attributeTags].filter(Boolean).join(', ');
+  };
+
+  const buildMetafields = (row: Record<string, string>): ShopifyProductFormData['metafields'] => {
+    if (additionalAttributesIdx === -1) return [];
+    const metafields: ShopifyProductFormData['metafields'] = [];
+    parseAdditionalAttributes(row[headers[additionalAttributesIdx]]).forEach((value, code) => {
+      const target = getAttributeTarget(options.attributeMapping, code);
+      if (target.kind !== 'metafield') return;
+      const formatted = formatMetafieldValue(value, target.type);
+      if (formatted) metafields.push({ namespace: target.namespace, key: target.key, type: target.type, value: formatted });
+    });
+    return metafields;
+  };
+
+  // Attributes sent to variant options fill the free Option1-3 slots; a `Default Title` option is replaced
+  const getAttributeOptionFields = (row: Record<string, string>, current: Partial<ShopifyProductFormData>): Partial<ShopifyProductFormData> => {
+    const optionAttributes = getAttributesWithTarget(row, 'option');
+    if (optionAttributes.length === 0) return {};
+    const slots: [string, string][] = [
+      [current.option1Name || '', current.option1Value || ''],
+      [current.option2Name || '', current.option2Value || ''],
+      [current.option3Name || '', current.option3Value || ''],
+    ];
+    if (slots[0][0] === 'Title' && slots[0][1] === 'Default Title') slots[0] = ['', ''];
+    optionAttributes.forEach(([code, value]) => {
+      if (slots.some(([name]) => name.toLowerCase() === code.toLowerCase())) return;
+      const free = slots.findIndex(([name]) => !name);
+      if (free !== -1) slots[free] = [code, value];
+    });
+    if (!slots[0][0]) slots[0] = ['Title', 'Default Title'];
+    return {
+      option1Name: slots[0][0], option1Value: slots[0][1],
+      option2Name: slots[1][0], option2Value: slots[1][1],
+      option3Name: slots[2][0], option3Value: slots[2][1],
+    };
+  };
+
+  // Custom options: text inputs go to a line item properties metafield, choices that fit the free option slots
+  // are returned to become variants; the rest is listed in the product's warnings
+  const applyCustomOptionFields = (row: Record<string, string>, product: Partial<ShopifyProductFormData>, freeDimensions: number): MagentoCustomOption[] => {
+    const options = customOptionsIdx !== -1 ? parseMagentoCustomOptions(row[headers[customOptionsIdx]]) : [];
+    if (options.length === 0) return [];
+    const plan = planCustomOptions(options, freeDimensions);
+    if (plan.lineItemProperties.length > 0) {
+      product.metafields = [...(product.metafields || []), { namespace: 'custom', key: 'line_item_properties', type: 'json', value: JSON.stringify(plan.lineItemProperties) }];
+    }
+    product.conversionWarnings = [...(product.conversionWarnings || []), ...plan.warnings];
+    return plan.variantOptions;
+  };
+  const countUsedOptions = (product: Partial<ShopifyProductFormData>): number =>
+    product.option1Name === 'Title' && product.option1Value === 'Default Title' ? 0 : [product.option1Name, product.option2Name, product.option3Name].filter(Boolean).length;
+  // One row per combination of choices, priced with the choices' surcharges. Magento keeps one stock for
+  // all choices; it stays on the first variant and the others start at 0, so Shopify cannot oversell it.
+  const buildCustomOptionRows = (product: Partial<ShopifyProductFormData>, variantOptions: MagentoCustomOption[]): Partial<ShopifyProductFormData>[] => {
+    if (variantOptions.length === 0) return [product];
+    const firstSlot = countUsedOptions(product) + 1;
+    const withDelta = (price: number | undefined, delta: number) => price === undefined ? undefined : Math.round((price + delta) * 100) / 100;
+    const variants = expandCustomOptionVariants(variantOptions, product.variantPrice ?? 0);
+    if (variants.length > 1 && (product.variantInventoryQty ?? 0) > 0) {
+      product.conversionWarnings = [
+        ...(product.conversionWarnings || []),
+        `Magento's stock of ${product.variantInventoryQty} is shared by the custom option choices and was given to variant ${[product.variantSku, variants[0].skuSuffix].filter(Boolean).join('-')}; the other ${variants.length - 1} variant(s) start at 0.`,
+      ];
+    }
+    return variants.map((variant, i) => {
+      const fields: Partial<ShopifyProductFormData> = {
+        variantSku: [product.variantSku, variant.skuSuffix].filter(Boolean).join('-'),
+        variantPrice: withDelta(product.variantPrice ?? 0, variant.priceDelta),
+        variantCompareAtPrice: withDelta(product.variantCompareAtPrice, variant.priceDelta),
+      };
+      variantOptions.forEach((option, optionIndex) => {
+        Object.assign(fields, { [`option${firstSlot + optionIndex}Name`]: option.title, [`option${firstSlot + optionIndex}Value`]: variant.values[optionIndex] });
+      });
+      if (i === 0) return { ...product, ...fields };
+      return {
+        ...product,
+        ...fields,
+        id: getRandomUUID(),
+        title: '', bodyHtml: '', vendor: '', productType: '', tags: '',
+        variantBarcode: '',
+        imageSrc: '', imageAltText: '', imagePosition: i + 1, additionalImages: [],
+        seoTitle: '', seoDescription: '',
+        metafields: [],
+        bodyHtmlChanges: [],
+        conversionWarnings: [],
+        variantInventoryQty: 0,
+        magentoProductType: 'simple_variant',
+        isVariantRow: true,
+      };
+    });
+  };
+
+  // The row's full gallery (base, additional, small, thumbnail, swatch) minus URLs the handle already shows
+  const collectGalleryImages = (row: Record<string, string>, usedSrcs: Set<string>): ShopifyProductFormData['additionalImages'] => {
+    const candidates: { path?: string; label?: string }[] = [];
+    if (baseImageIdx !== -1) candidates.push({ path: row[headers[baseImageIdx]], label: baseImageLabelIdx !== -1 ? row[headers[baseImageLabelIdx]] : '' });
+    if (additionalImagesIdx !== -1 && row[headers[additionalImagesIdx]]) {
+      const labels = additionalImageLabelsIdx !== -1 ? (row[headers[additionalImageLabelsIdx]] || '').split(',') : [];
+      row[headers[additionalImagesIdx]].split(',').forEach((path, i) => candidates.push({ path, label: labels[i] }));
+    }
+    singleImageColumns.forEach(([imageIdx, labelIdx]) => {
+      if (imageIdx !== -1) candidates.push({ path: row[headers[imageIdx]], label: labelIdx !== -1 ? row[headers[labelIdx]] : '' });
+    });
+
+    const images: ShopifyProductFormData['additionalImages'] = [];
+    for (const { path, label } of candidates) {
+      const src = buildFullImageUrl(path?.trim(), magentoBaseImageUrl);
+      if (!src || usedSrcs.has(src)) continue;
+      usedSrcs.add(src);
+      images.push({ src, altText: label?.trim() || '' });
+    }
+    return images;
+  };
 
   if (skuIdx === -1 ) {
-    return { type: 'parse_error', message: 'CSV must contain "sku" column for product import.', processedNonEmptyLines, linesSkippedColumnCountMismatch };
+    return { type: 'parse_error', message: 'CSV must contain a "sku" column (or a column mapped to Variant SKU) for product import.', processedNonEmptyLines, linesSkippedColumnCountMismatch };
   }
 
   const magentoSimpleProducts = new Map<string, Record<string, string>>();
   const magentoConfigurableProducts: Record<string, string>[] = [];
+  const magentoGroupedProducts: Record<string, string>[] = [];
+  const magentoBundleProducts: Record<string, string>[] = [];
 
-  for (let lineIndex = 0; lineIndex < dataLines.length; lineIndex++) {
-    const line = dataLines[lineIndex];
-    if (line.trim() === '') continue;
-    processedNonEmptyLines++;
-
-    let values = parseCsvLine(line, delimiter);
-    values = values.map(value => value.replace(INTERNAL_NEWLINE_PLACEHOLDER_REGEX, '\n'));
+  // Rows without a store view code hold a product's default values; store view rows only fill in what they override
+  const defaultStoreView = (options.defaultStoreView || '').trim().toLowerCase();
+  const baseRows: Record<string, string>[] = [];
+  const storeViewRows = new Map<string, Map<string, Record<string, string>>>(); // sku -> store view code -> row
 
+  for (const record of dataRecords) {
+    const values = record.fields.map(field => field.trim());
+    if (values.every(v => v === '')) continue;
+    processedNonEmptyLines++;
 
     if (values.length !== headers.length) {
-        console.warn(`Column count mismatch in Magento CSV on data line ${lineIndex + 1}. Expected ${headers.length} columns, got ${values.length}. This line's data will be skipped. Line content (after pre-processing): "${line}"`);
+        console.warn(`Column count mismatch in Magento CSV on line ${record.line}. Expected ${headers.length} columns, got ${values.length}. This line's data will be skipped.`);
         linesSkippedColumnCountMismatch++;
         continue;
     }
@@ -278,20 +564,172 @@ export const parseMagentoProductCsv = (csvString: string, magentoBaseImageUrl?:
       continue;
     }
 
+    const storeView = storeViewIdx !== -1 ? rowData[headers[storeViewIdx]].toLowerCase() : '';
+    if (storeView) {
+      if (!storeViewRows.has(currentSku)) storeViewRows.set(currentSku, new Map());
+      storeViewRows.get(currentSku)!.set(storeView, rowData);
+    } else {
+      baseRows.push(rowData);
+    }
+  }
+
+  // SKUs exported with store view rows only take the default store view's row, or else the first one, as their values
+  const skusWithBaseRow = new Set(baseRows.map(row => row[headers[skuIdx]]));
+  storeViewRows.forEach((views, sku) => {
+    if (!skusWithBaseRow.has(sku)) baseRows.push({ ...(views.get(defaultStoreView) || views.values().next().value!) });
+  });
+
+  const withStoreViewValues = (row: Record<string, string>, viewRow: Record<string, string>): Record<string, string> => {
+    const merged = { ...row };
+    Object.entries(viewRow).forEach(([header, value]) => { if (value !== '') merged[header] = value; });
+    return merged;
+  };
+  const localizedRows = new Map<string, Map<string, Record<string, string>>>(); // sku -> store view code -> merged row
+  const baseRowsBySku = new Map<string, Record<string, string>>();
+  for (const rowData of baseRows) {
+    const currentSku = rowData[headers[skuIdx]];
+    baseRowsBySku.set(currentSku, rowData);
+    const views = storeViewRows.get(currentSku);
+    if (!views) continue;
+    const defaultValues = { ...rowData };
+    const localized = new Map<string, Record<string, string>>();
+    views.forEach((viewRow, storeView) => {
+      if (storeView !== defaultStoreView) localized.set(storeView, withStoreViewValues(defaultValues, viewRow));
+    });
+    localizedRows.set(currentSku, localized);
+    const defaultViewRow = views.get(defaultStoreView);
+    if (defaultViewRow) Object.assign(rowData, withStoreViewValues(defaultValues, defaultViewRow));
+  }
+
+  // Category tree of the whole file; products are tagged with the stable tags of their categories
+  const getCategoryPaths = (row: Record<string, string>): string[][] => categoriesIdx !== -1 ? parseCategoryPaths(row[headers[categoriesIdx]]) : [];
+  const categories = buildCategoryTree(baseRows.flatMap(getCategoryPaths));
+  const findCategory = createCategoryLookup(categories);
+  const getRowCategories = (row: Record<string, string>): ProductCategory[] =>
+    getCategoryPaths(row).map(findCategory).filter((category): category is ProductCategory => !!category);
+
+  for (const rowData of baseRows) {
+    const currentSku = rowData[headers[skuIdx]];
     const type = productTypeIdx !== -1 ? rowData[headers[productTypeIdx]]?.toLowerCase() : 'simple';
-    if (type === 'simple') {
+    if (type === 'simple' || NON_SHIPPING_PRODUCT_TYPES.includes(type)) {
       magentoSimpleProducts.set(currentSku, rowData);
       simpleProductsCollected++;
     } else if (type === 'configurable') {
       magentoConfigurableProducts.push(rowData);
       configurableProductsCollected++;
+    } else if (type === 'grouped' && strategies.groupedProducts !== 'skip') {
+      magentoGroupedProducts.push(rowData);
+    } else if (type === 'bundle' && strategies.bundleProducts !== 'skip') {
+      magentoBundleProducts.push(rowData);
     } else {
       skippedOtherTypeSkus.push({sku: currentSku, type: type || 'unknown'});
       otherProductTypesSkipped++;
     }
   }
 
+  // Grouped and bundle products look up children that configurables may already have claimed
+  const allSimpleProducts = new Map(magentoSimpleProducts);
+  const getRowType = (row: Record<string, string>): string => productTypeIdx !== -1 ? row[headers[productTypeIdx]]?.toLowerCase() || 'simple' : 'simple';
+  const requiresShipping = (row: Record<string, string>): boolean => !NON_SHIPPING_PRODUCT_TYPES.includes(getRowType(row));
+  const isRowPublished = (row: Record<string, string>): boolean =>
+    (visibilityIdx !== -1 ? !(row[headers[visibilityIdx]]?.toLowerCase().includes("not visible")) : true) &&
+    (productOnlineIdx !== -1 ? (String(row[headers[productOnlineIdx]]) !== '2' && String(row[headers[productOnlineIdx]])?.toLowerCase() !== 'disabled') : true);
+
+  // Description with Magento directives resolved and markup Shopify cannot render removed
+  const getBodyHtmlFields = (row: Record<string, string>): Pick<ShopifyProductFormData, 'bodyHtml' | 'bodyHtmlChanges'> => {
+    const { html, changes } = cleanMagentoBodyHtml(row[headers[descriptionIdx]] || row[headers[shortDescriptionIdx]] || '', { magentoBaseImageUrl });
+    return { bodyHtml: html, bodyHtmlChanges: changes };
+  };
+
+  // Fields shared by every kind of parent row (title, description, vendor, tags, SEO)
+  const buildParentFields = (row: Record<string, string>, sku: string, handle: string): Partial<ShopifyProductFormData> => {
+    const name = row[headers[nameIdx]] || sku;
+    return {
+      id: getRandomUUID(),
+      handle,
+      title: name,
+      ...getBodyHtmlFields(row),
+      vendor: attributeSetCodeIdx !== -1 ? row[headers[attributeSetCodeIdx]]?.split(' ')[0] || '' : '',
+      productType: attributeSetCodeIdx !== -1 ? row[headers[attributeSetCodeIdx]] || '' : '',
+      tags: buildProductTags(row),
+      published: isRowPublished(row),
+      imageSrc: buildFullImageUrl(baseImageIdx !== -1 ? row[headers[baseImageIdx]] : undefined, magentoBaseImageUrl),
+      imageAltText: baseImageLabelIdx !== -1 ? row[headers[baseImageLabelIdx]] || '' : '',
+      imagePosition: 1,
+      seoTitle: metaTitleIdx !== -1 ? row[headers[metaTitleIdx]] || name : name,
+      seoDescription: metaDescriptionIdx !== -1 ? row[headers[metaDescriptionIdx]] || row[headers[shortDescriptionIdx]] || '' : row[headers[shortDescriptionIdx]] || '',
+      metafields: buildMetafields(row),
+      isVariantRow: false,
+    };
+  };
+
+  const getPriceFields = (row: Record<string, string>): MagentoPriceFields => {
+    const value = (idx: number) => idx !== -1 ? row[headers[idx]] : undefined;
+    return {
+      price: value(priceIdx),
+      specialPrice: value(specialPriceIdx),
+      specialPriceFromDate: value(specialPriceFromDateIdx),
+      specialPriceToDate: value(specialPriceToDateIdx),
+      msrp: value(msrpIdx),
+      cost: value(costIdx),
+    };
+  };
+  const getPricing = (row: Record<string, string>): VariantPricing => resolveVariantPricing(getPriceFields(row), options.referenceDate);
+  const getInventorySettings = (row: Record<string, string>): VariantInventorySettings => {
+    const value = (idx: number) => idx !== -1 ? row[headers[idx]] : undefined;
+    return resolveVariantInventorySettings({
+      isInStock: value(isInStockIdx),
+      manageStock: value(manageStockIdx),
+      useConfigManageStock: value(useConfigManageStockIdx),
+      allowBackorders: value(allowBackordersIdx),
+      outOfStockQty: value(outOfStockQtyIdx),
+    });
+  };
+  // Percentage tiers are taken off the regular price, not a special price
+  const getTierPrices = (row: Record<string, string>): TierPrice[] => {
+    const value = (idx: number) => idx !== -1 ? row[headers[idx]] : undefined;
+    const entries = [...parseMagentoTierPrices(value(groupPricesIdx)), ...parseMagentoTierPrices(value(tierPricesIdx))];
+    return entries.length > 0 ? resolveTierPrices(entries, parseDecimal(value(priceIdx))) : [];
+  };
+  // Variant Grams is whole grams; the Magento unit stays the unit shoppers see
+  const sourceWeightUnit = options.weightUnit || DEFAULT_SOURCE_WEIGHT_UNIT;
+  const getRowWeight = (row: Record<string, string>): number => weightIdx !== -1 ? parseDecimal(row[headers[weightIdx]]) : 0;
+  const getWeightFields = (weight: number): Pick<ShopifyProductFormData, 'variantWeight' | 'variantWeightUnit' | 'conversionWarnings'> => {
+    const grams = toGrams(weight, sourceWeightUnit);
+    return {
+      variantWeight: grams,
+      variantWeightUnit: sourceWeightUnit,
+      conversionWarnings: weight > 0 && grams === 0 ? [`A weight of ${weight} ${sourceWeightUnit} rounds to 0 grams; check the Magento weight unit.`] : [],
+    };
+  };
+  const getBarcode = (row: Record<string, string>): string => barcodeIdx !== -1 ? normalizeBarcode(row[headers[barcodeIdx]]) : '';
+
+  // Variant columns taken from a simple product row
+  const buildVariantFields = (row: Record<string, string>, sku: string): Partial<ShopifyProductFormData> => ({
+    variantSku: sku,
+    variantBarcode: getBarcode(row),
+    ...getPricing(row),
+    tierPrices: getTierPrices(row),
+    variantInventoryQty: qtyIdx !== -1 && row[headers[qtyIdx]] ? parseInt(row[headers[qtyIdx]], 10) : 0,
+    ...getInventorySettings(row),
+    variantTaxable: taxClassIdx !== -1 ? !(row[headers[taxClassIdx]]?.toLowerCase().includes('none') || String(row[headers[taxClassIdx]]) === '0') : true,
+    ...getWeightFields(getRowWeight(row)),
+    variantRequiresShipping: requiresShipping(row),
+  });
+
+  // Handles are handed out as products are emitted, so children that end up as variants never take one
+  const handleSource = options.handleSource || DEFAULT_PRODUCT_HANDLE_SOURCE;
+  const allocateHandle = createHandleAllocator();
+  const skusByHandle = new Map<string, string>();
+  const getUrlKey = (row: Record<string, string> | undefined): string | undefined => row && urlKeyIdx !== -1 ? row[headers[urlKeyIdx]] : undefined;
+  const getHandle = (sku: string): string => {
+    const handle = allocateHandle(getPreferredHandle(handleSource, sku, getUrlKey(baseRowsBySku.get(sku))));
+    skusByHandle.set(handle, sku);
+    return handle;
+  };
+
   const shopifyProducts: Partial<ShopifyProductFormData>[] = [];
+  const emittedHandles = new Set<string>();
   let imagePositionGlobalCounter = 1;
 
   for (const mConfig of magentoConfigurableProducts) {
@@ -299,130 +737,249 @@ export const parseMagentoProductCsv = (csvString: string, magentoBaseImageUrl?:
     const configSku = mConfig[headers[skuIdx]];
     const configName = mConfig[headers[nameIdx]] || configSku;
 
-    let option1NameFromLabel = 'Option'; 
-    if (configurableVariationLabelsIdx !== -1 && mConfig[headers[configurableVariationLabelsIdx]]) {
-        const labelsStr = mConfig[headers[configurableVariationLabelsIdx]];
-        const firstLabelPair = labelsStr.split('|')[0]; 
-        const labelParts = firstLabelPair.split('=');
-        if (labelParts.length > 1 && labelParts[1].trim()) {
-            option1NameFromLabel = labelParts[1].trim();
-        } else if (labelParts.length === 1 && labelParts[0].trim()) {
-            option1NameFromLabel = labelParts[0].trim();
-        }
+    const variations = parseConfigurableVariations(configurableVariationsIdx !== -1 ? mConfig[headers[configurableVariationsIdx]] : '');
+    const variationLabels = parseConfigurableVariationLabels(configurableVariationLabelsIdx !== -1 ? mConfig[headers[configurableVariationLabelsIdx]] : '');
+    const attributeCodes = getConfigurableAttributeCodes(variations, variationLabels);
+
+    if (attributeCodes.length > MAX_SHOPIFY_OPTIONS) {
+      // Dropping attributes would leave variants with identical option values, so the children stay standalone products
+      configurablesWithTooManyOptions.push({ sku: configSku, attributes: attributeCodes });
+      continue;
     }
+    const configHandle = getHandle(configSku);
+
+    // Option1Name..Option3Name and the matching values for one child product
+    const optionNames = attributeCodes.map(code => variationLabels.get(code) || code);
+    const getOptionFields = (variation: ConfigurableVariation): Partial<ShopifyProductFormData> => {
+      const fields: Partial<ShopifyProductFormData> = { option1Name: optionNames[0] || 'Option', option1Value: 'Default' };
+      attributeCodes.forEach((code, i) => {
+        const value = variation.attributes.get(code) || 'Default';
+        if (i === 0) fields.option1Value = value;
+        if (i === 1) Object.assign(fields, { option2Name: optionNames[1], option2Value: value });
+        if (i === 2) Object.assign(fields, { option3Name: optionNames[2], option3Value: value });
+      });
+      return fields;
+    };
 
 
     const mainProductData: Partial<ShopifyProductFormData> = {
       id: getRandomUUID(),
-      handle: configSku,
+      handle: configHandle,
       title: configName,
-      bodyHtml: mConfig[headers[descriptionIdx]] || mConfig[headers[shortDescriptionIdx]] || '',
+      ...getBodyHtmlFields(mConfig),
       vendor: attributeSetCodeIdx !== -1 ? mConfig[headers[attributeSetCodeIdx]]?.split(' ')[0] || '' : '',
       productType: attributeSetCodeIdx !== -1 ? mConfig[headers[attributeSetCodeIdx]] || '' : '',
-      tags: categoriesIdx !== -1 ? extractTagsFromCategories(mConfig[headers[categoriesIdx]]) : '',
-      published: (visibilityIdx !== -1 ? !(mConfig[headers[visibilityIdx]]?.toLowerCase().includes("not visible")) : true) &&
-                 (productOnlineIdx !== -1 ? (String(mConfig[headers[productOnlineIdx]]) !== '2' && String(mConfig[headers[productOnlineIdx]])?.toLowerCase() !== 'disabled') : true),
-      variantPrice: priceIdx !== -1 && mConfig[headers[priceIdx]] ? parseFloat(String(mConfig[headers[priceIdx]]).replace(',','.')) : 0,
+      tags: buildProductTags(mConfig),
+      published: isRowPublished(mConfig),
+      ...getPricing(mConfig),
+      tierPrices: getTierPrices(mConfig),
       variantInventoryQty: 0,
+      ...getInventorySettings(mConfig),
       variantTaxable: taxClassIdx !== -1 ? !(mConfig[headers[taxClassIdx]]?.toLowerCase().includes('none') || String(mConfig[headers[taxClassIdx]]) === '0') : true,
-      variantWeight: weightIdx !== -1 && mConfig[headers[weightIdx]] ? parseFloat(String(mConfig[headers[weightIdx]]).replace(',','.')) : 0,
+      ...getWeightFields(getRowWeight(mConfig)),
       imageSrc: buildFullImageUrl(baseImageIdx !== -1 ? mConfig[headers[baseImageIdx]] : undefined, magentoBaseImageUrl),
+      imageAltText: baseImageLabelIdx !== -1 ? mConfig[headers[baseImageLabelIdx]] || '' : '',
       imagePosition: imagePositionGlobalCounter++, 
       seoTitle: metaTitleIdx !== -1 ? mConfig[headers[metaTitleIdx]] || configName : configName,
       seoDescription: metaDescriptionIdx !== -1 ? mConfig[headers[metaDescriptionIdx]] || mConfig[headers[shortDescriptionIdx]] || '' : mConfig[headers[shortDescriptionIdx]] || '',
+      metafields: buildMetafields(mConfig),
       magentoProductType: 'configurable',
       isVariantRow: false,
-      option1Name: option1NameFromLabel,
+      option1Name: optionNames[0] || 'Option',
     };
 
-    const variationsStr = configurableVariationsIdx !== -1 ? mConfig[headers[configurableVariationsIdx]] : '';
     let firstVariantProcessedForThisConfigurable = false;
+    const configurableRows: Partial<ShopifyProductFormData>[] = [];
 
-    if (variationsStr) {
-      const variations = variationsStr.split('|');
+    if (variations.length > 0) {
       for (const variation of variations) {
-        const attributes = variation.split(',');
-        let simpleSku: string | undefined;
-        let optionValue: string | undefined;
-
-        let magentoOptionKey = '';
-        if (configurableVariationLabelsIdx !== -1 && mConfig[headers[configurableVariationLabelsIdx]]) {
-            const labelParts = mConfig[headers[configurableVariationLabelsIdx]].split('=');
-            if (labelParts.length > 0) magentoOptionKey = labelParts[0].trim();
-        }
-
-
-        attributes.forEach(attr => {
-          const [key, value] = attr.split('=');
-          if (key && value) {
-            const trimmedKey = key.trim();
-            if (trimmedKey.toLowerCase() === 'sku') simpleSku = value.trim();
-            if (trimmedKey === magentoOptionKey) optionValue = value.trim();
-          }
-        });
+        const simpleSku = variation.sku;
 
         if (simpleSku) {
           const mSimple = magentoSimpleProducts.get(simpleSku);
           if (mSimple) {
             variantsProcessedForConfigurables++;
-            const variantPublishedStatus = (visibilityIdx !== -1 ? !(mSimple[headers[visibilityIdx]]?.toLowerCase().includes("not visible")) : true) &&
-                               (productOnlineIdx !== -1 ? (String(mSimple[headers[productOnlineIdx]]) !== '2' && String(mSimple[headers[productOnlineIdx]])?.toLowerCase() !== 'disabled') : true);
+            const variantPublishedStatus = isRowPublished(mSimple);
 
             if (!firstVariantProcessedForThisConfigurable) {
-                mainProductData.option1Value = optionValue || 'Default';
-                mainProductData.variantPrice = priceIdx !== -1 && mSimple[headers[priceIdx]] ? parseFloat(String(mSimple[headers[priceIdx]]).replace(',','.')) : (mainProductData.variantPrice || 0);
+                Object.assign(mainProductData, getOptionFields(variation));
+                Object.assign(mainProductData, getAttributeOptionFields(mSimple, mainProductData));
+                if (priceIdx !== -1 && mSimple[headers[priceIdx]]) Object.assign(mainProductData, getPricing(mSimple));
                 mainProductData.variantSku = simpleSku;
+                mainProductData.variantBarcode = getBarcode(mSimple);
+                mainProductData.tierPrices = getTierPrices(mSimple);
                 mainProductData.variantInventoryQty = qtyIdx !== -1 && mSimple[headers[qtyIdx]] ? parseInt(mSimple[headers[qtyIdx]], 10) : 0;
-                mainProductData.variantWeight = weightIdx !== -1 && mSimple[headers[weightIdx]] ? parseFloat(String(mSimple[headers[weightIdx]]).replace(',','.')) : (mainProductData.variantWeight || 0);
+                Object.assign(mainProductData, getInventorySettings(mSimple));
+                if (weightIdx !== -1 && mSimple[headers[weightIdx]]) Object.assign(mainProductData, getWeightFields(getRowWeight(mSimple)));
                 const simpleImageSrc = buildFullImageUrl(baseImageIdx !== -1 ? mSimple[headers[baseImageIdx]] : undefined, magentoBaseImageUrl);
                 if (simpleImageSrc) { 
                     mainProductData.imageSrc = simpleImageSrc;
+                    mainProductData.imageAltText = baseImageLabelIdx !== -1 ? mSimple[headers[baseImageLabelIdx]] || '' : '';
                 }
                 mainProductData.published = variantPublishedStatus;
+                mainProductData.variantRequiresShipping = requiresShipping(mSimple);
 
-                shopifyProducts.push({...mainProductData});
+                configurableRows.push({...mainProductData});
+                emittedHandles.add(configHandle);
                 firstVariantProcessedForThisConfigurable = true;
             } else {
                  const variantProductData: Partial<ShopifyProductFormData> = {
                     id: getRandomUUID(),
-                    handle: configSku,
+                    handle: configHandle,
                     title: '',
                     bodyHtml: '',
                     vendor: '',
                     productType: '',
                     tags: '',
                     published: variantPublishedStatus,
-                    option1Name: option1NameFromLabel,
-                    option1Value: optionValue || 'Default',
+                    ...getOptionFields(variation),
                     variantSku: simpleSku,
-                    variantPrice: priceIdx !== -1 && mSimple[headers[priceIdx]] ? parseFloat(String(mSimple[headers[priceIdx]]).replace(',','.')) : 0,
+                    variantBarcode: getBarcode(mSimple),
+                    ...getPricing(mSimple),
+                    tierPrices: getTierPrices(mSimple),
                     variantInventoryQty: qtyIdx !== -1 && mSimple[headers[qtyIdx]] ? parseInt(mSimple[headers[qtyIdx]], 10) : 0,
+                    ...getInventorySettings(mSimple),
                     variantTaxable: taxClassIdx !== -1 ? !(mSimple[headers[taxClassIdx]]?.toLowerCase().includes('none') || String(mSimple[headers[taxClassIdx]]) === '0') : true,
-                    variantWeight: weightIdx !== -1 && mSimple[headers[weightIdx]] ? parseFloat(String(mSimple[headers[weightIdx]]).replace(',','.')) : 0,
+                    ...getWeightFields(getRowWeight(mSimple)),
                     imageSrc: buildFullImageUrl(baseImageIdx !== -1 ? mSimple[headers[baseImageIdx]] : undefined, magentoBaseImageUrl),
+                    imageAltText: baseImageLabelIdx !== -1 ? mSimple[headers[baseImageLabelIdx]] || '' : '',
                     imagePosition: imagePositionGlobalCounter++,
                     seoTitle: '',
                     seoDescription: '',
                     magentoProductType: 'simple_variant',
                     isVariantRow: true,
+                    variantRequiresShipping: requiresShipping(mSimple),
                 };
-                shopifyProducts.push(variantProductData);
+                Object.assign(variantProductData, getAttributeOptionFields(mSimple, variantProductData));
+                configurableRows.push(variantProductData);
             }
             magentoSimpleProducts.delete(simpleSku);
           } else {
              if(simpleSku) {
                 variantSkusNotFoundInSimples++;
-                notFoundVariantSkusList.push({ configurableSku: configSku, missingSimpleSku: simpleSku });
+                notFoundVariantSkusList.push({ parentSku: configSku, missingSimpleSku: simpleSku });
              }
           }
         }
       }
     }
-    if (!firstVariantProcessedForThisConfigurable && shopifyProducts.every(p => p.handle !== configSku)) {
+    if (!firstVariantProcessedForThisConfigurable && !emittedHandles.has(configHandle)) {
         mainProductData.option1Name = mainProductData.option1Name || 'Title';
         mainProductData.option1Value = mainProductData.option1Value || 'Default Title';
         mainProductData.variantSku = configSku;
-        shopifyProducts.push(mainProductData);
+        configurableRows.push(mainProductData);
+        emittedHandles.add(configHandle);
+    }
+    // The configurable's own images (including a base image replaced by the first child's) go to the gallery
+    if (configurableRows.length > 0) {
+      const usedSrcs = new Set(configurableRows.map(row => row.imageSrc).filter((src): src is string => !!src));
+      configurableRows[0].additionalImages = collectGalleryImages(mConfig, usedSrcs);
+      applyCustomOptionFields(mConfig, configurableRows[0], 0);
+      shopifyProducts.push(...configurableRows);
+    }
+  }
+
+  // Grouped: one Shopify product whose variants are the child simples, chosen by name
+  for (const mGrouped of magentoGroupedProducts) {
+    const groupedSku = mGrouped[headers[skuIdx]];
+    const groupedHandle = getHandle(groupedSku);
+    const groupedRows: Partial<ShopifyProductFormData>[] = [];
+    const usedValues = new Set<string>();
+
+    for (const childSku of parseAssociatedSkus(associatedSkusIdx !== -1 ? mGrouped[headers[associatedSkusIdx]] : '')) {
+      const mChild = allSimpleProducts.get(childSku);
+      if (!mChild) {
+        variantSkusNotFoundInSimples++;
+        notFoundVariantSkusList.push({ parentSku: groupedSku, missingSimpleSku: childSku });
+        continue;
+      }
+      const childName = mChild[headers[nameIdx]] || childSku;
+      const optionValue = usedValues.has(childName) ? `${childName} (${childSku})` : childName;
+      usedValues.add(optionValue);
+      const childImageSrc = buildFullImageUrl(baseImageIdx !== -1 ? mChild[headers[baseImageIdx]] : undefined, magentoBaseImageUrl);
+      const variantFields = { option1Name: 'Product', option1Value: optionValue, ...buildVariantFields(mChild, childSku) };
+
+      if (groupedRows.length === 0) {
+        groupedRows.push({ ...buildParentFields(mGrouped, groupedSku, groupedHandle), ...variantFields, magentoProductType: 'grouped' });
+      } else {
+        groupedRows.push({
+          id: getRandomUUID(),
+          handle: groupedHandle,
+          title: '', bodyHtml: '', vendor: '', productType: '', tags: '',
+          published: isRowPublished(mChild),
+          ...variantFields,
+          imageSrc: childImageSrc,
+          imagePosition: groupedRows.length + 1,
+          seoTitle: '', seoDescription: '',
+          magentoProductType: 'simple_variant',
+          isVariantRow: true,
+        });
+      }
+      magentoSimpleProducts.delete(childSku);
+    }
+
+    if (groupedRows.length === 0) {
+      groupedRows.push({ ...buildParentFields(mGrouped, groupedSku, groupedHandle), option1Name: 'Title', option1Value: 'Default Title', variantSku: groupedSku, magentoProductType: 'grouped' });
+    }
+    const usedSrcs = new Set(groupedRows.map(row => row.imageSrc).filter((src): src is string => !!src));
+    groupedRows[0].additionalImages = collectGalleryImages(mGrouped, usedSrcs);
+    applyCustomOptionFields(mGrouped, groupedRows[0], 0);
+    shopifyProducts.push(...groupedRows);
+    emittedHandles.add(groupedHandle);
+    groupedProductsConverted++;
+  }
+
+  // Bundle: a single SKU priced as the default selection; children stay available as their own products
+  for (const mBundle of magentoBundleProducts) {
+    const bundleSku = mBundle[headers[skuIdx]];
+    const bundleHandle = getHandle(bundleSku);
+    const selections = parseBundleValues(bundleValuesIdx !== -1 ? mBundle[headers[bundleValuesIdx]] : '');
+    const picked = pickDefaultBundleSelections(selections);
+    const childPrice = (sku: string) => {
+      const mChild = allSimpleProducts.get(sku);
+      if (!mChild) {
+        variantSkusNotFoundInSimples++;
+        notFoundVariantSkusList.push({ parentSku: bundleSku, missingSimpleSku: sku });
+        return 0;
+      }
+      return getPricing(mChild).variantPrice ?? 0;
+    };
+    const bundlePrice = priceIdx !== -1 ? parseDecimal(mBundle[headers[priceIdx]]) : 0;
+    const priceType = bundlePriceTypeIdx !== -1 ? mBundle[headers[bundlePriceTypeIdx]] || 'dynamic' : 'dynamic';
+    const weightType = bundleWeightTypeIdx !== -1 ? mBundle[headers[bundleWeightTypeIdx]] || 'dynamic' : 'dynamic';
+    const dynamicWeight = picked.reduce((sum, selection) => {
+      const mChild = allSimpleProducts.get(selection.sku);
+      return sum + (mChild ? getRowWeight(mChild) : 0) * selection.qty;
+    }, 0);
+
+    // A bundle's special_price is a percentage of the composed price
+    const composedPrice = composeBundlePrice(priceType, bundlePrice, picked, childPrice);
+    const bundlePriceFields = getPriceFields(mBundle);
+    const specialPercent = parseDecimal(bundlePriceFields.specialPrice);
+    const onSale = isSpecialPriceActive(bundlePriceFields, options.referenceDate) && specialPercent > 0 && specialPercent < 100;
+
+    const variantFields = buildVariantFields(mBundle, bundleSku);
+    const bundleRow: Partial<ShopifyProductFormData> = {
+      ...buildParentFields(mBundle, bundleSku, bundleHandle),
+      option1Name: 'Title',
+      option1Value: 'Default Title',
+      ...variantFields,
+      variantPrice: onSale ? Math.round(composedPrice * specialPercent) / 100 : composedPrice,
+      variantCompareAtPrice: onSale ? composedPrice : undefined,
+      ...(weightType.toLowerCase() === 'fixed' || weightType === '1' ? {} : getWeightFields(dynamicWeight)),
+      variantRequiresShipping: picked.length > 0 ? picked.some(selection => {
+        const mChild = allSimpleProducts.get(selection.sku);
+        return !mChild || requiresShipping(mChild);
+      }) : true,
+      magentoProductType: 'bundle',
+    };
+    bundleRow.additionalImages = collectGalleryImages(mBundle, new Set(bundleRow.imageSrc ? [bundleRow.imageSrc] : []));
+    applyCustomOptionFields(mBundle, bundleRow, 0);
+    shopifyProducts.push(bundleRow);
+    emittedHandles.add(bundleHandle);
+    bundleProductsConverted++;
+    if (strategies.bundleProducts === 'components_metafield') {
+      bundleComponents.push({ handle: bundleHandle, sku: bundleSku, components: selections });
     }
   }
 
@@ -431,36 +988,82 @@ export const parseMagentoProductCsv = (csvString: string, magentoBaseImageUrl?:
     const simpleName = mSimple[headers[nameIdx]] || sku;
     const simpleProductData: Partial<ShopifyProductFormData> = {
       id: getRandomUUID(),
-      handle: sku,
+      handle: getHandle(sku),
       title: simpleName,
-      bodyHtml: mSimple[headers[descriptionIdx]] || mSimple[headers[shortDescriptionIdx]] || '',
+      ...getBodyHtmlFields(mSimple),
       vendor: attributeSetCodeIdx !== -1 ? mSimple[headers[attributeSetCodeIdx]]?.split(' ')[0] || '' : '',
       productType: attributeSetCodeIdx !== -1 ? mSimple[headers[attributeSetCodeIdx]] || '' : '',
-      tags: categoriesIdx !== -1 ? extractTagsFromCategories(mSimple[headers[categoriesIdx]]) : '',
-      published: (visibilityIdx !== -1 ? !(mSimple[headers[visibilityIdx]]?.toLowerCase().includes("not visible")) : true) &&
-                 (productOnlineIdx !== -1 ? (String(mSimple[headers[productOnlineIdx]]) !== '2' && String(mSimple[headers[productOnlineIdx]])?.toLowerCase() !== 'disabled') : true),
+      tags: buildProductTags(mSimple),
+      published: isRowPublished(mSimple),
       option1Name: 'Title',
       option1Value: 'Default Title',
       variantSku: sku,
-      variantPrice: priceIdx !== -1 && mSimple[headers[priceIdx]] ? parseFloat(String(mSimple[headers[priceIdx]]).replace(',','.')) : 0,
+      variantBarcode: getBarcode(mSimple),
+      ...getPricing(mSimple),
+      tierPrices: getTierPrices(mSimple),
       variantInventoryQty: qtyIdx !== -1 && mSimple[headers[qtyIdx]] ? parseInt(mSimple[headers[qtyIdx]], 10) : 0,
+      ...getInventorySettings(mSimple),
       variantTaxable: taxClassIdx !== -1 ? !(mSimple[headers[taxClassIdx]]?.toLowerCase().includes('none') || String(mSimple[headers[taxClassIdx]]) === '0') : true,
-      variantWeight: weightIdx !== -1 && mSimple[headers[weightIdx]] ? parseFloat(String(mSimple[headers[weightIdx]]).replace(',','.')) : 0,
+      ...getWeightFields(getRowWeight(mSimple)),
       imageSrc: buildFullImageUrl(baseImageIdx !== -1 ? mSimple[headers[baseImageIdx]] : undefined, magentoBaseImageUrl),
+      imageAltText: baseImageLabelIdx !== -1 ? mSimple[headers[baseImageLabelIdx]] || '' : '',
       imagePosition: 1,
       seoTitle: metaTitleIdx !== -1 ? mSimple[headers[metaTitleIdx]] || simpleName : simpleName,
       seoDescription: metaDescriptionIdx !== -1 ? mSimple[headers[metaDescriptionIdx]] || mSimple[headers[shortDescriptionIdx]] || '' : mSimple[headers[shortDescriptionIdx]] || '',
-      magentoProductType: 'simple',
+      metafields: buildMetafields(mSimple),
+      magentoProductType: NON_SHIPPING_PRODUCT_TYPES.includes(getRowType(mSimple)) ? getRowType(mSimple) : 'simple',
       isVariantRow: false,
+      variantRequiresShipping: requiresShipping(mSimple),
     };
-    shopifyProducts.push(simpleProductData);
+    Object.assign(simpleProductData, getAttributeOptionFields(mSimple, simpleProductData));
+    const usedSrcs = new Set(simpleProductData.imageSrc ? [simpleProductData.imageSrc] : []);
+    simpleProductData.additionalImages = collectGalleryImages(mSimple, usedSrcs);
+    const customOptionVariants = applyCustomOptionFields(mSimple, simpleProductData, MAX_SHOPIFY_OPTIONS - countUsedOptions(simpleProductData));
+    shopifyProducts.push(...buildCustomOptionRows(simpleProductData, customOptionVariants));
+  }
+
+  // Localized title, description and SEO fields of every product (not variant) row, where they differ from the main CSV
+  const getTranslatableValues = (row: Record<string, string>): Record<TranslatableProductField, string> => ({
+    title: nameIdx !== -1 ? row[headers[nameIdx]] || '' : '',
+    body_html: getBodyHtmlFields(row).bodyHtml,
+    meta_title: metaTitleIdx !== -1 ? row[headers[metaTitleIdx]] || '' : '',
+    meta_description: metaDescriptionIdx !== -1 ? row[headers[metaDescriptionIdx]] || '' : '',
+  });
+  const getProductSku = (product: Partial<ShopifyProductFormData>): string | undefined =>
+    !product.isVariantRow && product.handle ? skusByHandle.get(product.handle) : undefined;
+  const translations: ProductTranslation[] = [];
+  for (const product of shopifyProducts) {
+    const sku = getProductSku(product);
+    const localized = sku ? localizedRows.get(sku) : undefined;
+    if (!localized) continue;
+    const defaults = getTranslatableValues(baseRowsBySku.get(sku!)!);
+    localized.forEach((row, storeView) => {
+      const values = getTranslatableValues(row);
+      TRANSLATABLE_PRODUCT_FIELDS.forEach(field => {
+        if (!values[field] || values[field] === defaults[field]) return;
+        translations.push({ handle: product.handle!, storeView, locale: storeViewToLocale(storeView), field, defaultContent: defaults[field], translatedContent: values[field] });
+      });
+    });
   }
+  const redirects: UrlRedirect[] = buildCategoryRedirects(categories);
+  shopifyProducts.forEach(product => {
+    const sku = getProductSku(product);
+    const row = sku ? baseRowsBySku.get(sku) : undefined;
+    if (!row) return;
+    const rowCategories = getRowCategories(row);
+    rowCategories.forEach(category => category.productHandles.push(product.handle!));
+    redirects.push(...buildProductRedirects(product.handle!, getUrlKey(row), urlPathIdx !== -1 ? row[headers[urlPathIdx]] : undefined, rowCategories));
+  });
+  const storeViews = Array.from(new Set(Array.from(storeViewRows.values()).flatMap(views => Array.from(views.keys())))).sort();
 
   if (notFoundVariantSkusList.length > 0) {
-    console.warn("Missing simple product SKUs referenced in configurable_variations:", notFoundVariantSkusList);
+    console.warn("Missing simple product SKUs referenced by configurable, grouped or bundle products:", notFoundVariantSkusList);
+  }
+  if (configurablesWithTooManyOptions.length > 0) {
+    console.warn(`Configurable products with more than ${MAX_SHOPIFY_OPTIONS} attributes (children imported as standalone products):`, configurablesWithTooManyOptions);
   }
   if (skippedOtherTypeSkus.length > 0) {
-    console.warn("Skipped products with 'other' types (not simple or configurable):", skippedOtherTypeSkus);
+    console.warn("Skipped products with unsupported or skipped types:", skippedOtherTypeSkus);
   }
 
 
@@ -491,7 +1094,17 @@ export const parseMagentoProductCsv = (csvString: string, magentoBaseImageUrl?:
         variantsProcessedForConfigurables,
         variantSkusNotFoundInSimples,
         standaloneSimplesProcessed,
-        shopifyEntryCount: shopifyProducts.length
+        shopifyEntryCount: shopifyProducts.length,
+        configurablesWithTooManyOptions,
+        groupedProductsConverted,
+        bundleProductsConverted,
+        skippedOtherTypeSkus,
+        bundleComponents,
+        storeViews,
+        translations,
+        categories,
+        redirects,
+        customerGroups: collectCustomerGroups(shopifyProducts),
     };
   } else {
     return {
@@ -503,12 +1116,18 @@ export const parseMagentoProductCsv = (csvString: string, magentoBaseImageUrl?:
         simpleProductsCollected,
         configurableProductsCollected,
         otherProductTypesSkipped,
+        configurablesWithTooManyOptions,
+        skippedOtherTypeSkus,
     };
   }
 };
 
 
-export const generateShopifyProductCsv = (products: ShopifyProductFormData[]): string => {
+export interface ProductCsvOutputOptions {
+  outputProfile?: CsvOutputProfile; // defaults to Shopify's own format
+}
+
+export const generateShopifyProductCsv = (products: ShopifyProductFormData[], options: ProductCsvOutputOptions = {}): string => {
   const shopifyHeaders = [
     'Handle', 'Title', 'Body (HTML)', 'Vendor', 'Product Category', 'Type', 'Tags', 'Published',
     'Option1 Name', 'Option1 Value', 'Option2 Name', 'Option2 Value', 'Option3 Name', 'Option3 Value',
@@ -524,8 +1143,11 @@ export const generateShopifyProductCsv = (products: ShopifyProductFormData[]): s
     'Variant Image', 'Variant Weight Unit', 'Variant Tax Code', 'Cost per item',
     'Price / International', 'Compare At Price / International', 'Status'
   ];
+  // One column per metafield namespace, key and type used by any product
+  const metafieldHeaders = Array.from(new Set(products.flatMap(p => (p.metafields || []).map(getMetafieldColumnHeader))));
+  shopifyHeaders.push(...metafieldHeaders);
 
-  const csvData = products.map(p => {
+  const toShopifyRow = (p: ShopifyProductFormData): CsvFieldValue[] => {
     const isParentRowLike = !p.isVariantRow || (p.magentoProductType === 'configurable' && p.imagePosition === 1);
 
 
@@ -559,16 +1181,16 @@ export const generateShopifyProductCsv = (products: ShopifyProductFormData[]): s
         p.option3Name || '',
         p.option3Value || '',
         p.variantSku,
-        String(p.variantWeight ?? 0).replace('.',','),
-        p.variantInventoryQty && p.variantInventoryQty > 0 ? 'shopify' : '',
+        String(Math.round(p.variantWeight ?? 0)),
+        p.variantInventoryTracked === false ? '' : 'shopify',
         String(p.variantInventoryQty ?? 0),
-        'deny',
+        p.variantInventoryPolicy || 'deny',
         'manual',
-        String(p.variantPrice ?? 0).replace('.',','),
-        p.variantCompareAtPrice ? String(p.variantCompareAtPrice).replace('.',',') : '',
+        formatDecimal(p.variantPrice ?? 0, options.outputProfile),
+        p.variantCompareAtPrice ? formatDecimal(p.variantCompareAtPrice, options.outputProfile) : '',
         p.variantRequiresShipping ? 'TRUE' : 'FALSE',
         p.variantTaxable ? 'TRUE' : 'FALSE',
-        '', 
+        p.variantBarcode || '',
         imageSrcForShopify, 
         String(p.imagePosition ?? 1),
         imageAltTextForShopify,
@@ -579,25 +1201,65 @@ export const generateShopifyProductCsv = (products: ShopifyProductFormData[]): s
         p.isVariantRow ? imageSrcForShopify : '', 
         p.variantWeightUnit || 'g',
         '', 
+        formatDecimal(p.variantCost, options.outputProfile),
         '', 
         '', 
-        '', 
-        shopifyStatus
+        shopifyStatus,
+        ...metafieldHeaders.map(header => isParentRowLike ? p.metafields?.find(metafield => getMetafieldColumnHeader(metafield) === header)?.value ?? '' : ''),
     ];
+  };
+
+  // Image-only rows carry just the handle and the image columns
+  const toImageRow = (handle: string, src: string, position: number, altText: string): CsvFieldValue[] => {
+    const row: CsvFieldValue[] = shopifyHeaders.map(() => '');
+    row[shopifyHeaders.indexOf('Handle')] = handle;
+    row[shopifyHeaders.indexOf('Image Src')] = src;
+    row[shopifyHeaders.indexOf('Image Position')] = String(position);
+    row[shopifyHeaders.indexOf('Image Alt Text')] = altText;
+    return row;
+  };
+
+  // Gallery images of a handle's rows, numbered after the images already on those rows
+  const toGalleryRows = (group: ShopifyProductFormData[]): CsvFieldValue[][] => {
+    const usedSrcs = new Set(group.map(p => p.imageSrc).filter(Boolean));
+    let position = Math.max(0, ...group.filter(p => p.imageSrc).map(p => p.imagePosition ?? 1));
+    const rows: CsvFieldValue[][] = [];
+    group.forEach(p => (p.additionalImages || []).forEach(image => {
+      if (!image.src || usedSrcs.has(image.src)) return;
+      usedSrcs.add(image.src);
+      rows.push(toImageRow(p.handle, image.src, ++position, image.altText || group[0].title || ''));
+    }));
+    return rows;
+  };
+
+  const csvData: CsvFieldValue[][] = [];
+  let groupStart = 0;
+  products.forEach((p, i) => {
+    csvData.push(toShopifyRow(p));
+    if (products[i + 1]?.handle === p.handle) return;
+    csvData.push(...toGalleryRows(products.slice(groupStart, i + 1)));
+    groupStart = i + 1;
   });
 
-  return arrayToCsv(shopifyHeaders, csvData);
+  return toCsvOutput(shopifyHeaders, csvData, options.outputProfile);
 };
 
-// Polyfill for crypto.randomUUID for Node <19
-function getRandomUUID() {
-  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
-    return crypto.randomUUID();
-  }
-  // Fallback for environments without crypto.randomUUID
-  // Generates a RFC4122 version 4 UUID
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0, v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
-}
+// One row per bundle with its selections as a JSON metafield, for import next to the product CSV
+export const generateBundleComponentsCsv = (bundles: BundleComponentsEntry[]): string => {
+  const headers = ['Handle', 'Variant SKU', 'Metafield: custom.bundle_components [json]'];
+  const csvData = bundles.map(bundle => [
+    bundle.handle,
+    bundle.sku,
+    JSON.stringify(bundle.components.map(component => ({
+      option: component.option,
+      type: component.type,
+      required: component.required,
+      sku: component.sku,
+      quantity: component.qty,
+      default: component.isDefault,
+      price: component.price,
+      price_type: component.priceType,
+    }))),
+  ]);
+  return arrayToCsv(headers, csvData);
+};
@@ -0,0 +1,104 @@
+import { arrayToCsv, formatCsvSyntaxError, type ParsedCsv } from '@/lib/csv';
+import { normalizeHeader } from '@/lib/column-mapping';
+
+// Localized product content from Magento store view rows, exported for Shopify's Translate & Adapt app.
+// Translate & Adapt matches rows by product ID, which Shopify assigns on import: the IDs are read from a
+// Shopify export of the imported products before the translations file can be generated.
+
+export const TRANSLATABLE_PRODUCT_FIELDS = ['title', 'body_html', 'meta_title', 'meta_description'] as const;
+
+export type TranslatableProductField = typeof TRANSLATABLE_PRODUCT_FIELDS[number];
+
+export interface ProductTranslation {
+  handle: string;
+  storeView: string; // Magento store_view_code
+  locale: string; // Shopify locale, see storeViewToLocale
+  field: TranslatableProductField;
+  defaultContent: string;
+  translatedContent: string;
+}
+
+// Store view codes that name the language instead of using its ISO code
+const STORE_VIEW_LANGUAGE_NAMES: Record<string, string> = {
+  dutch: 'nl',
+  nederlands: 'nl',
+  english: 'en',
+  german: 'de',
+  deutsch: 'de',
+  french: 'fr',
+  francais: 'fr',
+  spanish: 'es',
+  italian: 'it',
+};
+
+// `nl`, `nl_nl` -> nl; `pt_br` -> pt-BR; `english` -> en. Codes that are not recognised are used as they are.
+export const storeViewToLocale = (storeView: string): string => {
+  const code = storeView.trim().toLowerCase();
+  if (STORE_VIEW_LANGUAGE_NAMES[code]) return STORE_VIEW_LANGUAGE_NAMES[code];
+  const match = code.match(/^([a-z]{2})(?:[_-]([a-z]{2}))?$/);
+  if (!match) return code;
+  const [, language, region] = match;
+  return region && region !== language ? `${language}-${region.toUpperCase()}` : language;
+};
+
+// Shopify product ID (numeric) by handle
+export type ProductIdsByHandle = Map<string, string>;
+
+export type ParseProductIdsResult =
+  | { type: 'ids_found'; productIds: ProductIdsByHandle }
+  | { type: 'no_ids_found'; message: string }
+  | { type: 'parse_error'; message: string };
+
+export const TRANSLATIONS_CSV_HEADERS = ['Type', 'Identification', 'Field', 'Locale', 'Market', 'Status', 'Default content', 'Translated content'];
+
+// 1234567890, '1234567890 (spreadsheet text prefix) and gid://shopify/Product/1234567890 -> 1234567890
+const normalizeProductId = (value: string): string | undefined => {
+  const id = value.trim().replace(/^'/, '').replace(/^gid:\/\/shopify\/Product\//i, '');
+  return /^\d+$/.test(id) ? id : undefined;
+};
+
+// Reads product IDs from Translate & Adapt's own export (the PRODUCT rows of field "handle") or from any product
+// export with "ID" and "Handle" columns, e.g. Matrixify
+export const parseShopifyProductIds = ({ records, errors }: ParsedCsv): ParseProductIdsResult => {
+  if (errors.length > 0) return { type: 'parse_error', message: `Malformed CSV: ${formatCsvSyntaxError(errors[0])}` };
+  if (records.length === 0) return { type: 'no_ids_found', message: 'The CSV file is empty.' };
+
+  const headers = records[0].fields.map(normalizeHeader);
+  const column = (name: string) => headers.indexOf(name);
+  const isTranslationsExport = ['type', 'identification', 'field', 'default content'].every(name => column(name) !== -1);
+  if (!isTranslationsExport && (column('id') === -1 || column('handle') === -1)) {
+    return { type: 'parse_error', message: 'Use a Translate & Adapt export or a product export with "ID" and "Handle" columns.' };
+  }
+
+  const productIds: ProductIdsByHandle = new Map();
+  for (const record of records.slice(1)) {
+    const value = (name: string) => (record.fields[column(name)] || '').trim();
+    if (isTranslationsExport && (value('type').toUpperCase() !== 'PRODUCT' || value('field') !== 'handle')) continue;
+    const handle = isTranslationsExport ? value('default content') : value('handle');
+    const id = normalizeProductId(isTranslationsExport ? value('identification') : value('id'));
+    if (handle && id && !productIds.has(handle)) productIds.set(handle, id);
+  }
+
+  if (productIds.size === 0) return { type: 'no_ids_found', message: 'No products with an ID and a handle were found.' };
+  return { type: 'ids_found', productIds };
+};
+
+export const getHandlesWithoutProductId = (translations: ProductTranslation[], productIds: ProductIdsByHandle): string[] =>
+  Array.from(new Set(translations.map(translation => translation.handle).filter(handle => !productIds.has(handle)))).sort();
+
+// Translations of products without a known ID are left out, see getHandlesWithoutProductId
+export const generateProductTranslationsCsv = (translations: ProductTranslation[], productIds: ProductIdsByHandle): string => {
+  const csvData = translations
+    .filter(translation => productIds.has(translation.handle))
+    .map(translation => [
+      'PRODUCT',
+      productIds.get(translation.handle)!,
+      translation.field,
+      translation.locale,
+      '',
+      '',
+      translation.defaultContent,
+      translation.translatedContent,
+    ]);
+  return arrayToCsv(TRANSLATIONS_CSV_HEADERS, csvData);
+};
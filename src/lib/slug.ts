@@ -0,0 +1,8 @@
+// URL-safe lower-case slugs as Shopify uses for handles: `Heren Schoenen & Laarzen` -> `heren-schoenen-laarzen`
+export const slugify = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
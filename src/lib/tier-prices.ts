@@ -0,0 +1,128 @@
+import { arrayToCsv, type CsvFieldValue } from '@/lib/csv';
+import type { ShopifyProductFormData } from '@/schemas/product';
+
+// Magento tier and customer group prices, exported per customer group as a Shopify B2B catalog price list
+
+export const ALL_CUSTOMER_GROUPS = 'ALL GROUPS';
+export const NOT_LOGGED_IN_GROUP = 'NOT LOGGED IN';
+
+// Magento's built-in customer groups, for exports that write group ids instead of names
+export const MAGENTO_CUSTOMER_GROUP_NAMES: Record<string, string> = {
+  '0': NOT_LOGGED_IN_GROUP,
+  '1': 'General',
+  '2': 'Wholesale',
+  '3': 'Retailer',
+  '32000': ALL_CUSTOMER_GROUPS,
+};
+
+export interface MagentoTierPriceEntry {
+  customerGroup: string;
+  minQty: number;
+  value: number;
+  valueType: 'fixed' | 'discount'; // discount: percentage off the regular price
+}
+
+// A variant's price for one customer group from a minimum quantity on
+export interface TierPrice {
+  customerGroup: string;
+  minQty: number;
+  price: number;
+}
+
+// Customer group -> Shopify catalog title; groups mapped to an empty title are not exported
+export type CatalogMapping = Record<string, string>;
+
+const ENTRY_KEYS: Record<string, keyof MagentoTierPriceEntry> = {
+  cust_group: 'customerGroup',
+  customer_group: 'customerGroup',
+  tier_price_customer_group: 'customerGroup',
+  price_qty: 'minQty',
+  qty: 'minQty',
+  tier_price_qty: 'minQty',
+  price: 'value',
+  value: 'value',
+  tier_price: 'value',
+  price_type: 'valueType',
+  value_type: 'valueType',
+  tier_price_value_type: 'valueType',
+};
+
+const normalizeCustomerGroup = (group: string): string => {
+  const trimmed = group.trim();
+  if (MAGENTO_CUSTOMER_GROUP_NAMES[trimmed]) return MAGENTO_CUSTOMER_GROUP_NAMES[trimmed];
+  return ['all', 'all groups', 'all_groups'].includes(trimmed.toLowerCase()) ? ALL_CUSTOMER_GROUPS : trimmed;
+};
+
+// `cust_group=2,price_qty=10,price=8.50|customer_group=Retailer,qty=5,price=10,price_type=discount`.
+// Group prices carry no quantity and apply from `defaultQty` on; website scopes are ignored.
+export const parseMagentoTierPrices = (value: string | undefined, defaultQty = 1): MagentoTierPriceEntry[] => {
+  if (!value) return [];
+  const entries: MagentoTierPriceEntry[] = [];
+  value.split(/[|;]/).forEach(part => {
+    const fields: Partial<Record<keyof MagentoTierPriceEntry, string>> = {};
+    part.split(',').forEach(pair => {
+      const separator = pair.indexOf('=');
+      if (separator === -1) return;
+      const key = ENTRY_KEYS[pair.slice(0, separator).trim().toLowerCase()];
+      if (key) fields[key] = pair.slice(separator + 1).trim();
+    });
+    const amount = parseFloat((fields.value || '').replace(',', '.'));
+    if (!fields.customerGroup || Number.isNaN(amount)) return;
+    const qty = parseFloat((fields.minQty || '').replace(',', '.'));
+    entries.push({
+      customerGroup: normalizeCustomerGroup(fields.customerGroup),
+      minQty: Number.isNaN(qty) || qty < 1 ? defaultQty : Math.round(qty),
+      value: amount,
+      valueType: ['discount', 'percent', 'percentage'].includes((fields.valueType || '').toLowerCase()) ? 'discount' : 'fixed',
+    });
+  });
+  return entries;
+};
+
+// Fixed prices per group and quantity; a later entry for the same group and quantity wins
+export const resolveTierPrices = (entries: MagentoTierPriceEntry[], regularPrice: number): TierPrice[] => {
+  const pricesByKey = new Map<string, TierPrice>();
+  entries.forEach(entry => {
+    const price = entry.valueType === 'discount' ? Math.round(regularPrice * (100 - entry.value)) / 100 : entry.value;
+    pricesByKey.set(`${entry.customerGroup}|${entry.minQty}`, { customerGroup: entry.customerGroup, minQty: entry.minQty, price: Math.max(price, 0) });
+  });
+  return Array.from(pricesByKey.values())
+    .sort((a, b) => a.customerGroup.localeCompare(b.customerGroup) || a.minQty - b.minQty);
+};
+
+export const collectCustomerGroups = (products: Partial<Pick<ShopifyProductFormData, 'tierPrices'>>[]): string[] =>
+  Array.from(new Set(products.flatMap(product => (product.tierPrices || []).map(tier => tier.customerGroup)))).sort();
+
+// Every group gets a catalog of the same name, except guests, who cannot be assigned a B2B catalog
+export const createDefaultCatalogMapping = (customerGroups: string[]): CatalogMapping =>
+  Object.fromEntries(customerGroups.map(group => [group, group === NOT_LOGGED_IN_GROUP ? '' : group]));
+
+// ALL GROUPS prices apply to every group, unless the group has its own price for that quantity
+const getGroupTierPrices = (tierPrices: TierPrice[], customerGroup: string): TierPrice[] => {
+  const own = tierPrices.filter(tier => tier.customerGroup === customerGroup);
+  if (customerGroup === ALL_CUSTOMER_GROUPS) return own;
+  const inherited = tierPrices.filter(tier => tier.customerGroup === ALL_CUSTOMER_GROUPS && !own.some(ownTier => ownTier.minQty === tier.minQty));
+  return [...own, ...inherited].sort((a, b) => a.minQty - b.minQty);
+};
+
+// One row per catalog, variant and minimum quantity: quantity 1 is the catalog's fixed price, higher quantities are price breaks
+export const generatePriceListCsv = (
+  products: Pick<ShopifyProductFormData, 'handle' | 'variantSku' | 'tierPrices'>[],
+  mapping: CatalogMapping,
+  currency: string
+): string => {
+  const headers = ['Catalog', 'Currency', 'Handle', 'Variant SKU', 'Minimum Quantity', 'Price'];
+  const csvData: CsvFieldValue[][] = [];
+  Object.entries(mapping)
+    .filter(([, catalog]) => catalog.trim() !== '')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([customerGroup, catalog]) => {
+      products.forEach(product => {
+        if (!product.variantSku) return;
+        getGroupTierPrices(product.tierPrices || [], customerGroup).forEach(tier => {
+          csvData.push([catalog.trim(), currency.trim().toUpperCase(), product.handle, product.variantSku, tier.minQty, tier.price]);
+        });
+      });
+    });
+  return arrayToCsv(headers, csvData);
+};
@@ -0,0 +1,65 @@
+import { arrayToCsv, type CsvFieldValue } from '@/lib/csv';
+import { slugify } from '@/lib/slug';
+import type { ProductCategory } from '@/lib/category-collections';
+
+// Shopify handles from Magento URL keys, and the URL Redirects CSV that keeps the old Magento URLs working
+
+export type ProductHandleSource = 'url_key' | 'sku';
+
+export const DEFAULT_PRODUCT_HANDLE_SOURCE: ProductHandleSource = 'url_key';
+
+// Magento's default URL suffix for product and category pages
+export const MAGENTO_URL_SUFFIX = '.html';
+
+export interface UrlRedirect {
+  from: string; // old Magento path, e.g. /men/shoes.html
+  to: string; // e.g. /products/sneaker or /collections/men-shoes
+}
+
+// Slugged url_key, falling back to the SKU when the row has none or the SKU is kept
+export const getPreferredHandle = (source: ProductHandleSource, sku: string, urlKey: string | undefined): string =>
+  (source === 'url_key' && slugify(urlKey || '')) || sku;
+
+// Hands out unique handles; a handle that is already taken gets -2, -3, ... appended
+export const createHandleAllocator = () => {
+  const usedHandles = new Set<string>();
+  return (preferred: string): string => {
+    let handle = preferred;
+    for (let suffix = 2; usedHandles.has(handle); suffix++) handle = `${preferred}-${suffix}`;
+    usedHandles.add(handle);
+    return handle;
+  };
+};
+
+// `men/shoes` -> `/men/shoes.html`; paths that already end in an extension keep it
+export const toMagentoUrlPath = (path: string): string => {
+  const trimmed = path.trim().replace(/^\/+|\/+$/g, '');
+  return `/${/\.[a-z0-9]+$/i.test(trimmed) ? trimmed : `${trimmed}${MAGENTO_URL_SUFFIX}`}`;
+};
+
+// Category URL keys are not in the product export; Magento derives them from the names the same way
+const getCategoryUrlKeyPath = (category: ProductCategory): string => category.path.map(slugify).join('/');
+
+// The product page itself and, when Magento puts category paths in product URLs, the page below each category
+export const buildProductRedirects = (
+  handle: string,
+  urlKey: string | undefined,
+  urlPath: string | undefined,
+  categories: ProductCategory[]
+): UrlRedirect[] => {
+  const paths = new Set<string>();
+  if (urlPath?.trim()) paths.add(toMagentoUrlPath(urlPath));
+  if (urlKey?.trim()) {
+    paths.add(toMagentoUrlPath(urlKey));
+    categories.forEach(category => paths.add(toMagentoUrlPath(`${getCategoryUrlKeyPath(category)}/${urlKey.trim()}`)));
+  }
+  return Array.from(paths, from => ({ from, to: `/products/${handle}` }));
+};
+
+export const buildCategoryRedirects = (categories: ProductCategory[]): UrlRedirect[] =>
+  categories.map(category => ({ from: toMagentoUrlPath(getCategoryUrlKeyPath(category)), to: `/collections/${category.handle}` }));
+
+export const generateUrlRedirectsCsv = (redirects: UrlRedirect[]): string => {
+  const csvData: CsvFieldValue[][] = redirects.map(redirect => [redirect.from, redirect.to]);
+  return arrayToCsv(['Redirect from', 'Redirect to'], csvData);
+};
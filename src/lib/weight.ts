@@ -0,0 +1,32 @@
+// Weight units: Magento stores weights in the store's unit, Shopify's Variant Grams is always whole grams
+
+export const WEIGHT_UNITS = ['g', 'kg', 'lb', 'oz'] as const;
+
+export type WeightUnit = typeof WEIGHT_UNITS[number];
+
+export const WEIGHT_UNIT_LABELS: Record<WeightUnit, string> = {
+  g: 'Grams (g)',
+  kg: 'Kilograms (kg)',
+  lb: 'Pounds (lb)',
+  oz: 'Ounces (oz)',
+};
+
+export const GRAMS_PER_UNIT: Record<WeightUnit, number> = {
+  g: 1,
+  kg: 1000,
+  lb: 453.59237,
+  oz: 28.349523125,
+};
+
+// Magento offers kgs and lbs; most stores using this tool weigh in kilograms
+export const DEFAULT_SOURCE_WEIGHT_UNIT: WeightUnit = 'kg';
+
+// Heavier variants are almost always a weight in the wrong unit, e.g. grams imported as kilograms
+export const MAX_PLAUSIBLE_WEIGHT_GRAMS = 500_000;
+
+export const toGrams = (weight: number, unit: WeightUnit): number => Math.round(weight * GRAMS_PER_UNIT[unit]);
+
+// Grams in the unit shown to shoppers, rounded to what Shopify displays
+export const fromGrams = (grams: number, unit: WeightUnit): number => Math.round((grams / GRAMS_PER_UNIT[unit]) * 1000) / 1000;
+
+export const isPlausibleWeight = (grams: number): boolean => grams <= MAX_PLAUSIBLE_WEIGHT_GRAMS;
@@ -1,10 +1,30 @@
 
 import { z } from 'zod';
+import { normalizePhoneNumber, type PhoneNumberResult } from '@/lib/phone-numbers';
+import { hasProvinces, isCountryCode, isProvinceCode, type AddressLocation } from '@/lib/countries';
+import { normalizePostalCode } from '@/lib/postal-codes';
+import { DEFAULT_PHONE_FORMATTING_RULES, type PhoneFormattingRules } from '@/lib/customer-settings';
 
-const phoneRegex = /^[\d\s()+-]*$/;
-const cleanedPhoneLength = (phone: string) => phone.replace(/\D/g, '').length;
+// An address book entry besides the default address; exported as an extra row of the customer
+export const customerAddressSchema = z.object({
+  firstName: z.string().optional().default(''),
+  lastName: z.string().optional().default(''),
+  company: z.string().optional().default(''),
+  address1: z.string().optional().default(''),
+  address2: z.string().optional().default(''),
+  city: z.string().optional().default(''),
+  province: z.string().optional().default(''),
+  provinceCode: z.string().optional().default(''),
+  country: z.string().optional().default(''),
+  countryCode: z.string().optional().default(''),
+  zip: z.string().optional().default(''),
+  phone: z.string().optional().default(''), // validated against countryCode, see createShopifyCustomerSchema
+  // country, countryCode and provinceCode are checked against the ISO 3166 lookup as well, zip against the country's format
+});
+
+export type CustomerAddress = z.infer<typeof customerAddressSchema>;
 
-export const shopifyCustomerSchema = z.object({
+const customerFieldsSchema = z.object({
   id: z.string(), // for client-side keying
   firstName: z.string().optional().default(''),
   lastName: z.string().optional().default(''),
@@ -21,15 +41,9 @@ export const shopifyCustomerSchema = z.object({
   country: z.string().optional().default(''),
   countryCode: z.string().optional().default(''), // e.g., US, NL
   zip: z.string().optional().default(''), // Postal Code
-  phone: z.string()
-    .optional()
-    .default('')
-    .refine(val => val === '' || phoneRegex.test(val), {
-      message: "Phone number has invalid characters. Only digits and ()-+/space are allowed."
-    })
-    .refine(val => val === '' || cleanedPhoneLength(val) >= 7, { 
-      message: "Phone number seems too short (minimum 7 digits required)."
-    }),
+  phone: z.string().optional().default(''),
+  addressPhone: z.string().optional().default(''), // phone of the default address; the customer's phone when empty
+  addresses: z.array(customerAddressSchema).optional().default([]), // Magento address book minus the default address above
   acceptsMarketing: z.boolean().default(false), // Corresponds to Accepts Email Marketing
   acceptsSmsMarketing: z.boolean().default(false),
   tags: z.string().optional().default(''), // comma-separated
@@ -37,10 +51,48 @@ export const shopifyCustomerSchema = z.object({
   taxExempt: z.boolean().default(false),
 });
 
+// Takes the phone formatting rules the export uses, so a number that exports fine also validates
+export const createShopifyCustomerSchema = (phoneFormatting: PhoneFormattingRules = DEFAULT_PHONE_FORMATTING_RULES) => customerFieldsSchema.superRefine((customer, ctx) => {
+  // Phone numbers must be normalizable to E.164 with the numbering plan of their address' country, or the
+  // default country; when normalization is off they are exported as entered and not checked
+  const checkPhone = (phone: string, countryCode: string, path: (string | number)[]): PhoneNumberResult | undefined => {
+    if (!phoneFormatting.normalize || !phone.trim()) return undefined;
+    const result = normalizePhoneNumber(phone, countryCode || phoneFormatting.defaultCountry);
+    if (result.type === 'invalid') ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: result.message });
+    return result;
+  };
+  const phone = checkPhone(customer.phone, customer.countryCode, ['phone']);
+  if (customer.acceptsSmsMarketing && phone?.type === 'valid' && phone.numberType === 'landline') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['acceptsSmsMarketing'], message: "SMS marketing needs a mobile number; the phone number is a landline." });
+  }
+  checkPhone(customer.addressPhone, customer.countryCode, ['addressPhone']);
+  customer.addresses.forEach((address, i) => checkPhone(address.phone, address.countryCode, ['addresses', i, 'phone']));
+
+  // Shopify only imports ISO country codes, and province codes for the countries that have them
+  const checkLocation = ({ country, countryCode, province, provinceCode, zip }: AddressLocation & { zip: string }, path: (string | number)[]) => {
+    if (countryCode && !isCountryCode(countryCode)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'countryCode'], message: `"${countryCode}" is not an ISO country code, e.g. NL.` });
+    } else if (!countryCode && country.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'countryCode'], message: `Country "${country}" could not be resolved to an ISO country code.` });
+    }
+    if (hasProvinces(countryCode) && (province.trim() || provinceCode) && !isProvinceCode(countryCode, provinceCode)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'provinceCode'], message: `Province "${provinceCode || province}" could not be resolved to a ${countryCode} province code.` });
+    }
+    const postalCode = normalizePostalCode(zip, countryCode);
+    if (postalCode.type === 'invalid') ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'zip'], message: postalCode.message });
+  };
+  checkLocation(customer, []);
+  customer.addresses.forEach((address, i) => checkLocation(address, ['addresses', i]));
+});
+
+export const shopifyCustomerSchema = createShopifyCustomerSchema();
+
 export type ShopifyCustomerFormData = z.infer<typeof shopifyCustomerSchema>;
 
-export const shopifyCustomersSchema = z.object({
-  customers: z.array(shopifyCustomerSchema),
+export const createShopifyCustomersSchema = (phoneFormatting?: PhoneFormattingRules) => z.object({
+  customers: z.array(createShopifyCustomerSchema(phoneFormatting)),
 });
 
+export const shopifyCustomersSchema = createShopifyCustomersSchema();
+
 export type ShopifyCustomersFormData = z.infer<typeof shopifyCustomersSchema>;
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { DEFAULT_CUSTOMER_TAG_PREFIXES, DEFAULT_PHONE_FORMATTING_RULES } from '@/lib/customer-settings';
+import { METAFIELD_TYPES } from '@/lib/additional-attributes';
+import { PHONE_NUMBERING_PLANS } from '@/lib/phone-numbers';
+
+const columnMappingTargetSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('field'), field: z.string().min(1) }),
+  z.object({ kind: z.literal('ignore') }),
+  z.object({ kind: z.literal('tags') }),
+  z.object({ kind: z.literal('note') }),
+]);
+
+const additionalAttributeTargetSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('metafield'),
+    namespace: z.string().regex(/^[a-zA-Z0-9_-]{2,}$/, { message: "Metafield namespace must be at least 2 letters, digits, dashes or underscores." }),
+    key: z.string().regex(/^[a-zA-Z0-9_-]+$/, { message: "Metafield key may only contain letters, digits, dashes and underscores." }),
+    type: z.enum(METAFIELD_TYPES),
+  }),
+  z.object({ kind: z.literal('tags') }),
+  z.object({ kind: z.literal('option') }),
+  z.object({ kind: z.literal('ignore') }),
+]);
+
+// A saved import setup, applied again when a file with the same headers is uploaded
+export const mappingProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, { message: "Profile name is required." }),
+  entity: z.enum(['customer', 'product']),
+  headerSignature: z.string(), // see getHeaderSignature
+  columnMapping: z.record(columnMappingTargetSchema),
+  magentoBaseImageUrl: z.string().optional().default(''), // products only
+  tagPrefixes: z.object({ // customers only
+    website: z.string(),
+    store: z.string(),
+    groupId: z.string(),
+    createdAt: z.string(),
+    vatNumber: z.string(),
+  }).optional().default(DEFAULT_CUSTOMER_TAG_PREFIXES),
+  phoneFormatting: z.object({ // customers only
+    normalize: z.boolean(),
+    defaultCountry: z.string().refine(country => country in PHONE_NUMBERING_PLANS, { message: "Default country must be an EU, UK, US or Canadian country code, e.g. NL." }),
+  }).optional().default(DEFAULT_PHONE_FORMATTING_RULES),
+  attributeMapping: z.record(additionalAttributeTargetSchema).optional().default({}), // products only, keyed by attribute code
+  updatedAt: z.string(), // ISO timestamp
+});
+
+export type MappingProfile = z.infer<typeof mappingProfileSchema>;
+
+// Layout of exported profile files and of the localStorage entry
+export const mappingProfilesFileSchema = z.object({
+  version: z.literal(1),
+  profiles: z.array(mappingProfileSchema),
+});
+
+export type MappingProfilesFile = z.infer<typeof mappingProfilesFileSchema>;
@@ -1,5 +1,8 @@
 
 import { z } from 'zod';
+import { validateBarcode } from '@/lib/barcode';
+import { METAFIELD_TYPES } from '@/lib/additional-attributes';
+import { isPlausibleWeight, WEIGHT_UNITS } from '@/lib/weight';
 
 // Represents a single row in the Shopify Product CSV
 // For products with variants, the first row is the "parent" product,
@@ -9,6 +12,7 @@ export const shopifyProductSchema = z.object({
   handle: z.string().min(1, { message: "Handle is required." }),
   title: z.string().optional().default(''), // Shopify: Title - Required for parent, blank for variants after the first
   bodyHtml: z.string().optional().default(''), // Shopify: Body (HTML)
+  bodyHtmlChanges: z.array(z.string()).optional().default([]), // What the description cleanup rewrote or removed; read-only in the form
   vendor: z.string().optional().default(''),
   productType: z.string().optional().default(''), // Shopify: Type
   tags: z.string().optional().default(''), // Shopify: Tags (comma-separated)
@@ -22,6 +26,15 @@ export const shopifyProductSchema = z.object({
   option3Value: z.string().optional().default(''),
 
   variantSku: z.string().optional().default(''), // Shopify: Variant SKU
+  variantBarcode: z.string() // Shopify: Variant Barcode (EAN-8, UPC-A, EAN-13 or GTIN-14)
+    .optional()
+    .default('')
+    .refine(val => val.trim() === '' || validateBarcode(val).type !== 'invalid_format', {
+      message: "Barcode must be 8, 12, 13 or 14 digits (EAN-8, UPC-A, EAN-13 or GTIN-14)."
+    })
+    .refine(val => val.trim() === '' || validateBarcode(val).type !== 'invalid_check_digit', {
+      message: "Barcode check digit is invalid."
+    }),
   variantPrice: z.preprocess(
     (val) => (String(val).trim() === '' ? undefined : Number(String(val).replace(',', '.'))),
     z.number().nonnegative({ message: "Price must be non-negative" }).optional()
@@ -30,17 +43,32 @@ export const shopifyProductSchema = z.object({
     (val) => (String(val).trim() === '' ? undefined : Number(String(val).replace(',', '.'))),
     z.number().positive().optional()
   ).optional().default(undefined),
+  variantCost: z.preprocess( // Shopify: Cost per item
+    (val) => (val === undefined || val === null || String(val).trim() === '' ? undefined : Number(String(val).replace(',', '.'))),
+    z.number().nonnegative({ message: "Cost must be non-negative" }).optional()
+  ).optional().default(undefined),
+  // Magento tier and customer group prices, exported as B2B catalog price lists; read-only in the form
+  tierPrices: z.array(z.object({
+    customerGroup: z.string(),
+    minQty: z.number().int().positive(),
+    price: z.number().nonnegative(),
+  })).optional().default([]),
   variantInventoryQty: z.preprocess(
     (val) => (String(val).trim() === '' ? undefined : Number(val)),
     z.number().int().optional()
   ).default(0),
+  variantInventoryTracked: z.boolean().optional().default(true), // Shopify: Variant Inventory Tracker ("shopify" or blank)
+  variantInventoryPolicy: z.enum(['deny', 'continue']).optional().default('deny'), // Shopify: Variant Inventory Policy
   variantRequiresShipping: z.boolean().optional().default(true),
   variantTaxable: z.boolean().optional().default(true),
-  variantWeight: z.preprocess(
+  variantWeight: z.preprocess( // Shopify: Variant Grams
     (val) => (String(val).trim() === '' ? undefined : Number(String(val).replace(',', '.'))),
     z.number().nonnegative().optional()
+      .refine(val => val === undefined || isPlausibleWeight(val), val => ({
+        message: `A weight of ${(val ?? 0) / 1000} kg is implausible; check the Magento weight unit.`
+      }))
   ).default(0),
-  variantWeightUnit: z.enum(['g', 'kg', 'lb', 'oz']).optional().default('g'),
+  variantWeightUnit: z.enum(WEIGHT_UNITS).optional().default('g'), // Shopify: Variant Weight Unit, the unit shown to shoppers
   
   imageSrc: z.string().optional().default(''), // Shopify: Image Src (for the product or variant)
   imagePosition: z.preprocess(
@@ -48,6 +76,19 @@ export const shopifyProductSchema = z.object({
     z.number().int().positive().optional()
   ).optional().default(1),
   imageAltText: z.string().optional().default(''),
+  // Gallery images besides imageSrc; exported as image-only rows under the same handle
+  additionalImages: z.array(z.object({
+    src: z.string(),
+    altText: z.string().optional().default(''),
+  })).optional().default([]),
+
+  // Product metafields, exported as `Metafield: namespace.key [type]` columns on the product's first row
+  metafields: z.array(z.object({
+    namespace: z.string().min(1),
+    key: z.string().min(1),
+    type: z.enum(METAFIELD_TYPES),
+    value: z.string(),
+  })).optional().default([]),
 
   // SEO Fields
   seoTitle: z.string().optional().default(''),
@@ -56,6 +97,8 @@ export const shopifyProductSchema = z.object({
   // Additional fields for internal processing if needed
   magentoProductType: z.string().optional().default('simple'), // e.g., simple, configurable
   isVariantRow: z.boolean().default(false), // Helper to know if this row is a variant of a main product
+  magentoIsInStock: z.boolean().optional(), // Magento is_in_stock, kept to warn when it contradicts the qty
+  conversionWarnings: z.array(z.string()).optional().default([]), // Magento data the conversion could not carry over
 });
 
 export type ShopifyProductFormData = z.infer<typeof shopifyProductSchema>;
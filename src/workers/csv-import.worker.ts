@@ -0,0 +1,70 @@
+import { tokenizeFileInChunks, type CsvImportCommand, type CsvImportRequest, type CsvImportWorkerMessage, type ImportConversionSettings, type TokenizedCsvFile } from '@/lib/csv-import';
+import { buildColumnMappingPreview } from '@/lib/column-mapping';
+import { convertMagentoCustomerRecords, findCustomerHeaderRowIndex } from '@/lib/customer-csv-converter';
+import { convertMagentoProductRecords } from '@/lib/product-csv-converter';
+
+// Runs the Magento CSV import off the main thread. The page cancels an import by terminating the worker.
+const post = (message: CsvImportWorkerMessage) => self.postMessage(message);
+
+// The tokenized file is kept here between reading it and the user confirming the column mapping
+let pending: { request: CsvImportRequest; parsed: TokenizedCsvFile; addressRecords?: TokenizedCsvFile } | null = null;
+
+const convert = (settings?: ImportConversionSettings) => {
+  if (!pending) return;
+  const { request, parsed, addressRecords } = pending;
+  pending = null;
+  post({
+    type: 'progress',
+    progress: { phase: 'converting', bytesRead: request.file.size, totalBytes: request.file.size, rowsRead: parsed.records.length },
+  });
+
+  if (request.kind === 'customer') {
+    const options = { columnMapping: settings?.columnMapping, tagPrefixes: settings?.tagPrefixes, phoneFormatting: settings?.phoneFormatting, addressRecords };
+    post({ type: 'customer_result', result: convertMagentoCustomerRecords(parsed, options), encoding: parsed.encoding });
+  } else {
+    const magentoBaseImageUrl = settings?.magentoBaseImageUrl ?? request.magentoBaseImageUrl;
+    const options = { ...request.strategies, defaultStoreView: request.defaultStoreView, handleSource: request.handleSource, weightUnit: request.weightUnit, columnMapping: settings?.columnMapping, attributeMapping: settings?.attributeMapping };
+    post({ type: 'product_result', result: convertMagentoProductRecords(parsed, magentoBaseImageUrl, options), encoding: parsed.encoding });
+  }
+};
+
+self.onmessage = async (event: MessageEvent<CsvImportCommand>) => {
+  const command = event.data;
+  try {
+    if (command.type === 'convert') {
+      convert(command.settings);
+      return;
+    }
+
+    const { request } = command;
+    // The customers' address book comes as a second file, read with the same encoding. Progress covers
+    // both files, so the bar keeps climbing from where the first file left off.
+    const addressesFile = request.kind === 'customer' ? request.addressesFile : undefined;
+    const totalBytes = request.file.size + (addressesFile?.size ?? 0);
+    const parsed = await tokenizeFileInChunks(request.file, {
+      encoding: request.encoding,
+      onProgress: progress => post({ type: 'progress', progress: { ...progress, totalBytes } }),
+    });
+    const addressRecords = addressesFile
+      ? await tokenizeFileInChunks(addressesFile, {
+        encoding: request.encoding,
+        onProgress: progress => post({
+          type: 'progress',
+          progress: { ...progress, bytesRead: request.file.size + progress.bytesRead, totalBytes, rowsRead: parsed.records.length + progress.rowsRead },
+        }),
+      })
+      : undefined;
+    pending = { request, parsed, addressRecords };
+
+    const headerRowIndex = request.kind === 'customer' ? findCustomerHeaderRowIndex(parsed.records) : 0;
+    if (parsed.errors.length > 0 || headerRowIndex === -1 || parsed.records.length === 0) {
+      // Nothing to map; let the converter report the problem
+      convert();
+      return;
+    }
+    post({ type: 'mapping_required', preview: buildColumnMappingPreview(request.kind, parsed.records, headerRowIndex) });
+  } catch (error) {
+    console.error('Error in CSV import worker:', error);
+    post({ type: 'failed', message: error instanceof Error ? error.message : 'Could not read the CSV file.' });
+  }
+};
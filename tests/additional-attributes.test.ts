@@ -0,0 +1,50 @@
+import {
+  collectAdditionalAttributeCodes,
+  formatMetafieldValue,
+  getAttributeTarget,
+  getMetafieldColumnHeader,
+  parseAdditionalAttributes,
+} from '../src/lib/additional-attributes';
+import { parseCsv } from '../src/lib/csv';
+
+describe('parseAdditionalAttributes', () => {
+  it('splits code=value pairs and keeps commas inside values', () => {
+    expect(Array.from(parseAdditionalAttributes('material=Cotton, Linen,brand=Acme,eco=1'))).toEqual([
+      ['material', 'Cotton, Linen'],
+      ['brand', 'Acme'],
+      ['eco', '1'],
+    ]);
+  });
+
+  it('skips empty values and returns nothing for a blank column', () => {
+    expect(Array.from(parseAdditionalAttributes('brand=,eco=1'))).toEqual([['eco', '1']]);
+    expect(parseAdditionalAttributes('').size).toBe(0);
+  });
+});
+
+describe('collectAdditionalAttributeCodes', () => {
+  it('lists every attribute code with sample values', () => {
+    const { records } = parseCsv('sku,additional_attributes\nA,brand=Acme\nB,"brand=Other,material=Wool"\nC,brand=Acme');
+    expect(collectAdditionalAttributeCodes(records.slice(1), 1)).toEqual([
+      { header: 'brand', samples: ['Acme', 'Other'] },
+      { header: 'material', samples: ['Wool'] },
+    ]);
+  });
+});
+
+describe('metafield helpers', () => {
+  it('defaults unmapped attributes to custom text metafields', () => {
+    expect(getAttributeTarget({}, 'Care Label')).toEqual({ kind: 'metafield', namespace: 'custom', key: 'care_label', type: 'single_line_text_field' });
+  });
+
+  it('formats values by metafield type', () => {
+    expect(formatMetafieldValue('12.0', 'number_integer')).toBe('12');
+    expect(formatMetafieldValue('Yes', 'boolean')).toBe('true');
+    expect(formatMetafieldValue('Red|Blue', 'list.single_line_text_field')).toBe('Red; Blue');
+  });
+
+  it('builds the Shopify column header', () => {
+    expect(getMetafieldColumnHeader({ namespace: 'custom', key: 'material', type: 'single_line_text_field' }))
+      .toBe('Metafield: custom.material [single_line_text_field]');
+  });
+});
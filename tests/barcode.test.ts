@@ -0,0 +1,44 @@
+import { calculateGtinCheckDigit, normalizeBarcode, validateBarcode } from '../src/lib/barcode';
+import { shopifyProductSchema } from '../src/schemas/product';
+
+describe('validateBarcode', () => {
+  it.each([
+    ['EAN-8', '96385074'],
+    ['UPC-A', '036000291452'],
+    ['EAN-13', '4006381333931'],
+    ['GTIN-14', '10012345678902'],
+  ])('accepts a valid %s', (_, barcode) => {
+    expect(validateBarcode(barcode)).toEqual({ type: 'valid' });
+  });
+
+  it('reports the expected check digit', () => {
+    expect(validateBarcode('4006381333932')).toEqual({ type: 'invalid_check_digit', expected: 1 });
+    expect(calculateGtinCheckDigit('871234567890')).toBe(6);
+  });
+
+  it('rejects other lengths and non-digits', () => {
+    expect(validateBarcode('1234567').type).toBe('invalid_format');
+    expect(validateBarcode('8.71235E+12').type).toBe('invalid_format');
+  });
+
+  it('ignores spaces and dashes', () => {
+    expect(normalizeBarcode(' 4006381-333931 ')).toBe('4006381333931');
+    expect(validateBarcode('0 36000 29145 2').type).toBe('valid');
+  });
+});
+
+describe('shopifyProductSchema variantBarcode', () => {
+  const parse = (variantBarcode: string) => shopifyProductSchema.safeParse({ id: 'x', handle: 'tee', variantBarcode });
+
+  it('allows an empty barcode', () => {
+    expect(parse('').success).toBe(true);
+  });
+
+  it('flags a bad check digit', () => {
+    const result = parse('4006381333932');
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0]).toMatchObject({ path: ['variantBarcode'], message: 'Barcode check digit is invalid.' });
+    }
+  });
+});
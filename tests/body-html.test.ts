@@ -0,0 +1,61 @@
+import { cleanMagentoBodyHtml, getMagentoBaseUrls } from '../src/lib/body-html';
+
+const magentoBaseImageUrl = 'https://shop.example/pub/media/catalog/product';
+
+describe('getMagentoBaseUrls', () => {
+  it('derives the store and media URLs from the image base URL', () => {
+    expect(getMagentoBaseUrls(magentoBaseImageUrl)).toEqual({ storeUrl: 'https://shop.example', mediaUrl: 'https://shop.example/pub/media' });
+    expect(getMagentoBaseUrls('https://shop.example/nl/media/catalog/product')).toEqual({ storeUrl: 'https://shop.example/nl', mediaUrl: 'https://shop.example/nl/media' });
+    expect(getMagentoBaseUrls('')).toBeUndefined();
+  });
+});
+
+describe('cleanMagentoBodyHtml', () => {
+  it('resolves media and store directives', () => {
+    const result = cleanMagentoBodyHtml('<p><img src="{{media url="wysiwyg/foo.jpg"}}" alt="Foo"> <a href="{{store url=\'contact\'}}">Contact</a></p>', { magentoBaseImageUrl });
+    expect(result.html).toBe('<p><img src="https://shop.example/pub/media/wysiwyg/foo.jpg" alt="Foo"> <a href="https://shop.example/contact">Contact</a></p>');
+    expect(result.changes).toEqual(['Resolved 1 media URL', 'Resolved 1 store URL']);
+  });
+
+  it('removes directives it cannot resolve without a base URL', () => {
+    const result = cleanMagentoBodyHtml('<p>Hi {{media url=&quot;wysiwyg/foo.jpg&quot;}}</p>');
+    expect(result.html).toBe('<p>Hi </p>');
+    expect(result.changes).toEqual(['Removed 1 media or store URL (no Magento base URL)']);
+  });
+
+  it('removes widgets and other directives', () => {
+    const result = cleanMagentoBodyHtml('<p>A</p>{{widget type="Magento\\Cms\\Block\\Widget\\Block" block_id="12"}}{{trans "Hello"}}');
+    expect(result.html).toBe('<p>A</p>');
+    expect(result.changes).toEqual(['Removed 1 widget', 'Removed 1 other template directive']);
+  });
+
+  it('unwraps Page Builder elements and drops their styles', () => {
+    const html = '<style>#html-body [data-pb-style=ABC]{color:red}</style><div data-content-type="row" data-appearance="contained"><div data-pb-style="ABC"><h2>Title</h2></div></div>';
+    const result = cleanMagentoBodyHtml(html);
+    expect(result.html).toBe('<h2>Title</h2>');
+    expect(result.changes).toEqual(['Unwrapped 2 Page Builder elements', 'Removed <style> with content']);
+  });
+
+  it('keeps only allow-listed tags, attributes and safe URLs', () => {
+    const html = '<p class="intro" onclick="evil()"><font color="red">Red</font><script>alert(1)</script><a href="javascript:alert(1)" title="x">Link</a></p><iframe src="http://video.example/1"></iframe>';
+    const result = cleanMagentoBodyHtml(html);
+    expect(result.html).toBe('<p>Red<a title="x">Link</a></p>');
+    expect(result.changes).toEqual(['Removed <script> with content', 'Unwrapped disallowed <font>, <iframe>', 'Removed attributes class, onclick']);
+  });
+
+  it('drops URLs whose scheme is hidden by entities, whitespace or control characters', () => {
+    const hrefs = ['&#106;avascript:alert(1)', 'java&#9;script:alert(1)', 'java\tscript:alert(1)', ' &#x0A;javascript&colon;alert(1)', 'jav&#x61;script:alert(1)', 'vbscript:msgbox(1)'];
+    hrefs.forEach(href => expect(cleanMagentoBodyHtml(`<a href="${href}">Link</a>`).html).toBe('<a>Link</a>'));
+    expect(cleanMagentoBodyHtml('<img src="data:image/svg+xml;base64,AAAA" alt="x">').html).toBe('<img alt="x">');
+  });
+
+  it('keeps web, mailto and relative URLs', () => {
+    const html = '<a href="https://shop.example/a?b=1&amp;c=2">A</a><a href="mailto:info@shop.example">B</a><a href="/contact">C</a><img src="images/foo.jpg">';
+    expect(cleanMagentoBodyHtml(html).html).toBe(html);
+  });
+
+  it('closes tags left open and leaves clean HTML unchanged', () => {
+    expect(cleanMagentoBodyHtml('<ul><li>One</ul><p>Open').html).toBe('<ul><li>One</li></ul><p>Open</p>');
+    expect(cleanMagentoBodyHtml('<p>Plain <strong>text</strong><br></p>')).toEqual({ html: '<p>Plain <strong>text</strong><br></p>', changes: [] });
+  });
+});
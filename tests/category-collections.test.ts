@@ -0,0 +1,56 @@
+import {
+  buildCategoryTree,
+  generateCustomCollectionsCsv,
+  generateSmartCollectionsCsv,
+  parseCategoryPaths,
+} from '../src/lib/category-collections';
+import { parseCsv } from '../src/lib/csv';
+import { slugify } from '../src/lib/slug';
+
+describe('slugify', () => {
+  it('lower-cases, strips accents and joins words with dashes', () => {
+    expect(slugify('  Heren Schoenen & Laarzen ')).toBe('heren-schoenen-laarzen');
+    expect(slugify('Crème Brûlée')).toBe('creme-brulee');
+  });
+});
+
+describe('parseCategoryPaths', () => {
+  it('drops the root category and empty paths', () => {
+    expect(parseCategoryPaths('Default Category/Men/Shoes,Default Category,Default Category/Sale')).toEqual([['Men', 'Shoes'], ['Sale']]);
+    expect(parseCategoryPaths(undefined)).toEqual([]);
+  });
+});
+
+describe('buildCategoryTree', () => {
+  it('adds ancestors and gives every category a unique tag', () => {
+    const categories = buildCategoryTree([['Men', 'Shoes'], ['Men Shoes'], ['Sale']]);
+    expect(categories.map(category => [category.title, category.tag, category.parentHandle])).toEqual([
+      ['Men', 'cat:men', undefined],
+      ['Men Shoes', 'cat:men-shoes', undefined],
+      ['Shoes', 'cat:men-shoes-2', 'men'],
+      ['Sale', 'cat:sale', undefined],
+    ]);
+  });
+});
+
+describe('collection exports', () => {
+  const categories = buildCategoryTree([['Men', 'Shoes'], ['Men', 'Shirts']]);
+  categories.find(category => category.title === 'Shoes')!.productHandles.push('sneaker');
+  categories.find(category => category.title === 'Shirts')!.productHandles.push('polo', 'tee');
+
+  it('writes one tag rule per category in a smart collection', () => {
+    const { records } = parseCsv(generateSmartCollectionsCsv(categories, { men: 'smart' }, { includeSubcategories: true }));
+    expect(records.slice(1).map(record => [record.fields[0], record.fields[1], record.fields[6]])).toEqual([
+      ['men', 'Men', 'cat:men'],
+      ['men', '', 'cat:men-shirts'],
+      ['men', '', 'cat:men-shoes'],
+    ]);
+  });
+
+  it('lists the products of a custom collection, optionally without subcategories', () => {
+    const withChildren = parseCsv(generateCustomCollectionsCsv(categories, { men: 'custom' }, { includeSubcategories: true }));
+    expect(withChildren.records.slice(1).map(record => record.fields[3])).toEqual(['polo', 'tee', 'sneaker']);
+    const withoutChildren = parseCsv(generateCustomCollectionsCsv(categories, { men: 'custom' }, { includeSubcategories: false }));
+    expect(withoutChildren.records).toHaveLength(1);
+  });
+});
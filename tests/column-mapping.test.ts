@@ -0,0 +1,64 @@
+import {
+  buildColumnMappingPreview,
+  createHeaderIndexFinder,
+  decodeMappingTarget,
+  encodeMappingTarget,
+  getMissingRequiredFields,
+  CUSTOMER_MAPPING_FIELDS,
+  PRODUCT_MAPPING_FIELDS,
+  proposeColumnMapping,
+} from '../src/lib/column-mapping';
+import { parseCsv } from '../src/lib/csv';
+
+describe('proposeColumnMapping', () => {
+  it('maps headers by the default aliases and ignores the rest', () => {
+    const mapping = proposeColumnMapping(['email', 'plaats', 'woonplaats', 'billing_city'], CUSTOMER_MAPPING_FIELDS);
+    expect(mapping).toEqual({
+      email: { kind: 'field', field: 'email' },
+      plaats: { kind: 'field', field: 'city' },
+      woonplaats: { kind: 'ignore' },
+      billing_city: { kind: 'ignore' },
+    });
+  });
+
+  it('reports required fields that are not mapped', () => {
+    const mapping = proposeColumnMapping(['artikelnummer', 'name'], PRODUCT_MAPPING_FIELDS);
+    expect(getMissingRequiredFields(mapping, PRODUCT_MAPPING_FIELDS).map(f => f.key)).toEqual(['sku']);
+  });
+});
+
+describe('createHeaderIndexFinder', () => {
+  const headers = ['email', 'woonplaats', 'city'];
+
+  it('falls back to aliases without a mapping', () => {
+    expect(createHeaderIndexFinder(headers, CUSTOMER_MAPPING_FIELDS)('city')).toBe(2);
+  });
+
+  it('uses the explicit mapping when given', () => {
+    const find = createHeaderIndexFinder(headers, CUSTOMER_MAPPING_FIELDS, {
+      email: { kind: 'field', field: 'email' },
+      woonplaats: { kind: 'field', field: 'city' },
+      city: { kind: 'ignore' },
+    });
+    expect(find('city')).toBe(1);
+    expect(find('zip')).toBe(-1);
+  });
+});
+
+describe('buildColumnMappingPreview', () => {
+  it('collects the first non-empty sample values per column', () => {
+    const { records } = parseCsv('Export\nemail,plaats\na@example.com,\nb@example.com,Utrecht\nc@example.com,Delft\nd@example.com,Zwolle');
+    const preview = buildColumnMappingPreview('customer', records, 1, 2);
+    expect(preview.columns).toEqual([
+      { header: 'email', samples: ['a@example.com', 'b@example.com'] },
+      { header: 'plaats', samples: ['Utrecht', 'Delft'] },
+    ]);
+    expect(preview.proposedMapping.plaats).toEqual({ kind: 'field', field: 'city' });
+  });
+});
+
+it('round-trips mapping targets through select values', () => {
+  for (const target of [{ kind: 'field', field: 'city' }, { kind: 'ignore' }, { kind: 'tags' }, { kind: 'note' }] as const) {
+    expect(decodeMappingTarget(encodeMappingTarget(target))).toEqual(target);
+  }
+});
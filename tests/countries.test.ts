@@ -0,0 +1,54 @@
+import { getCountryName, resolveAddressLocation, resolveCountryCode, resolveProvinceCode } from '../src/lib/countries';
+
+describe('resolveCountryCode', () => {
+  it('resolves codes and names in English, Dutch, German and French', () => {
+    ['NL', 'nl', 'NLD', 'Netherlands', 'The Netherlands', 'Nederland', 'Niederlande', 'Pays-Bas', 'Holland'].forEach(value => {
+      expect(resolveCountryCode(value)).toBe('NL');
+    });
+    expect(resolveCountryCode('Österreich')).toBe('AT');
+    expect(resolveCountryCode('osterreich')).toBe('AT');
+    expect(resolveCountryCode('Royaume-Uni')).toBe('GB');
+    expect(resolveCountryCode('Verenigde Staten')).toBe('US');
+  });
+
+  it('returns undefined for unknown and empty values', () => {
+    expect(resolveCountryCode('Atlantis')).toBeUndefined();
+    expect(resolveCountryCode(' ')).toBeUndefined();
+    expect(resolveCountryCode(undefined)).toBeUndefined();
+  });
+});
+
+describe('getCountryName', () => {
+  it('returns the name in the requested language', () => {
+    expect(getCountryName('DE')).toBe('Germany');
+    expect(getCountryName('DE', 'nl')).toBe('Duitsland');
+    expect(getCountryName('XX')).toBeUndefined();
+  });
+});
+
+describe('resolveProvinceCode', () => {
+  it('resolves US states and Canadian provinces by code or name', () => {
+    expect(resolveProvinceCode('US', 'California')).toBe('CA');
+    expect(resolveProvinceCode('US', 'US-NY')).toBe('NY');
+    expect(resolveProvinceCode('CA', 'Québec')).toBe('QC');
+    expect(resolveProvinceCode('CA', 'colombie-britannique')).toBe('BC');
+    expect(resolveProvinceCode('CA', 'California')).toBeUndefined();
+    expect(resolveProvinceCode('NL', 'Utrecht')).toBeUndefined();
+  });
+});
+
+describe('resolveAddressLocation', () => {
+  it('fills the country code from the name and the name from the code', () => {
+    expect(resolveAddressLocation({ country: 'Deutschland', countryCode: '', province: 'Bayern', provinceCode: '' }))
+      .toEqual({ country: 'Germany', countryCode: 'DE', province: 'Bayern', provinceCode: '' });
+    expect(resolveAddressLocation({ country: 'USA', countryCode: '', province: 'texas', provinceCode: '57' }))
+      .toEqual({ country: 'United States', countryCode: 'US', province: 'Texas', provinceCode: 'TX' });
+  });
+
+  it('keeps values that cannot be resolved', () => {
+    const location = { country: 'Atlantis', countryCode: '', province: 'Deep', provinceCode: '' };
+    expect(resolveAddressLocation(location)).toEqual(location);
+    expect(resolveAddressLocation({ country: 'Canada', countryCode: '', province: 'Nowhere', provinceCode: '' }))
+      .toEqual({ country: 'Canada', countryCode: 'CA', province: 'Nowhere', provinceCode: '' });
+  });
+});
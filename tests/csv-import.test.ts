@@ -0,0 +1,62 @@
+import { Blob } from 'buffer';
+import { getImportProgressPercent, tokenizeFileInChunks, type CsvImportProgress } from '../src/lib/csv-import';
+import { parseCsv } from '../src/lib/csv';
+import { ENCODING_DETECTION_SAMPLE_SIZE } from '../src/lib/encoding';
+
+const toBlob = (text: string) => new Blob([text]) as unknown as globalThis.Blob;
+
+describe('tokenizeFileInChunks', () => {
+  it('matches parseCsv when records, multi-byte characters and CRLF pairs span chunks', async () => {
+    const csv = 'sku;name;note\r\nA1;Zoë;"first\r\nsecond"\r\nA2;Groningen–Noord;"say ""hi"""\r\n';
+    const parsed = await tokenizeFileInChunks(toBlob(csv), { chunkSize: 3 });
+    expect(parsed.delimiter).toBe(';');
+    expect(parsed.records).toEqual(parseCsv(csv).records);
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it('reports progress for every chunk', async () => {
+    const updates: CsvImportProgress[] = [];
+    await tokenizeFileInChunks(toBlob('a,b\n1,2\n3,4\n'), { chunkSize: 4, onProgress: p => updates.push(p) });
+    expect(updates.map(u => u.bytesRead)).toEqual([4, 8, 12]);
+    expect(updates[updates.length - 1]).toMatchObject({ totalBytes: 12, phase: 'reading' });
+    expect(getImportProgressPercent(updates[0])).toBe(33);
+  });
+
+  it('returns no records for an empty file', async () => {
+    const parsed = await tokenizeFileInChunks(toBlob(''));
+    expect(parsed.records).toEqual([]);
+  });
+});
+
+describe('tokenizeFileInChunks encoding', () => {
+  it('decodes Windows-1252 files that were detected by heuristic', async () => {
+    const file = new Blob([new Uint8Array([0x6e, 0x61, 0x6d, 0x65, 0x0a, 0x5a, 0x6f, 0xeb, 0x20, 0x96])]) as unknown as globalThis.Blob;
+    const parsed = await tokenizeFileInChunks(file, { chunkSize: 2 });
+    expect(parsed.encoding).toEqual({ encoding: 'windows-1252', source: 'heuristic' });
+    expect(parsed.records[1].fields).toEqual(['Zoë –']);
+  });
+
+  it('uses the selected encoding instead of detecting one', async () => {
+    const parsed = await tokenizeFileInChunks(toBlob('name\nZoë'), { encoding: 'iso-8859-1' });
+    expect(parsed.encoding).toEqual({ encoding: 'iso-8859-1', source: 'user_selected' });
+    expect(parsed.records[1].fields).toEqual(['ZoÃ«']);
+  });
+
+  it('re-reads a file as Windows-1252 when the first invalid UTF-8 byte is past the detection sample', async () => {
+    const asciiRows = 'sku\n' + 'A1\n'.repeat(ENCODING_DETECTION_SAMPLE_SIZE / 3 + 1);
+    // "Zoë – Noord" in Windows-1252
+    const tail = new Uint8Array([0x5a, 0x6f, 0xeb, 0x20, 0x96, 0x20, 0x4e, 0x6f, 0x6f, 0x72, 0x64, 0x0a]);
+    const file = new Blob([asciiRows, tail]) as unknown as globalThis.Blob;
+    const parsed = await tokenizeFileInChunks(file, { chunkSize: 4096 });
+    expect(parsed.encoding).toEqual({ encoding: 'windows-1252', source: 'heuristic' });
+    expect(parsed.records[parsed.records.length - 1].fields).toEqual(['Zoë – Noord']);
+  });
+
+  it('labels the re-read file ISO-8859-1 when it has no bytes in 0x80-0x9F', async () => {
+    const asciiRows = 'sku\n' + 'A1\n'.repeat(ENCODING_DETECTION_SAMPLE_SIZE / 3 + 1);
+    const file = new Blob([asciiRows, new Uint8Array([0x5a, 0x6f, 0xeb, 0x0a])]) as unknown as globalThis.Blob;
+    const parsed = await tokenizeFileInChunks(file);
+    expect(parsed.encoding).toEqual({ encoding: 'iso-8859-1', source: 'heuristic' });
+    expect(parsed.records[parsed.records.length - 1].fields).toEqual(['Zoë']);
+  });
+});
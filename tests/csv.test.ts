@@ -0,0 +1,79 @@
+import { arrayToCsv, createCsvTokenizer, detectDelimiter, escapeCsvField, parseCsv } from '../src/lib/csv';
+
+const fieldsOf = (text: string) => parseCsv(text).records.map(r => r.fields);
+
+describe('parseCsv', () => {
+  it('parses quoted fields with embedded newlines, delimiters and escaped quotes', () => {
+    const csv = 'sku,note\nA1,"line one\nline two"\nA2,"He said ""hi"", twice"';
+    expect(fieldsOf(csv)).toEqual([
+      ['sku', 'note'],
+      ['A1', 'line one\nline two'],
+      ['A2', 'He said "hi", twice'],
+    ]);
+  });
+
+  it('handles CRLF, LF and CR line endings', () => {
+    expect(fieldsOf('a,b\r\n1,2\n3,4\r5,6')).toEqual([['a', 'b'], ['1', '2'], ['3', '4'], ['5', '6']]);
+  });
+
+  it('normalizes CRLF inside quoted fields to LF', () => {
+    expect(fieldsOf('a\r\n"x\r\ny"')).toEqual([['a'], ['x\ny']]);
+  });
+
+  it('strips a leading BOM', () => {
+    expect(fieldsOf('\ufeffemail;firstname\nj@example.com;John')[0]).toEqual(['email', 'firstname']);
+  });
+
+  it('skips empty lines and records the starting line of each record', () => {
+    const { records } = parseCsv('a,b\n\n"1\n1",2\n3,4\n');
+    expect(records.map(r => r.line)).toEqual([1, 3, 5]);
+  });
+
+  it.each([
+    [',', 'a,b,c'],
+    [';', 'a;b;c'],
+    ['\t', 'a\tb\tc'],
+    ['|', 'a|b|c'],
+  ])('detects the %p delimiter', (delimiter, line) => {
+    const parsed = parseCsv(`${line}\n1${delimiter}2${delimiter}3`);
+    expect(parsed.delimiter).toBe(delimiter);
+    expect(parsed.records[1].fields).toEqual(['1', '2', '3']);
+  });
+
+  it('ignores delimiters inside quotes and title lines when detecting', () => {
+    expect(detectDelimiter('"a,b,c";d;e')).toBe(';');
+    expect(detectDelimiter('Customer export\nemail;name')).toBe(';');
+  });
+
+  it('reports the position of an unterminated quoted field', () => {
+    const { errors } = parseCsv('sku,name\nA1,"open\nstill open');
+    expect(errors).toEqual([{ message: 'Unterminated quoted field', line: 2, column: 4 }]);
+  });
+
+  it('reports the position of a character after a closing quote', () => {
+    const { errors } = parseCsv('sku,name\nA1,"ok"x');
+    expect(errors).toEqual([{ message: 'Unexpected character "x" after closing quote', line: 2, column: 8 }]);
+  });
+
+  it('produces the same records when fed in chunks', () => {
+    const csv = 'a,b\r\n"x\r\ny","say ""hi"""\r\n1,2';
+    const tokenizer = createCsvTokenizer(',');
+    const records = [];
+    for (const char of csv) records.push(...tokenizer.write(char));
+    records.push(...tokenizer.end());
+    expect(records).toEqual(parseCsv(csv).records);
+  });
+});
+
+describe('arrayToCsv', () => {
+  it('escapes fields containing the delimiter, quotes or newlines', () => {
+    expect(escapeCsvField('a;b', ';')).toBe('"a;b"');
+    expect(escapeCsvField('a;b')).toBe('a;b');
+    expect(arrayToCsv(['h1', 'h2'], [['x "y"', 'line\nbreak'], [null, 3]])).toBe('h1,h2\n"x ""y""","line\nbreak"\n,3');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['Zoë, "JJ"', 'multi\nline', ''], ['1', '2', '3']];
+    expect(fieldsOf(arrayToCsv(['a', 'b', 'c'], rows)).slice(1)).toEqual(rows);
+  });
+});
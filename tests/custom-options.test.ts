@@ -0,0 +1,54 @@
+import {
+  expandCustomOptionVariants,
+  MAX_SHOPIFY_VARIANTS,
+  parseMagentoCustomOptions,
+  planCustomOptions,
+} from '../src/lib/custom-options';
+
+const CUSTOM_OPTIONS = [
+  'name=Color,type=drop_down,required=1,price=0.0000,price_type=fixed,sku=RD,option_title=Red',
+  'name=Color,type=drop_down,required=1,price=2.0000,price_type=fixed,sku=BL,option_title=Blue',
+  'name=Engraving,type=field,required=0,price=5.0000,price_type=fixed,sku=,max_characters=20',
+  'name=Gift wrap,type=checkbox,required=0,price=3.0000,price_type=fixed,sku=,option_title=Yes',
+].join('|');
+
+describe('parseMagentoCustomOptions', () => {
+  it('groups select values under their option', () => {
+    const options = parseMagentoCustomOptions(CUSTOM_OPTIONS);
+    expect(options.map(option => [option.title, option.type, option.required, option.values.map(value => value.title)])).toEqual([
+      ['Color', 'drop_down', true, ['Red', 'Blue']],
+      ['Engraving', 'field', false, []],
+      ['Gift wrap', 'checkbox', false, ['Yes']],
+    ]);
+    expect(options[1]).toMatchObject({ price: 5, maxCharacters: 20 });
+    expect(parseMagentoCustomOptions('')).toEqual([]);
+  });
+});
+
+describe('planCustomOptions', () => {
+  it('turns choices into variants, text into line item properties and warns about the rest', () => {
+    const plan = planCustomOptions(parseMagentoCustomOptions(CUSTOM_OPTIONS), 3);
+    expect(plan.variantOptions.map(option => option.title)).toEqual(['Color']);
+    expect(plan.lineItemProperties).toEqual([{ name: 'Engraving', type: 'text', required: false, maxLength: 20 }]);
+    expect(plan.warnings).toEqual([
+      'Custom option "Engraving" (field) has a surcharge of 5.00 that line item properties cannot charge.',
+      'Custom option "Gift wrap" (checkbox) cannot be converted; recreate it with a product options app.',
+    ]);
+  });
+
+  it('keeps choices out of variants when no option slot is free or there would be too many variants', () => {
+    const options = parseMagentoCustomOptions(CUSTOM_OPTIONS);
+    expect(planCustomOptions(options, 0).warnings[0]).toBe('Custom option "Color" (drop_down) does not fit in the remaining Shopify options.');
+    expect(planCustomOptions(options, 3, MAX_SHOPIFY_VARIANTS).warnings[0]).toBe(`Custom option "Color" (drop_down) would create more than ${MAX_SHOPIFY_VARIANTS} variants.`);
+  });
+});
+
+describe('expandCustomOptionVariants', () => {
+  it('combines the values with their surcharges and adds a None choice for optional options', () => {
+    const options = parseMagentoCustomOptions('name=Size,type=radio,required=0,price=10,price_type=percent,sku=L,option_title=Large|name=Color,type=drop_down,required=1,price=2,price_type=fixed,sku=BL,option_title=Blue');
+    expect(expandCustomOptionVariants(options, 50)).toEqual([
+      { values: ['None', 'Blue'], skuSuffix: 'BL', priceDelta: 2 },
+      { values: ['Large', 'Blue'], skuSuffix: 'L-BL', priceDelta: 7 },
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { parseCsv } from '../src/lib/csv';
+import { findCustomerAddressKey, orderAddressesByDefault, parseMagentoCustomerAddresses, type MagentoCustomerAddress } from '../src/lib/customer-addresses';
+
+const address = (values: Partial<MagentoCustomerAddress>): MagentoCustomerAddress => ({
+  firstName: '', lastName: '', company: '', address1: '', address2: '', city: '', province: '', provinceCode: '',
+  country: '', countryCode: '', zip: '', phone: '', isDefaultBilling: false, isDefaultShipping: false, ...values,
+});
+
+describe('parseMagentoCustomerAddresses', () => {
+  it('groups addresses by email and website', () => {
+    const csv = '_website,_email,street,country_id,_address_default_billing_\nbase,John@Example.com,"Main 1\nUnit 2",NL,1\nb2b,john@example.com,Dock 3,Nederland,';
+    const result = parseMagentoCustomerAddresses(parseCsv(csv));
+    if (result.type !== 'addresses_found') {
+      throw new Error('Expected addresses_found');
+    }
+    const { addressBook } = result;
+    expect(addressBook.addressCount).toBe(2);
+    expect(addressBook.addressesByCustomer.get('john@example.com|base')).toEqual([
+      address({ address1: 'Main 1', address2: 'Unit 2', country: 'Netherlands', countryCode: 'NL', isDefaultBilling: true }),
+    ]);
+    expect(addressBook.addressesByCustomer.get('john@example.com|b2b')?.[0]).toMatchObject({ country: 'Netherlands', countryCode: 'NL' });
+  });
+});
+
+describe('findCustomerAddressKey', () => {
+  const result = parseMagentoCustomerAddresses(parseCsv('_website,_email\nbase,john@example.com\nbase,jane@example.com\nb2b,jane@example.com'));
+  if (result.type !== 'addresses_found') {
+    throw new Error('Expected addresses_found');
+  }
+
+  it('matches on email and website', () => {
+    expect(findCustomerAddressKey(result.addressBook, 'JOHN@example.com', 'Base')).toBe('john@example.com|base');
+    expect(findCustomerAddressKey(result.addressBook, 'john@example.com', 'b2b')).toBeUndefined();
+  });
+
+  it('matches on email alone when the customer has no website and the email is unambiguous', () => {
+    expect(findCustomerAddressKey(result.addressBook, 'john@example.com')).toBe('john@example.com|base');
+    expect(findCustomerAddressKey(result.addressBook, 'jane@example.com')).toBeUndefined();
+  });
+});
+
+describe('orderAddressesByDefault', () => {
+  it('puts the default shipping address first, then the default billing address', () => {
+    const billing = address({ address1: 'Billing', isDefaultBilling: true });
+    const shipping = address({ address1: 'Shipping', isDefaultShipping: true });
+    const other = address({ address1: 'Other' });
+    expect(orderAddressesByDefault([other, billing, shipping])).toEqual([shipping, other, billing]);
+    expect(orderAddressesByDefault([other, billing])).toEqual([billing, other]);
+    expect(orderAddressesByDefault([other])).toEqual([other]);
+  });
+});
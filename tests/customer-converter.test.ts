@@ -1,5 +1,10 @@
-import { generateShopifyCustomerCsv } from '../src/lib/customer-csv-converter';
-import type { ShopifyCustomerFormData } from '../src/schemas/customer';
+import { parseCsv } from '../src/lib/csv';
+import { formatPhoneNumber, generateShopifyCustomerCsv, parseMagentoCustomerCsv } from '../src/lib/customer-csv-converter';
+import { DEFAULT_CUSTOMER_TAG_PREFIXES } from '../src/lib/customer-settings';
+import { createShopifyCustomerSchema, shopifyCustomerSchema, type ShopifyCustomerFormData } from '../src/schemas/customer';
+
+const customerSchemaDefaults = (values: Partial<ShopifyCustomerFormData>): ShopifyCustomerFormData =>
+  shopifyCustomerSchema.parse({ id: '1', ...values });
 
 describe('generateShopifyCustomerCsv', () => {
   it('creates CSV with expected headers and values', () => {
@@ -19,6 +24,8 @@ describe('generateShopifyCustomerCsv', () => {
         countryCode: 'NL',
         zip: '1000AA',
         phone: '+31612345678',
+        addressPhone: '',
+        addresses: [],
         acceptsMarketing: false,
         acceptsSmsMarketing: false,
         tags: '',
@@ -33,6 +40,66 @@ describe('generateShopifyCustomerCsv', () => {
     expect(csv).toContain('john@example.com');
   });
 
+  it('writes the delimiter and BOM of the output profile', () => {
+    const csv = generateShopifyCustomerCsv([], { outputProfile: { delimiter: ';', decimalSeparator: ',', includeBom: true } });
+    expect(csv.startsWith('\uFEFFFirst Name;Last Name;Email;')).toBe(true);
+  });
+
+  it('writes further addresses as extra rows with the same email and no customer name', () => {
+    const customer = customerSchemaDefaults({
+      email: 'john@example.com', firstName: 'John', address1: 'Street 1', countryCode: 'NL', phone: '0612345678',
+      addresses: [{ firstName: 'John', lastName: 'Doe', company: 'ACME', address1: 'Dock 3', address2: '', city: 'Rotterdam', province: '', provinceCode: '', country: 'NL', countryCode: 'NL', zip: '3011AA', phone: '010 1234567' }],
+    });
+    const rows = generateShopifyCustomerCsv([customer]).split('\n');
+    expect(rows.length).toBe(3);
+    expect(rows[2]).toBe(',,john@example.com,,ACME,Dock 3,,Rotterdam,,NL,3011 AA,+31101234567,,,,,');
+  });
+
+  it('reports phone numbers that cannot be normalized and SMS marketing to landlines', () => {
+    const result = shopifyCustomerSchema.safeParse({
+      id: '1', phone: '+32 2 123 45 67', countryCode: 'BE', acceptsSmsMarketing: true,
+      addresses: [{ phone: '0612', countryCode: 'NL' }],
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => [issue.path.join('.'), issue.message])).toEqual([
+      ['acceptsSmsMarketing', 'SMS marketing needs a mobile number; the phone number is a landline.'],
+      ['addresses.0.phone', '"0612" is not a valid NL phone number.'],
+    ]);
+    expect(createShopifyCustomerSchema({ normalize: true, defaultCountry: '' }).safeParse({ id: '1', phone: '0612345678' }).error?.issues[0].message)
+      .toBe('"0612345678" has no country calling code and no country to take it from.');
+  });
+
+  it('validates phone numbers of customers without a country against the default country, like the export', () => {
+    const customer = { id: '1', phone: '06 12345678', addresses: [{ phone: '020 123 4567' }] };
+    expect(shopifyCustomerSchema.safeParse(customer).success).toBe(true);
+    expect(generateShopifyCustomerCsv([shopifyCustomerSchema.parse(customer)]).split('\n')[1]).toContain('+31612345678,+31612345678');
+    expect(createShopifyCustomerSchema({ normalize: true, defaultCountry: 'US' }).safeParse(customer).error?.issues.map(issue => issue.path.join('.')))
+      .toEqual(['phone', 'addresses.0.phone']);
+    // Without normalization the numbers are exported as entered and not checked
+    expect(createShopifyCustomerSchema({ normalize: false, defaultCountry: 'NL' }).safeParse(customer).success).toBe(true);
+  });
+
+  it('reports countries and US or Canadian provinces that do not resolve', () => {
+    const result = shopifyCustomerSchema.safeParse({
+      id: '1', country: 'Atlantis', province: 'Texas', countryCode: '',
+      addresses: [{ country: 'United States', countryCode: 'US', province: 'Bavaria' }, { countryCode: 'XX' }],
+    });
+    expect(result.error?.issues.map(issue => [issue.path.join('.'), issue.message])).toEqual([
+      ['countryCode', 'Country "Atlantis" could not be resolved to an ISO country code.'],
+      ['addresses.0.provinceCode', 'Province "Bavaria" could not be resolved to a US province code.'],
+      ['addresses.1.countryCode', '"XX" is not an ISO country code, e.g. NL.'],
+    ]);
+    expect(shopifyCustomerSchema.safeParse({ id: '1', country: 'United States', countryCode: 'US', province: 'Texas', provinceCode: 'TX' }).success).toBe(true);
+  });
+
+  it('reports postal codes that do not match the country', () => {
+    const result = shopifyCustomerSchema.safeParse({ id: '1', countryCode: 'NL', zip: '12345', addresses: [{ countryCode: 'US', zip: '2134' }] });
+    expect(result.error?.issues.map(issue => [issue.path.join('.'), issue.message])).toEqual([
+      ['zip', '"12345" is not a valid NL postal code, e.g. 1234 AB.'],
+      ['addresses.0.zip', '"2134" is missing leading zeros; the US postal code is 02134.'],
+    ]);
+  });
+
   it('returns only headers when given an empty array', () => {
     const csv = generateShopifyCustomerCsv([]);
     expect(csv.split('\n').length).toBe(1); // header only
@@ -56,6 +123,8 @@ describe('generateShopifyCustomerCsv', () => {
         countryCode: 'NL',
         zip: '2000BB',
         phone: '',
+        addressPhone: '',
+        addresses: [],
         acceptsMarketing: true,
         acceptsSmsMarketing: false,
         tags: 'vip,important',
@@ -79,3 +148,164 @@ describe('generateShopifyCustomerCsv', () => {
     );
   });
 });
+
+describe('parseMagentoCustomerCsv', () => {
+  it('keeps line breaks inside quoted notes', () => {
+    const csv = 'email,firstname,lastname,notes\r\njohn@example.com,John,Doe,"Call first\r\nBack door"\r\njane@example.com,Jane,Doe,';
+    const result = parseMagentoCustomerCsv(csv);
+    if (result.type !== 'customers_found') {
+      throw new Error('Expected customers_found');
+    }
+    expect(result.data.length).toBe(2);
+    expect(result.data[0].note).toBe('Call first\nBack door');
+  });
+
+  it('reads semicolon-delimited files with a BOM', () => {
+    const result = parseMagentoCustomerCsv('\ufeffemail;firstname\njohn@example.com;John');
+    if (result.type !== 'customers_found') {
+      throw new Error('Expected customers_found');
+    }
+    expect(result.data[0].email).toBe('john@example.com');
+  });
+
+  it('reports the position of malformed input', () => {
+    const result = parseMagentoCustomerCsv('email,firstname\njohn@example.com,"John');
+    expect(result).toEqual({ type: 'parse_error', message: 'Malformed CSV: Unterminated quoted field at line 2, column 18.' });
+  });
+
+  it('applies a column mapping, including tag and note targets', () => {
+    const csv = 'email,woonplaats,klantnummer,opmerking\njohn@example.com,utrecht,K-1,Prefers email';
+    const result = parseMagentoCustomerCsv(csv, {
+      columnMapping: {
+        email: { kind: 'field', field: 'email' },
+        woonplaats: { kind: 'field', field: 'city' },
+        klantnummer: { kind: 'tags' },
+        opmerking: { kind: 'note' },
+      },
+    });
+    if (result.type !== 'customers_found') {
+      throw new Error('Expected customers_found');
+    }
+    expect(result.data[0].city).toBe('Utrecht');
+    expect(result.data[0].tags).toBe('klantnummer:K-1');
+    expect(result.data[0].note).toBe('opmerking: Prefers email');
+  });
+
+  it('uses the configured tag prefixes', () => {
+    const csv = 'email,_website,group_id\njohn@example.com,base,3';
+    const result = parseMagentoCustomerCsv(csv, {
+      tagPrefixes: { ...DEFAULT_CUSTOMER_TAG_PREFIXES, website: 'site-', groupId: 'group:' },
+    });
+    if (result.type !== 'customers_found') {
+      throw new Error('Expected customers_found');
+    }
+    expect(result.data[0].tags).toBe('site-base, group:3');
+  });
+});
+
+describe('parseMagentoCustomerCsv with an addresses file', () => {
+  const customersCsv = 'email,_website,firstname,lastname,street,city\njohn@example.com,base,John,Doe,Old street 1,utrecht\njane@example.com,base,Jane,Roe,,';
+  const addressesCsv = [
+    '_website,_email,_entity_id,firstname,lastname,company,street,city,region,country_id,postcode,telephone,_address_default_billing_,_address_default_shipping_',
+    'base,john@example.com,1,John,Doe,,"Billing road 1\nFloor 2",amsterdam,,NL,1011AA,0201234567,1,',
+    'base,JOHN@example.com,2,John,Doe,ACME,Dock 3,rotterdam,,NL,3011AA,,,1',
+    'base,other@example.com,3,Other,Person,,Lane 5,Gouda,,NL,2801AA,,1,1',
+  ].join('\n');
+
+  it('uses the default shipping address and keeps the others as extra addresses', () => {
+    const result = parseMagentoCustomerCsv(customersCsv, { addressRecords: parseCsv(addressesCsv) });
+    if (result.type !== 'customers_found') {
+      throw new Error('Expected customers_found');
+    }
+    expect(result.data[0]).toMatchObject({ firstName: 'John', company: 'ACME', address1: 'Dock 3', city: 'Rotterdam', countryCode: 'NL', zip: '3011 AA' });
+    expect(result.data[0].addresses).toEqual([
+      expect.objectContaining({ address1: 'Billing road 1', address2: 'Floor 2', city: 'Amsterdam', phone: '0201234567' }),
+    ]);
+    expect(result.data[1].addresses).toBeUndefined();
+    expect(result).toMatchObject({ addressesMerged: 2, addressesUnmatched: 1 });
+  });
+
+  it('keeps the default address phone next to the customer phone', () => {
+    const csv = customersCsv.replace('email,_website,', 'email,telephone,_website,').replace('john@example.com,base', 'john@example.com,0612345678,base').replace('jane@example.com,base', 'jane@example.com,,base');
+    const result = parseMagentoCustomerCsv(csv, { addressRecords: parseCsv(addressesCsv.replace('Dock 3,rotterdam,,NL,3011AA,,', 'Dock 3,rotterdam,,NL,3011AA,0101234567,')) });
+    if (result.type !== 'customers_found') {
+      throw new Error('Expected customers_found');
+    }
+    expect(result.data[0]).toMatchObject({ phone: '0612345678', addressPhone: '0101234567' });
+    const customerRow = generateShopifyCustomerCsv([shopifyCustomerSchema.parse(result.data[0])]).split('\n')[1];
+    expect(customerRow).toContain(',+31101234567,+31612345678,');
+  });
+
+  it('does not match addresses of another website', () => {
+    const result = parseMagentoCustomerCsv(customersCsv.replace('john@example.com,base', 'john@example.com,b2b'), { addressRecords: parseCsv(addressesCsv) });
+    if (result.type !== 'customers_found') {
+      throw new Error('Expected customers_found');
+    }
+    expect(result.data[0].address1).toBe('Old street 1');
+    expect(result).toMatchObject({ addressesMerged: 0, addressesUnmatched: 3 });
+  });
+
+  it('normalizes phone numbers on import with the address country', () => {
+    const result = parseMagentoCustomerCsv('email,telephone,country_id\njan@example.be,0470 12 34 56,BE\njan@example.nl,06 12345678,', {
+      phoneFormatting: { normalize: true, defaultCountry: 'NL' },
+    });
+    if (result.type !== 'customers_found') {
+      throw new Error('Expected customers_found');
+    }
+    expect(result.data.map(customer => customer.phone)).toEqual(['+32470123456', '+31612345678']);
+  });
+
+  it('resolves country names, alpha-3 codes and US states on import', () => {
+    const result = parseMagentoCustomerCsv('email,country_id,region,region_code\na@example.com,Nederland,,\nb@example.com,USA,California,\nc@example.com,nl,,\nd@example.com,Atlantis,,', {
+      addressRecords: parseCsv('_email,country_id,region,street\nc@example.com,BEL,,Rue 1'),
+    });
+    if (result.type !== 'customers_found') {
+      throw new Error('Expected customers_found');
+    }
+    expect(result.data.map(customer => [customer.country, customer.countryCode, customer.provinceCode])).toEqual([
+      ['Netherlands', 'NL', ''],
+      ['United States', 'US', 'CA'],
+      ['Belgium', 'BE', ''],
+      ['Atlantis', '', ''],
+    ]);
+  });
+
+  it('formats postal codes on import and keeps codes that do not match', () => {
+    const result = parseMagentoCustomerCsv('email,country_id,postcode\na@example.com,NL,1234ab\nb@example.com,US,2134\nc@example.com,GB,ec1a1bb');
+    if (result.type !== 'customers_found') {
+      throw new Error('Expected customers_found');
+    }
+    expect(result.data.map(customer => customer.zip)).toEqual(['1234 AB', '2134', 'EC1A 1BB']);
+  });
+
+  it('reports an addresses file without an email column', () => {
+    const result = parseMagentoCustomerCsv(customersCsv, { addressRecords: parseCsv('street,city\nDock 3,Rotterdam') });
+    expect(result).toEqual({ type: 'parse_error', message: 'Customer Addresses file: No "_email" column found. Use Magento\'s "Customer Addresses" export.' });
+  });
+});
+
+describe('formatPhoneNumber', () => {
+  it('converts Dutch numbers to international format by default', () => {
+    expect(formatPhoneNumber('06-12345678')).toBe('+31612345678');
+    expect(formatPhoneNumber('0031 20 1234567')).toBe('+31201234567');
+    expect(formatPhoneNumber('31501234567')).toBe('+31501234567');
+  });
+
+  it('uses the customer\'s country before the default country', () => {
+    expect(formatPhoneNumber('0470 12 34 56', 'BE')).toBe('+32470123456');
+    expect(formatPhoneNumber('030 1234567', 'DE')).toBe('+49301234567');
+  });
+
+  it('follows the configured default country', () => {
+    expect(formatPhoneNumber('030 1234567', '', { normalize: true, defaultCountry: 'DE' })).toBe('+49301234567');
+    expect(formatPhoneNumber('0049 30 1234567', '', { normalize: true, defaultCountry: 'DE' })).toBe('+49301234567');
+  });
+
+  it('returns numbers it cannot normalize as entered', () => {
+    expect(formatPhoneNumber(' 12 34 ', 'NL')).toBe('12 34');
+  });
+
+  it('leaves numbers untouched when normalizing is off', () => {
+    expect(formatPhoneNumber(' 06 1234 5678 ', '', { normalize: false, defaultCountry: 'NL' })).toBe('06 1234 5678');
+  });
+});
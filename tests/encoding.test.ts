@@ -0,0 +1,44 @@
+import { createChunkDecoder, describeEncoding, detectEncoding, isValidUtf8 } from '../src/lib/encoding';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+describe('detectEncoding', () => {
+  it('uses a byte order mark when present', () => {
+    expect(detectEncoding(bytes(0xef, 0xbb, 0xbf, 0x61))).toEqual({ encoding: 'utf-8', source: 'bom' });
+    expect(detectEncoding(bytes(0xff, 0xfe, 0x61, 0x00))).toEqual({ encoding: 'utf-16le', source: 'bom' });
+    expect(detectEncoding(bytes(0xfe, 0xff, 0x00, 0x61))).toEqual({ encoding: 'utf-16be', source: 'bom' });
+  });
+
+  it('accepts valid UTF-8', () => {
+    expect(detectEncoding(utf8('name\nZoë;Groningen–Noord'))).toEqual({ encoding: 'utf-8', source: 'utf8_valid' });
+  });
+
+  it('falls back to Windows-1252 when C1-range bytes are present', () => {
+    // "Zoë;Groningen–Noord" in Windows-1252: ë = 0xEB, – = 0x96
+    const text = bytes(0x5a, 0x6f, 0xeb, 0x3b, 0x47, 0x96, 0x4e);
+    expect(detectEncoding(text)).toEqual({ encoding: 'windows-1252', source: 'heuristic' });
+    expect(createChunkDecoder('windows-1252').decode(text)).toBe('Zoë;G–N');
+  });
+
+  it('falls back to ISO-8859-1 for other non-UTF-8 input', () => {
+    expect(detectEncoding(bytes(0x5a, 0x6f, 0xe9, 0x20))).toEqual({ encoding: 'iso-8859-1', source: 'heuristic' });
+  });
+
+  it('describes the result for the import summary', () => {
+    expect(describeEncoding({ encoding: 'windows-1252', source: 'heuristic' })).toBe('Windows-1252 (guessed, file is not valid UTF-8)');
+  });
+});
+
+describe('isValidUtf8', () => {
+  it('ignores a multi-byte sequence cut off at the end of the sample', () => {
+    const encoded = utf8('Zoë');
+    expect(isValidUtf8(encoded.slice(0, encoded.length - 1))).toBe(true);
+  });
+
+  it('rejects overlong encodings and surrogates', () => {
+    expect(isValidUtf8(bytes(0xc0, 0xaf))).toBe(false);
+    expect(isValidUtf8(bytes(0xe0, 0x80, 0xaf))).toBe(false);
+    expect(isValidUtf8(bytes(0xed, 0xa0, 0x80))).toBe(false);
+  });
+});
@@ -0,0 +1,40 @@
+import { getStockStatusWarning, resolveVariantInventorySettings } from '../src/lib/inventory-policy';
+
+describe('resolveVariantInventorySettings', () => {
+  it('tracks inventory and denies overselling by default', () => {
+    expect(resolveVariantInventorySettings({})).toEqual({ variantInventoryTracked: true, variantInventoryPolicy: 'deny', magentoIsInStock: undefined });
+  });
+
+  it('follows manage_stock only when the config value is not used', () => {
+    expect(resolveVariantInventorySettings({ manageStock: '0', useConfigManageStock: '1' }).variantInventoryTracked).toBe(true);
+    expect(resolveVariantInventorySettings({ manageStock: '0', useConfigManageStock: '0' }).variantInventoryTracked).toBe(false);
+  });
+
+  it('continues selling with backorders or a negative out-of-stock threshold', () => {
+    expect(resolveVariantInventorySettings({ allowBackorders: '2' }).variantInventoryPolicy).toBe('continue');
+    expect(resolveVariantInventorySettings({ allowBackorders: '0', outOfStockQty: '-5' }).variantInventoryPolicy).toBe('continue');
+    expect(resolveVariantInventorySettings({ allowBackorders: '0', outOfStockQty: '0' }).variantInventoryPolicy).toBe('deny');
+  });
+
+  it('keeps the Magento stock status', () => {
+    expect(resolveVariantInventorySettings({ isInStock: '0' }).magentoIsInStock).toBe(false);
+  });
+});
+
+describe('getStockStatusWarning', () => {
+  const product = { variantInventoryQty: 0, variantInventoryTracked: true, variantInventoryPolicy: 'deny' as const, magentoIsInStock: true };
+
+  it('warns when an in stock item has no quantity', () => {
+    expect(getStockStatusWarning(product)).toMatch(/sold out/);
+    expect(getStockStatusWarning({ ...product, variantInventoryPolicy: 'continue' })).toBeUndefined();
+  });
+
+  it('warns when an out of stock item has a quantity or is not tracked', () => {
+    expect(getStockStatusWarning({ ...product, magentoIsInStock: false, variantInventoryQty: 4 })).toMatch(/will sell it/);
+    expect(getStockStatusWarning({ ...product, magentoIsInStock: false, variantInventoryTracked: false })).toMatch(/not tracked/);
+  });
+
+  it('does not warn without a Magento stock status', () => {
+    expect(getStockStatusWarning({ ...product, magentoIsInStock: undefined })).toBeUndefined();
+  });
+});
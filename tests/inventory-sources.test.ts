@@ -0,0 +1,69 @@
+import {
+  buildInventoryLevels,
+  createDefaultSourceLocationMapping,
+  generateShopifyInventoryCsv,
+  parseMagentoStockSourcesCsv,
+} from '../src/lib/inventory-sources';
+import { parseCsv } from '../src/lib/csv';
+
+const stockSources = [
+  'source_code,sku,status,quantity',
+  'ams,TEE-S,1,5.0000',
+  'rtm,TEE-S,1,3',
+  'ber,TEE-S,0,7',
+  'ams,TEE-M,1,2',
+  ',TEE-L,1,4',
+].join('\n');
+
+describe('parseMagentoStockSourcesCsv', () => {
+  it('reads source items and lists the source codes', () => {
+    const result = parseMagentoStockSourcesCsv(stockSources);
+    if (result.type !== 'sources_found') {
+      throw new Error('Expected sources_found');
+    }
+    expect(result.sourceCodes).toEqual(['ams', 'ber', 'rtm']);
+    expect(result.items[0]).toEqual({ sku: 'TEE-S', sourceCode: 'ams', quantity: 5, inStock: true });
+    expect(result.items[2].inStock).toBe(false);
+    expect(result.linesSkipped).toBe(1);
+  });
+
+  it('requires the source_code, sku and quantity columns', () => {
+    expect(parseMagentoStockSourcesCsv('sku,qty\nTEE,1').type).toBe('parse_error');
+  });
+});
+
+describe('buildInventoryLevels', () => {
+  const products = [
+    { handle: 'tee', variantSku: 'TEE-S' },
+    { handle: 'tee', variantSku: 'TEE-M' },
+  ];
+
+  it('exports one level per variant and location, with out of stock sources as 0', () => {
+    const result = parseMagentoStockSourcesCsv(stockSources);
+    if (result.type !== 'sources_found') {
+      throw new Error('Expected sources_found');
+    }
+    const levels = buildInventoryLevels(products, result.items, createDefaultSourceLocationMapping(result.sourceCodes));
+    expect(levels).toEqual([
+      { handle: 'tee', sku: 'TEE-S', location: 'ams', available: 5 },
+      { handle: 'tee', sku: 'TEE-S', location: 'rtm', available: 3 },
+      { handle: 'tee', sku: 'TEE-S', location: 'ber', available: 0 },
+      { handle: 'tee', sku: 'TEE-M', location: 'ams', available: 2 },
+    ]);
+  });
+
+  it('adds up sources mapped to the same location and leaves out unmapped sources', () => {
+    const result = parseMagentoStockSourcesCsv(stockSources);
+    if (result.type !== 'sources_found') {
+      throw new Error('Expected sources_found');
+    }
+    const levels = buildInventoryLevels(products, result.items, { ams: 'Netherlands', rtm: 'Netherlands', ber: '' });
+    expect(levels).toEqual([
+      { handle: 'tee', sku: 'TEE-S', location: 'Netherlands', available: 8 },
+      { handle: 'tee', sku: 'TEE-M', location: 'Netherlands', available: 2 },
+    ]);
+    const { records } = parseCsv(generateShopifyInventoryCsv(levels));
+    expect(records[0].fields).toEqual(['Handle', 'SKU', 'Location', 'Available']);
+    expect(records[1].fields).toEqual(['tee', 'TEE-S', 'Netherlands', '8']);
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  applyProfileMapping,
+  createMappingProfile,
+  findMatchingProfile,
+  getHeaderSignature,
+  loadMappingProfiles,
+  MAPPING_PROFILES_STORAGE_KEY,
+  parseMappingProfiles,
+  saveMappingProfiles,
+  serializeMappingProfiles,
+  upsertMappingProfile,
+} from '../src/lib/mapping-profiles';
+import { DEFAULT_CUSTOMER_TAG_PREFIXES, DEFAULT_PHONE_FORMATTING_RULES } from '../src/lib/customer-settings';
+import type { ColumnMappingPreview } from '../src/lib/column-mapping';
+
+const settings = {
+  columnMapping: { email: { kind: 'field' as const, field: 'email' }, klantnummer: { kind: 'tags' as const } },
+  magentoBaseImageUrl: '',
+  tagPrefixes: DEFAULT_CUSTOMER_TAG_PREFIXES,
+  phoneFormatting: DEFAULT_PHONE_FORMATTING_RULES,
+  attributeMapping: {},
+};
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+  };
+};
+
+describe('getHeaderSignature', () => {
+  it('ignores column order, case and empty headers', () => {
+    expect(getHeaderSignature(['Email', 'firstname', ''])).toBe(getHeaderSignature(['firstname', ' email ']));
+    expect(getHeaderSignature(['email'])).not.toBe(getHeaderSignature(['email', 'firstname']));
+  });
+});
+
+describe('findMatchingProfile', () => {
+  it('returns the latest profile for the same entity and headers', () => {
+    const older = { ...createMappingProfile('Old', 'customer', ['email', 'klantnummer'], settings), updatedAt: '2024-01-01T00:00:00.000Z' };
+    const newer = { ...createMappingProfile('New', 'customer', ['klantnummer', 'email'], settings), updatedAt: '2024-06-01T00:00:00.000Z' };
+    const product = createMappingProfile('Products', 'product', ['email', 'klantnummer'], settings);
+
+    expect(findMatchingProfile([older, newer, product], 'customer', ['email', 'klantnummer'])?.name).toBe('New');
+    expect(findMatchingProfile([older, newer], 'customer', ['email'])).toBeUndefined();
+  });
+});
+
+describe('applyProfileMapping', () => {
+  it('keeps the proposed target for columns the profile does not know', () => {
+    const preview: ColumnMappingPreview = {
+      entity: 'customer',
+      columns: [{ header: 'email', samples: [] }, { header: 'klantnummer', samples: [] }, { header: 'plaats', samples: [] }],
+      proposedMapping: { email: { kind: 'field', field: 'email' }, klantnummer: { kind: 'ignore' }, plaats: { kind: 'field', field: 'city' } },
+    };
+    const profile = createMappingProfile('Shop', 'customer', ['email', 'klantnummer'], settings);
+    expect(applyProfileMapping(preview, profile)).toEqual({
+      email: { kind: 'field', field: 'email' },
+      klantnummer: { kind: 'tags' },
+      plaats: { kind: 'field', field: 'city' },
+    });
+  });
+});
+
+describe('upsertMappingProfile', () => {
+  it('replaces a profile with the same name and keeps its id', () => {
+    const first = createMappingProfile('Shop', 'customer', ['email'], settings);
+    const second = createMappingProfile('shop', 'customer', ['email', 'klantnummer'], settings);
+    const profiles = upsertMappingProfile([first], second);
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0].id).toBe(first.id);
+    expect(profiles[0].headerSignature).toBe(second.headerSignature);
+  });
+});
+
+describe('profile files', () => {
+  it('round-trips profiles through JSON and localStorage', () => {
+    const profile = createMappingProfile('Shop', 'customer', ['email'], settings);
+    const storage = memoryStorage();
+    saveMappingProfiles(storage, [profile]);
+    expect(loadMappingProfiles(storage)).toEqual([profile]);
+    expect(parseMappingProfiles(serializeMappingProfiles([profile]))).toEqual({ type: 'profiles_found', profiles: [profile] });
+  });
+
+  it('fills in defaults for settings missing from the file', () => {
+    const json = JSON.stringify({
+      version: 1,
+      profiles: [{ id: 'p1', name: 'Minimal', entity: 'product', headerSignature: 'sku', columnMapping: { sku: { kind: 'field', field: 'sku' } }, updatedAt: '2024-01-01T00:00:00.000Z' }],
+    });
+    const result = parseMappingProfiles(json);
+    if (result.type !== 'profiles_found') {
+      throw new Error('Expected profiles_found');
+    }
+    expect(result.profiles[0].tagPrefixes).toEqual(DEFAULT_CUSTOMER_TAG_PREFIXES);
+    expect(result.profiles[0].magentoBaseImageUrl).toBe('');
+  });
+
+  it('rejects files that are not profile exports', () => {
+    expect(parseMappingProfiles('not json')).toEqual({ type: 'parse_error', message: 'The file is not valid JSON.' });
+    const result = parseMappingProfiles(JSON.stringify({ version: 1, profiles: [{ name: 'x' }] }));
+    expect(result.type).toBe('parse_error');
+  });
+
+  it('ignores a corrupt localStorage entry', () => {
+    const storage = memoryStorage();
+    storage.setItem(MAPPING_PROFILES_STORAGE_KEY, '{');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(loadMappingProfiles(storage)).toEqual([]);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,39 @@
+import { normalizePhoneNumber } from '../src/lib/phone-numbers';
+
+describe('normalizePhoneNumber', () => {
+  it('reads national numbers with the numbering plan of the country', () => {
+    expect(normalizePhoneNumber('0470 12 34 56', 'BE')).toEqual({ type: 'valid', e164: '+32470123456', country: 'BE', numberType: 'mobile' });
+    expect(normalizePhoneNumber('030 1234567', 'DE')).toEqual({ type: 'valid', e164: '+49301234567', country: 'DE', numberType: 'landline' });
+    expect(normalizePhoneNumber('07700 900123', 'gb')).toMatchObject({ e164: '+447700900123', numberType: 'mobile' });
+    expect(normalizePhoneNumber('612 34 56 78', 'ES')).toMatchObject({ e164: '+34612345678', numberType: 'mobile' });
+    expect(normalizePhoneNumber('06 12 34 56 78', 'HU')).toMatchObject({ e164: '+3612345678' });
+  });
+
+  it('keeps the leading 0 of Italian landlines', () => {
+    expect(normalizePhoneNumber('06 1234 5678', 'IT')).toMatchObject({ e164: '+390612345678', numberType: 'landline' });
+  });
+
+  it('cannot tell North American mobiles from landlines', () => {
+    expect(normalizePhoneNumber('(212) 555-0123', 'US')).toEqual({ type: 'valid', e164: '+12125550123', country: 'US', numberType: 'mobile_or_landline' });
+    expect(normalizePhoneNumber('1-416-555-0123', 'CA')).toMatchObject({ e164: '+14165550123', country: 'CA' });
+    expect(normalizePhoneNumber('011 31 6 12345678', 'US')).toMatchObject({ e164: '+31612345678', country: 'NL' });
+  });
+
+  it('reads international numbers regardless of the country', () => {
+    expect(normalizePhoneNumber('+31 (0)6 12345678', 'BE')).toMatchObject({ e164: '+31612345678', country: 'NL', numberType: 'mobile' });
+    expect(normalizePhoneNumber('+31 06 12345678')).toMatchObject({ e164: '+31612345678' });
+    expect(normalizePhoneNumber('0032 2 123 45 67', 'NL')).toMatchObject({ e164: '+3221234567', country: 'BE', numberType: 'landline' });
+    expect(normalizePhoneNumber('+41 44 668 18 00')).toEqual({ type: 'valid', e164: '+41446681800', numberType: 'unknown' });
+  });
+
+  it('accepts national numbers written with the calling code but without +', () => {
+    expect(normalizePhoneNumber('31612345678', 'NL')).toMatchObject({ e164: '+31612345678' });
+  });
+
+  it('reports numbers it cannot normalize', () => {
+    expect(normalizePhoneNumber('0612', 'NL')).toEqual({ type: 'invalid', message: '"0612" is not a valid NL phone number.' });
+    expect(normalizePhoneNumber('+1 012 555 0123')).toEqual({ type: 'invalid', message: '"+1 012 555 0123" is not a valid US phone number.' });
+    expect(normalizePhoneNumber('044 668 18 00', 'CH').type).toBe('invalid');
+    expect(normalizePhoneNumber('0612345678 ext. 2', 'NL')).toEqual({ type: 'invalid', message: '"0612345678 ext. 2" contains characters other than digits, spaces and +()-./.' });
+  });
+});
@@ -0,0 +1,54 @@
+import { formatPostalCode, normalizePostalCode, restorePostalCodeLeadingZeros } from '../src/lib/postal-codes';
+
+describe('normalizePostalCode', () => {
+  it('formats codes to the canonical form of their country', () => {
+    expect(['1234ab', '1234 AB', '1234AB', 'NL-1234 ab'].map(zip => normalizePostalCode(zip, 'NL')))
+      .toEqual(Array(4).fill({ type: 'valid', formatted: '1234 AB' }));
+    expect(normalizePostalCode('B-1000', 'BE')).toEqual({ type: 'valid', formatted: '1000' });
+    expect(normalizePostalCode('D-10115', 'DE')).toEqual({ type: 'valid', formatted: '10115' });
+    expect(normalizePostalCode('75 001', 'FR')).toEqual({ type: 'valid', formatted: '75001' });
+    expect(normalizePostalCode('sw1a1aa', 'GB')).toEqual({ type: 'valid', formatted: 'SW1A 1AA' });
+    expect(normalizePostalCode('123456789', 'US')).toEqual({ type: 'valid', formatted: '12345-6789' });
+    expect(normalizePostalCode('k1a0b1', 'ca')).toEqual({ type: 'valid', formatted: 'K1A 0B1' });
+  });
+
+  it('reports codes that do not match their country', () => {
+    expect(normalizePostalCode('12345', 'NL')).toEqual({ type: 'invalid', message: '"12345" is not a valid NL postal code, e.g. 1234 AB.' });
+    expect(normalizePostalCode('D1A 1A1', 'CA').type).toBe('invalid');
+    expect(normalizePostalCode('123456', 'US').type).toBe('invalid');
+  });
+
+  it('suggests the code with its leading zeros restored', () => {
+    expect(normalizePostalCode('1067', 'DE')).toEqual({
+      type: 'invalid', message: '"1067" is missing leading zeros; the DE postal code is 01067.', withLeadingZeros: '01067',
+    });
+  });
+
+  it('keeps codes of countries without a rule', () => {
+    expect(normalizePostalCode(' 1010 ', 'AT')).toEqual({ type: 'valid', formatted: '1010' });
+    expect(normalizePostalCode('1234ab', '')).toEqual({ type: 'valid', formatted: '1234ab' });
+  });
+});
+
+describe('restorePostalCodeLeadingZeros', () => {
+  it('pads US and German codes that lost their leading zeros', () => {
+    expect(restorePostalCodeLeadingZeros('2134', 'US')).toBe('02134');
+    expect(restorePostalCodeLeadingZeros('501', 'US')).toBe('00501');
+    expect(restorePostalCodeLeadingZeros('21341234', 'US')).toBe('02134-1234');
+    expect(restorePostalCodeLeadingZeros('1067', 'DE')).toBe('01067');
+  });
+
+  it('returns undefined when nothing is to be restored', () => {
+    expect(restorePostalCodeLeadingZeros('02134', 'US')).toBeUndefined();
+    expect(restorePostalCodeLeadingZeros('12', 'US')).toBeUndefined();
+    expect(restorePostalCodeLeadingZeros('7501', 'FR')).toBeUndefined();
+    expect(restorePostalCodeLeadingZeros('1000', 'BE')).toBeUndefined();
+  });
+});
+
+describe('formatPostalCode', () => {
+  it('returns invalid codes trimmed', () => {
+    expect(formatPostalCode(' 2134 ', 'US')).toBe('2134');
+    expect(formatPostalCode(undefined)).toBe('');
+  });
+});
@@ -1,4 +1,7 @@
-import { parseMagentoProductCsv } from '../src/lib/product-csv-converter';
+import { generateBundleComponentsCsv, generateShopifyProductCsv, parseMagentoProductCsv } from '../src/lib/product-csv-converter';
+import { parseCsv } from '../src/lib/csv';
+import { CSV_OUTPUT_PROFILES } from '../src/lib/csv-output';
+import { shopifyProductSchema } from '../src/schemas/product';
 
 describe('parseMagentoProductCsv', () => {
   it('parses simple CSV with sku and name', () => {
@@ -41,4 +44,479 @@ describe('parseMagentoProductCsv', () => {
     expect(result.data.length).toBe(2);
     expect(result.data[1]).toHaveProperty('handle', 'SKU2');
   });
+
+  it('uses a column mapping instead of the default aliases', () => {
+    const csv = 'artikelnummer,titel,merk\nA1,Shirt,Acme';
+    const result = parseMagentoProductCsv(csv, undefined, {
+      columnMapping: {
+        artikelnummer: { kind: 'field', field: 'sku' },
+        titel: { kind: 'field', field: 'name' },
+        merk: { kind: 'tags' },
+      },
+    });
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data[0]).toMatchObject({ handle: 'A1', title: 'Shirt', tags: 'merk:Acme' });
+  });
+
+  it('maps every configurable attribute to its own Shopify option', () => {
+    const csv = [
+      'sku,name,product_type,price,configurable_variations,configurable_variation_labels',
+      'TEE-S-RED,Tee S Red,simple,10,,',
+      'TEE-M-BLUE,Tee M Blue,simple,12,,',
+      'TEE,Tee,configurable,,"sku=TEE-S-RED,size=S,color=Red|sku=TEE-M-BLUE,size=M,color=Blue","color=Colour,size=Size"',
+    ].join('\n');
+    const result = parseMagentoProductCsv(csv);
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data).toHaveLength(2);
+    expect(result.data[0]).toMatchObject({
+      handle: 'TEE', variantSku: 'TEE-S-RED',
+      option1Name: 'Colour', option1Value: 'Red', option2Name: 'Size', option2Value: 'S',
+    });
+    expect(result.data[1]).toMatchObject({
+      handle: 'TEE', variantSku: 'TEE-M-BLUE', isVariantRow: true,
+      option1Name: 'Colour', option1Value: 'Blue', option2Name: 'Size', option2Value: 'M',
+    });
+    expect(result.data[0].option3Name).toBeUndefined();
+  });
+
+  it('reports configurables with more than three attributes instead of truncating them', () => {
+    const csv = [
+      'sku,name,product_type,configurable_variations',
+      'C1-A,Child,simple,',
+      'C1,Configurable,configurable,"sku=C1-A,size=S,color=Red,material=Cotton,fit=Slim"',
+    ].join('\n');
+    const result = parseMagentoProductCsv(csv);
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.configurablesWithTooManyOptions).toEqual([{ sku: 'C1', attributes: ['size', 'color', 'material', 'fit'] }]);
+    expect(result.data.map(p => p.handle)).toEqual(['C1-A']);
+  });
+
+  it('collects the image gallery without duplicates', () => {
+    const csv = [
+      'sku,name,base_image,base_image_label,small_image,thumbnail_image,swatch_image,additional_images,additional_image_labels',
+      'S1,Shoe,/s/h/shoe.jpg,Front,/s/h/shoe.jpg,/s/h/shoe.jpg,no_selection,"/s/h/shoe.jpg,/s/h/side.jpg,/s/h/back.jpg","Front,Side,Back"',
+    ].join('\n');
+    const result = parseMagentoProductCsv(csv, 'https://shop.example/media/catalog/product/');
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data[0]).toMatchObject({ imageSrc: 'https://shop.example/media/catalog/product/s/h/shoe.jpg', imageAltText: 'Front' });
+    expect(result.data[0].additionalImages).toEqual([
+      { src: 'https://shop.example/media/catalog/product/s/h/side.jpg', altText: 'Side' },
+      { src: 'https://shop.example/media/catalog/product/s/h/back.jpg', altText: 'Back' },
+    ]);
+  });
+});
+
+describe('parseMagentoProductCsv product types', () => {
+  const children = [
+    'sku,name,product_type,price,weight,associated_skus,bundle_values,bundle_price_type',
+    'MUG-S,Small mug,simple,5,0.2,,,',
+    'MUG-L,Large mug,simple,8,0.4,,,',
+    'EBOOK,Mug care ebook,downloadable,3,,,,',
+  ];
+
+  it('turns a grouped product into one product with its children as variants', () => {
+    const csv = [...children, 'MUG-SET,Mug set,grouped,,,"MUG-S=1.0000,MUG-L=1.0000",,'].join('\n');
+    const result = parseMagentoProductCsv(csv);
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    const rows = result.data.filter(p => p.handle === 'MUG-SET');
+    expect(rows.map(p => [p.variantSku, p.option1Value, p.variantPrice, p.isVariantRow])).toEqual([
+      ['MUG-S', 'Small mug', 5, false],
+      ['MUG-L', 'Large mug', 8, true],
+    ]);
+    expect(rows[0]).toMatchObject({ title: 'Mug set', option1Name: 'Product', magentoProductType: 'grouped' });
+    expect(result.data.map(p => p.handle)).not.toContain('MUG-S');
+    expect(result.groupedProductsConverted).toBe(1);
+  });
+
+  it('flattens a dynamic bundle to the price of its default selections', () => {
+    const bundleValues = 'name=Mug,type=select,required=1,sku=MUG-S,price=0.0000,default=0,default_qty=2.0000,price_type=fixed|name=Mug,type=select,required=1,sku=MUG-L,price=0.0000,default=1,default_qty=1.0000,price_type=fixed|name=Extra,type=checkbox,required=0,sku=EBOOK,price=0.0000,default=0,default_qty=1.0000,price_type=fixed';
+    const csv = [...children, `MUG-BUNDLE,Mug bundle,bundle,,,,"${bundleValues}",dynamic`].join('\n');
+    const result = parseMagentoProductCsv(csv);
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    const bundle = result.data.find(p => p.handle === 'MUG-BUNDLE');
+    expect(bundle).toMatchObject({ variantSku: 'MUG-BUNDLE', variantPrice: 8, variantWeight: 400, magentoProductType: 'bundle' });
+    expect(result.data.map(p => p.handle)).toContain('MUG-L');
+    expect(result.bundleComponents).toEqual([]);
+  });
+
+  it('adds fixed and percentage surcharges to a fixed-price bundle and exports its components', () => {
+    const bundleValues = 'name=Mug,type=radio,required=1,sku=MUG-S,price=2.5000,default=1,default_qty=2.0000,price_type=fixed|name=Ebook,type=checkbox,required=0,sku=EBOOK,price=10.0000,default=1,default_qty=1.0000,price_type=percent';
+    const csv = [...children, `GIFT,Gift box,bundle,20,,,"${bundleValues}",fixed`].join('\n');
+    const result = parseMagentoProductCsv(csv, undefined, { bundleProducts: 'components_metafield' });
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data.find(p => p.handle === 'GIFT')?.variantPrice).toBe(27);
+    expect(result.bundleComponents).toHaveLength(1);
+    const csvOut = generateBundleComponentsCsv(result.bundleComponents);
+    expect(csvOut.split('\n')[0]).toBe('Handle,Variant SKU,Metafield: custom.bundle_components [json]');
+    expect(csvOut).toContain('""sku"":""MUG-S"",""quantity"":2');
+  });
+
+  it('marks virtual and downloadable products as not requiring shipping', () => {
+    const result = parseMagentoProductCsv(children.join('\n'));
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data.find(p => p.handle === 'EBOOK')).toMatchObject({ variantRequiresShipping: false, magentoProductType: 'downloadable' });
+    expect(result.data.find(p => p.handle === 'MUG-S')?.variantRequiresShipping).toBe(true);
+  });
+
+  it('reports skipped product types', () => {
+    const csv = [...children, 'MUG-SET,Mug set,grouped,,,MUG-S=1,,', 'CARD,Gift card,giftcard,,,,,'].join('\n');
+    const result = parseMagentoProductCsv(csv, undefined, { groupedProducts: 'skip' });
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.skippedOtherTypeSkus).toEqual([{ sku: 'MUG-SET', type: 'grouped' }, { sku: 'CARD', type: 'giftcard' }]);
+  });
+});
+
+describe('parseMagentoProductCsv pricing', () => {
+  const header = 'sku,name,price,special_price,special_price_from_date,special_price_to_date,msrp,cost';
+  const parse = (row: string, referenceDate = new Date('2024-06-15T12:00:00Z')) => {
+    const result = parseMagentoProductCsv([header, row].join('\n'), undefined, { referenceDate });
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    return result.data[0];
+  };
+
+  it('uses an active special price as price and the regular price as compare-at', () => {
+    const product = parse('P1,Shirt,20.00,15.00,2024-06-01,2024-06-30,,');
+    expect(product.variantPrice).toBe(15);
+    expect(product.variantCompareAtPrice).toBe(20);
+  });
+
+  it('ignores a special price outside its date range', () => {
+    const product = parse('P1,Shirt,20.00,15.00,6/16/24,,,');
+    expect(product.variantPrice).toBe(20);
+    expect(product.variantCompareAtPrice).toBeUndefined();
+  });
+
+  it('uses a higher MSRP as compare-at and passes cost through', () => {
+    const product = parse('P1,Shirt,20.00,,,,29.95,7.5');
+    expect(product.variantPrice).toBe(20);
+    expect(product.variantCompareAtPrice).toBe(29.95);
+    expect(product.variantCost).toBe(7.5);
+  });
+});
+
+describe('parseMagentoProductCsv stock settings', () => {
+  it('derives tracking and policy from the Magento stock columns', () => {
+    const csv = [
+      'sku,name,qty,is_in_stock,manage_stock,use_config_manage_stock,allow_backorders',
+      'P1,Shirt,0,1,1,0,1',
+      'P2,Gift wrap,0,1,0,0,0',
+    ].join('\n');
+    const result = parseMagentoProductCsv(csv);
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data[0]).toMatchObject({ variantInventoryTracked: true, variantInventoryPolicy: 'continue', magentoIsInStock: true });
+    expect(result.data[1]).toMatchObject({ variantInventoryTracked: false, variantInventoryPolicy: 'deny' });
+  });
+});
+
+describe('parseMagentoProductCsv additional attributes', () => {
+  const csv = 'sku,name,additional_attributes\nP1,Shirt,"material=Cotton,brand=Acme,size=XL,eco=1"';
+
+  it('sends attributes to metafields, tags and variant options', () => {
+    const result = parseMagentoProductCsv(csv, undefined, {
+      attributeMapping: {
+        brand: { kind: 'tags' },
+        size: { kind: 'option' },
+        eco: { kind: 'metafield', namespace: 'shop', key: 'eco', type: 'boolean' },
+      },
+    });
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data[0]).toMatchObject({ tags: 'brand:Acme', option1Name: 'size', option1Value: 'XL' });
+    expect(result.data[0].metafields).toEqual([
+      { namespace: 'custom', key: 'material', type: 'single_line_text_field', value: 'Cotton' },
+      { namespace: 'shop', key: 'eco', type: 'boolean', value: 'true' },
+    ]);
+  });
+});
+
+describe('parseMagentoProductCsv categories', () => {
+  it('tags products with stable category tags and records membership', () => {
+    const csv = 'sku,name,categories\nP1,Sneaker,"Default Category/Men/Shoes,Default Category/Sale"\nP2,Boot,Default Category/Men/Shoes';
+    const result = parseMagentoProductCsv(csv);
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data[0].tags).toBe('cat:men-shoes, cat:sale');
+    expect(result.categories.find(category => category.tag === 'cat:men-shoes')?.productHandles).toEqual(['P1', 'P2']);
+    expect(result.categories.find(category => category.tag === 'cat:men')?.productHandles).toEqual([]);
+  });
+});
+
+describe('parseMagentoProductCsv handles', () => {
+  const csv = 'sku,name,url_key,categories\nP1,Sneaker,Blue-Sneaker,Default Category/Shoes\nP2,Sneaker 2,blue-sneaker,\nP3,No key,,';
+
+  it('derives unique handles from url_key and redirects the old URLs', () => {
+    const result = parseMagentoProductCsv(csv);
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data.map(product => product.handle)).toEqual(['blue-sneaker', 'blue-sneaker-2', 'P3']);
+    expect(result.categories[0].productHandles).toEqual(['blue-sneaker']);
+    expect(result.redirects).toEqual([
+      { from: '/shoes.html', to: '/collections/shoes' },
+      { from: '/Blue-Sneaker.html', to: '/products/blue-sneaker' },
+      { from: '/shoes/Blue-Sneaker.html', to: '/products/blue-sneaker' },
+      { from: '/blue-sneaker.html', to: '/products/blue-sneaker-2' },
+    ]);
+  });
+
+  it('keeps the SKU as handle when asked to', () => {
+    const result = parseMagentoProductCsv(csv, undefined, { handleSource: 'sku' });
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data.map(product => product.handle)).toEqual(['P1', 'P2', 'P3']);
+    expect(result.redirects).toContainEqual({ from: '/blue-sneaker.html', to: '/products/P2' });
+  });
+});
+
+describe('parseMagentoProductCsv tier prices', () => {
+  it('resolves tier and group prices per variant and lists the customer groups', () => {
+    const csv = 'sku,name,price,tier_prices,group_prices\nP1,Shirt,20,"cust_group=2,price_qty=10,price=15,price_type=discount","cust_group=3,price=19"';
+    const result = parseMagentoProductCsv(csv);
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data[0].tierPrices).toEqual([
+      { customerGroup: 'Retailer', minQty: 1, price: 19 },
+      { customerGroup: 'Wholesale', minQty: 10, price: 17 },
+    ]);
+    expect(result.customerGroups).toEqual(['Retailer', 'Wholesale']);
+  });
+});
+
+describe('parseMagentoProductCsv custom options', () => {
+  const customOptions = 'name=Color,type=drop_down,required=1,price=0,price_type=fixed,sku=RD,option_title=Red|name=Color,type=drop_down,required=1,price=2,price_type=fixed,sku=BL,option_title=Blue|name=Engraving,type=area,required=1,price=0,price_type=fixed,sku=';
+
+  it('turns select options of a standalone product into priced variants', () => {
+    const csv = `sku,name,price,custom_options\nMUG,Mug,10,"${customOptions}"`;
+    const result = parseMagentoProductCsv(csv);
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data.map(product => [product.variantSku, product.option1Name, product.option1Value, product.variantPrice, product.isVariantRow])).toEqual([
+      ['MUG-RD', 'Color', 'Red', 10, false],
+      ['MUG-BL', 'Color', 'Blue', 12, true],
+    ]);
+    expect(result.data[0].metafields).toContainEqual({
+      namespace: 'custom',
+      key: 'line_item_properties',
+      type: 'json',
+      value: JSON.stringify([{ name: 'Engraving', type: 'textarea', required: true }]),
+    });
+    expect(result.data[1].metafields).toEqual([]);
+  });
+
+  it('keeps the shared Magento stock on the first variant only', () => {
+    const csv = `sku,name,price,qty,custom_options\nMUG,Mug,10,10,"${customOptions}"`;
+    const result = parseMagentoProductCsv(csv);
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data.map(product => product.variantInventoryQty)).toEqual([10, 0]);
+    expect(result.data[0].conversionWarnings).toContain("Magento's stock of 10 is shared by the custom option choices and was given to variant MUG-RD; the other 1 variant(s) start at 0.");
+    expect(result.data[1].conversionWarnings).toEqual([]);
+  });
+
+  it('warns instead of adding variants to products that already have them', () => {
+    const csv = `sku,name,product_type,price,custom_options\nBUNDLE,Gift set,bundle,10,"${customOptions}"`;
+    const result = parseMagentoProductCsv(csv);
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data).toHaveLength(1);
+    expect(result.data[0].conversionWarnings).toEqual(['Custom option "Color" (drop_down) does not fit in the remaining Shopify options.']);
+  });
+});
+
+describe('parseMagentoProductCsv weights', () => {
+  const csv = 'sku,name,weight\nP1,Shirt,"0,25"\nP2,Pin,0.0002';
+
+  it('converts the Magento weight unit to grams and keeps it as display unit', () => {
+    const result = parseMagentoProductCsv(csv, undefined, { weightUnit: 'lb' });
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data[0]).toMatchObject({ variantWeight: 113, variantWeightUnit: 'lb', conversionWarnings: [] });
+  });
+
+  it('warns about weights that round to 0 grams', () => {
+    const result = parseMagentoProductCsv(csv);
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data[1]).toMatchObject({ variantWeight: 0, variantWeightUnit: 'kg' });
+    expect(result.data[1].conversionWarnings).toEqual(['A weight of 0.0002 kg rounds to 0 grams; check the Magento weight unit.']);
+  });
+});
+
+describe('parseMagentoProductCsv descriptions', () => {
+  it('cleans the description and reports the changes', () => {
+    const csv = 'sku,name,description\nP1,Shirt,"<div data-content-type=""row""><p style=""color:red"">Soft <img src=""{{media url=""wysiwyg/shirt.jpg""}}""></p></div>"';
+    const result = parseMagentoProductCsv(csv, 'https://shop.example/media/catalog/product');
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data[0].bodyHtml).toBe('<p>Soft <img src="https://shop.example/media/wysiwyg/shirt.jpg"></p>');
+    expect(result.data[0].bodyHtmlChanges).toEqual(['Resolved 1 media URL', 'Unwrapped 1 Page Builder element', 'Removed attributes style']);
+  });
+});
+
+describe('parseMagentoProductCsv barcodes', () => {
+  it('reads the barcode from an ean column and strips spaces', () => {
+    const result = parseMagentoProductCsv('sku,name,ean\nP1,Shirt,4006381 333931');
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data[0].variantBarcode).toBe('4006381333931');
+  });
+
+  it('reads the barcode from a user-chosen column', () => {
+    const result = parseMagentoProductCsv('sku,name,artikel_code\nP1,Shirt,036000291452', undefined, {
+      columnMapping: {
+        sku: { kind: 'field', field: 'sku' },
+        name: { kind: 'field', field: 'name' },
+        artikel_code: { kind: 'field', field: 'barcode' },
+      },
+    });
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data[0].variantBarcode).toBe('036000291452');
+  });
+});
+
+describe('parseMagentoProductCsv store views', () => {
+  const csv = [
+    'sku,store_view_code,name,description,price',
+    'TEE,,T-shirt,<p>Cotton tee</p>,20',
+    'TEE,nl,T-shirt NL,<p>Katoenen shirt</p>,',
+    'TEE,de,T-Shirt,,',
+  ].join('\n');
+
+  it('keeps one product per SKU and exports the other store views as translations', () => {
+    const result = parseMagentoProductCsv(csv);
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data).toHaveLength(1);
+    expect(result.data[0]).toMatchObject({ title: 'T-shirt', bodyHtml: '<p>Cotton tee</p>', variantPrice: 20 });
+    expect(result.simpleProductsCollected).toBe(1);
+    expect(result.storeViews).toEqual(['de', 'nl']);
+    expect(result.translations.map(t => [t.locale, t.field, t.translatedContent])).toEqual([
+      ['nl', 'title', 'T-shirt NL'],
+      ['nl', 'body_html', '<p>Katoenen shirt</p>'],
+      ['de', 'title', 'T-Shirt'],
+    ]);
+  });
+
+  it('uses the chosen store view for the main CSV and translates the default values', () => {
+    const result = parseMagentoProductCsv(csv, undefined, { defaultStoreView: 'nl' });
+    if (result.type !== 'products_found') {
+      throw new Error('Expected products_found');
+    }
+    expect(result.data[0]).toMatchObject({ title: 'T-shirt NL', bodyHtml: '<p>Katoenen shirt</p>', variantPrice: 20 });
+    expect(result.translations.find(t => t.locale === 'de' && t.field === 'body_html')).toMatchObject({
+      defaultContent: '<p>Katoenen shirt</p>',
+      translatedContent: '<p>Cotton tee</p>',
+    });
+  });
+});
+
+describe('generateShopifyProductCsv', () => {
+  it('writes additional images as image-only rows after the handle\'s variants', () => {
+    const product = (overrides: object) => shopifyProductSchema.parse({ id: 'x', handle: 'tee', ...overrides });
+    const csv = generateShopifyProductCsv([
+      product({ title: 'Tee', variantSku: 'TEE-S', imageSrc: 'https://img/a.jpg', imagePosition: 1, additionalImages: [{ src: 'https://img/b.jpg' }, { src: 'https://img/a.jpg' }] }),
+      product({ variantSku: 'TEE-M', isVariantRow: true, imageSrc: 'https://img/c.jpg', imagePosition: 2 }),
+      product({ handle: 'cap', title: 'Cap', variantSku: 'CAP' }),
+    ]);
+    const { records } = parseCsv(csv);
+    const header = records[0].fields;
+    const column = (name: string) => header.indexOf(name);
+    const rows = records.slice(1).map(r => r.fields);
+
+    expect(rows.map(r => r[column('Handle')])).toEqual(['tee', 'tee', 'tee', 'cap']);
+    expect(rows[2][column('Image Src')]).toBe('https://img/b.jpg');
+    expect(rows[2][column('Image Position')]).toBe('3');
+    expect(rows[2][column('Image Alt Text')]).toBe('Tee');
+    expect(rows[2][column('Variant SKU')]).toBe('');
+  });
+
+  it('writes the variant barcode to Variant Barcode', () => {
+    const product = shopifyProductSchema.parse({ id: 'x', handle: 'tee', title: 'Tee', variantSku: 'TEE', variantBarcode: '4006381333931' });
+    const { records } = parseCsv(generateShopifyProductCsv([product]));
+    const header = records[0].fields;
+    expect(records[1].fields[header.indexOf('Variant Barcode')]).toBe('4006381333931');
+  });
+
+  it('writes whole grams to Variant Grams and the display unit to Variant Weight Unit', () => {
+    const product = shopifyProductSchema.parse({ id: 'x', handle: 'tee', title: 'Tee', variantSku: 'TEE', variantWeight: 113.4, variantWeightUnit: 'lb' });
+    const { records } = parseCsv(generateShopifyProductCsv([product]));
+    const header = records[0].fields;
+    expect(records[1].fields[header.indexOf('Variant Grams')]).toBe('113');
+    expect(records[1].fields[header.indexOf('Variant Weight Unit')]).toBe('lb');
+  });
+
+  it('writes inventory tracking and policy for zero stock items', () => {
+    const product = shopifyProductSchema.parse({ id: 'x', handle: 'tee', title: 'Tee', variantSku: 'TEE', variantInventoryQty: 0, variantInventoryPolicy: 'continue' });
+    const { records } = parseCsv(generateShopifyProductCsv([product]));
+    const header = records[0].fields;
+    expect(records[1].fields[header.indexOf('Variant Inventory Tracker')]).toBe('shopify');
+    expect(records[1].fields[header.indexOf('Variant Inventory Policy')]).toBe('continue');
+  });
+
+  it('writes metafields as columns on the product row only', () => {
+    const metafields = [{ namespace: 'custom', key: 'material', type: 'single_line_text_field', value: 'Cotton' }];
+    const csv = generateShopifyProductCsv([
+      shopifyProductSchema.parse({ id: 'x', handle: 'tee', title: 'Tee', variantSku: 'TEE-S', metafields }),
+      shopifyProductSchema.parse({ id: 'y', handle: 'tee', variantSku: 'TEE-M', isVariantRow: true, metafields }),
+    ]);
+    const { records } = parseCsv(csv);
+    const column = records[0].fields.indexOf('Metafield: custom.material [single_line_text_field]');
+    expect(column).toBeGreaterThan(-1);
+    expect(records[1].fields[column]).toBe('Cotton');
+    expect(records[2].fields[column]).toBe('');
+  });
+
+  it('writes the variant cost to Cost per item', () => {
+    const product = shopifyProductSchema.parse({ id: 'x', handle: 'tee', title: 'Tee', variantSku: 'TEE', variantPrice: 20, variantCost: 7.5 });
+    const { records } = parseCsv(generateShopifyProductCsv([product]));
+    const header = records[0].fields;
+    expect(records[1].fields[header.indexOf('Cost per item')]).toBe('7.5');
+  });
+
+  it('writes decimal commas, semicolons and a BOM with the European Excel profile', () => {
+    const product = shopifyProductSchema.parse({ id: 'x', handle: 'tee', title: 'Tee', variantSku: 'TEE', variantPrice: 19.95, variantCompareAtPrice: 24.5 });
+    const csv = generateShopifyProductCsv([product], { outputProfile: CSV_OUTPUT_PROFILES.european_excel });
+    expect(csv.charCodeAt(0)).toBe(0xfeff);
+    const { delimiter, records } = parseCsv(csv);
+    expect(delimiter).toBe(';');
+    const header = records[0].fields;
+    expect(records[1].fields[header.indexOf('Variant Price')]).toBe('19,95');
+    expect(records[1].fields[header.indexOf('Variant Compare At Price')]).toBe('24,5');
+  });
 });
@@ -0,0 +1,55 @@
+import { generateProductTranslationsCsv, getHandlesWithoutProductId, parseShopifyProductIds, storeViewToLocale, type ProductTranslation } from '../src/lib/product-translations';
+import { parseCsv } from '../src/lib/csv';
+
+describe('storeViewToLocale', () => {
+  it.each([
+    ['nl', 'nl'],
+    ['nl_nl', 'nl'],
+    ['pt_br', 'pt-BR'],
+    ['EN', 'en'],
+    ['german', 'de'],
+    ['webshop_b2b', 'webshop_b2b'],
+  ])('maps %s to %s', (storeView, locale) => {
+    expect(storeViewToLocale(storeView)).toBe(locale);
+  });
+});
+
+describe('parseShopifyProductIds', () => {
+  it('reads the handle rows of a Translate & Adapt export', () => {
+    const csv = [
+      'Type,Identification,Field,Locale,Market,Status,Default content,Translated content',
+      "PRODUCT,'7001,title,de,,,T-shirt,",
+      "PRODUCT,'7001,handle,de,,,tee,",
+      'COLLECTION,9001,handle,de,,,shirts,',
+      'PRODUCT,gid://shopify/Product/7002,handle,de,,,mug,',
+    ].join('\n');
+    const result = parseShopifyProductIds(parseCsv(csv));
+    expect(result.type === 'ids_found' && Array.from(result.productIds)).toEqual([['tee', '7001'], ['mug', '7002']]);
+  });
+
+  it('reads a product export with ID and Handle columns', () => {
+    const result = parseShopifyProductIds(parseCsv('ID,Handle,Title\n7001,tee,T-shirt\n,draft,Draft'));
+    expect(result.type === 'ids_found' && Array.from(result.productIds)).toEqual([['tee', '7001']]);
+  });
+
+  it('rejects a file without IDs', () => {
+    expect(parseShopifyProductIds(parseCsv('Handle,Title\ntee,T-shirt')).type).toBe('parse_error');
+  });
+});
+
+describe('generateProductTranslationsCsv', () => {
+  const translations: ProductTranslation[] = [
+    { handle: 'tee', storeView: 'de', locale: 'de', field: 'title', defaultContent: 'T-shirt', translatedContent: 'T-Shirt, rot' },
+    { handle: 'mug', storeView: 'de', locale: 'de', field: 'title', defaultContent: 'Mug', translatedContent: 'Becher' },
+  ];
+
+  it('writes one Translate & Adapt row per field and locale, identified by product ID', () => {
+    const productIds = new Map([['tee', '7001']]);
+    const { records } = parseCsv(generateProductTranslationsCsv(translations, productIds));
+    expect(records.map(record => record.fields)).toEqual([
+      ['Type', 'Identification', 'Field', 'Locale', 'Market', 'Status', 'Default content', 'Translated content'],
+      ['PRODUCT', '7001', 'title', 'de', '', '', 'T-shirt', 'T-Shirt, rot'],
+    ]);
+    expect(getHandlesWithoutProductId(translations, productIds)).toEqual(['mug']);
+  });
+});
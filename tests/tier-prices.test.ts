@@ -0,0 +1,60 @@
+import {
+  ALL_CUSTOMER_GROUPS,
+  collectCustomerGroups,
+  createDefaultCatalogMapping,
+  generatePriceListCsv,
+  parseMagentoTierPrices,
+  resolveTierPrices,
+} from '../src/lib/tier-prices';
+import { parseCsv } from '../src/lib/csv';
+
+describe('parseMagentoTierPrices', () => {
+  it('reads group ids, names, quantities and value types', () => {
+    expect(parseMagentoTierPrices('website_id=0,cust_group=2,price_qty=10.0000,price=8.5000|customer_group=Retailer,qty=5,price=10,price_type=discount')).toEqual([
+      { customerGroup: 'Wholesale', minQty: 10, value: 8.5, valueType: 'fixed' },
+      { customerGroup: 'Retailer', minQty: 5, value: 10, valueType: 'discount' },
+    ]);
+  });
+
+  it('applies group prices from quantity 1 and skips incomplete entries', () => {
+    expect(parseMagentoTierPrices('cust_group=32000,price=9;cust_group=1,price_qty=3')).toEqual([
+      { customerGroup: ALL_CUSTOMER_GROUPS, minQty: 1, value: 9, valueType: 'fixed' },
+    ]);
+    expect(parseMagentoTierPrices(undefined)).toEqual([]);
+  });
+});
+
+describe('resolveTierPrices', () => {
+  it('turns percentage discounts into prices and keeps the last entry per group and quantity', () => {
+    const entries = parseMagentoTierPrices('cust_group=2,price_qty=10,price=8|cust_group=2,price_qty=10,price=7.5|cust_group=3,price_qty=5,price=15,price_type=discount');
+    expect(resolveTierPrices(entries, 20)).toEqual([
+      { customerGroup: 'Retailer', minQty: 5, price: 17 },
+      { customerGroup: 'Wholesale', minQty: 10, price: 7.5 },
+    ]);
+  });
+});
+
+describe('price list export', () => {
+  const products = [
+    { handle: 'shirt', variantSku: 'SHIRT-S', tierPrices: [
+      { customerGroup: ALL_CUSTOMER_GROUPS, minQty: 1, price: 18 },
+      { customerGroup: ALL_CUSTOMER_GROUPS, minQty: 10, price: 15 },
+      { customerGroup: 'Wholesale', minQty: 10, price: 12 },
+    ] },
+    { handle: 'cap', variantSku: 'CAP', tierPrices: [] },
+  ];
+
+  it('maps every group to a catalog of the same name except guests', () => {
+    expect(collectCustomerGroups(products)).toEqual([ALL_CUSTOMER_GROUPS, 'Wholesale']);
+    expect(createDefaultCatalogMapping(['NOT LOGGED IN', 'Wholesale'])).toEqual({ 'NOT LOGGED IN': '', Wholesale: 'Wholesale' });
+  });
+
+  it('gives each catalog its own prices plus the ALL GROUPS prices it does not override', () => {
+    const { records } = parseCsv(generatePriceListCsv(products, { [ALL_CUSTOMER_GROUPS]: '', Wholesale: 'Wholesale NL' }, 'eur'));
+    expect(records.map(record => record.fields)).toEqual([
+      ['Catalog', 'Currency', 'Handle', 'Variant SKU', 'Minimum Quantity', 'Price'],
+      ['Wholesale NL', 'EUR', 'shirt', 'SHIRT-S', '1', '18'],
+      ['Wholesale NL', 'EUR', 'shirt', 'SHIRT-S', '10', '12'],
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { buildCategoryTree } from '../src/lib/category-collections';
+import {
+  buildCategoryRedirects,
+  buildProductRedirects,
+  createHandleAllocator,
+  generateUrlRedirectsCsv,
+  getPreferredHandle,
+  toMagentoUrlPath,
+} from '../src/lib/url-redirects';
+
+describe('getPreferredHandle', () => {
+  it('slugs the url_key and falls back to the SKU', () => {
+    expect(getPreferredHandle('url_key', 'SKU-1', 'Blue Sneaker')).toBe('blue-sneaker');
+    expect(getPreferredHandle('url_key', 'SKU-1', '')).toBe('SKU-1');
+    expect(getPreferredHandle('sku', 'SKU-1', 'blue-sneaker')).toBe('SKU-1');
+  });
+});
+
+describe('createHandleAllocator', () => {
+  it('suffixes handles that are already taken', () => {
+    const allocate = createHandleAllocator();
+    expect(['shirt', 'shirt', 'shirt', 'shirt-2'].map(allocate)).toEqual(['shirt', 'shirt-2', 'shirt-3', 'shirt-2-2']);
+  });
+});
+
+describe('redirects', () => {
+  const categories = buildCategoryTree([['Men', 'Shoes']]);
+
+  it('adds the Magento suffix unless the path has an extension', () => {
+    expect(toMagentoUrlPath('/men/shoes/')).toBe('/men/shoes.html');
+    expect(toMagentoUrlPath('sneaker.htm')).toBe('/sneaker.htm');
+  });
+
+  it('redirects the product page, its url_path and category paths', () => {
+    const shoes = categories.filter(category => category.title === 'Shoes');
+    expect(buildProductRedirects('blue-sneaker', 'blue-sneaker', 'old/blue-sneaker.html', shoes)).toEqual([
+      { from: '/old/blue-sneaker.html', to: '/products/blue-sneaker' },
+      { from: '/blue-sneaker.html', to: '/products/blue-sneaker' },
+      { from: '/men/shoes/blue-sneaker.html', to: '/products/blue-sneaker' },
+    ]);
+    expect(buildProductRedirects('SKU-1', undefined, undefined, shoes)).toEqual([]);
+  });
+
+  it('redirects category pages to collections', () => {
+    expect(buildCategoryRedirects(categories)).toEqual([
+      { from: '/men.html', to: '/collections/men' },
+      { from: '/men/shoes.html', to: '/collections/men-shoes' },
+    ]);
+  });
+
+  it('writes the URL Redirects CSV', () => {
+    expect(generateUrlRedirectsCsv([{ from: '/men.html', to: '/collections/men' }]).split(/\r?\n/).slice(0, 2)).toEqual([
+      'Redirect from,Redirect to',
+      '/men.html,/collections/men',
+    ]);
+  });
+});
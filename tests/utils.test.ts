@@ -1,4 +1,4 @@
-import { cn } from '../src/lib/utils';
+import { cn, getRandomUUID } from '../src/lib/utils';
 
 describe('cn', () => {
   it('merges class names, removing duplicates', () => {
@@ -27,3 +27,9 @@ describe('cn', () => {
     expect(cn(['a', 'b'], 'c')).toContain('c');
   });
 });
+
+describe('getRandomUUID', () => {
+  it('returns a version 4 UUID', () => {
+    expect(getRandomUUID()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+});
@@ -0,0 +1,23 @@
+import { fromGrams, isPlausibleWeight, MAX_PLAUSIBLE_WEIGHT_GRAMS, toGrams } from '../src/lib/weight';
+import { shopifyProductSchema } from '../src/schemas/product';
+
+describe('weight conversion', () => {
+  it('converts to whole grams', () => {
+    expect(toGrams(1.25, 'kg')).toBe(1250);
+    expect(toGrams(2, 'lb')).toBe(907);
+    expect(toGrams(3, 'oz')).toBe(85);
+    expect(toGrams(12.6, 'g')).toBe(13);
+  });
+
+  it('converts grams back to the display unit', () => {
+    expect(fromGrams(907, 'lb')).toBe(2);
+    expect(fromGrams(1250, 'kg')).toBe(1.25);
+  });
+
+  it('flags implausible weights', () => {
+    expect(isPlausibleWeight(MAX_PLAUSIBLE_WEIGHT_GRAMS)).toBe(true);
+    const result = shopifyProductSchema.safeParse({ id: '1', handle: 't-shirt', variantWeight: 4_500_000 });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe('A weight of 4500 kg is implausible; check the Magento weight unit.');
+  });
+});